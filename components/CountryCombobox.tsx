@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { COUNTRIES, countryFlag, countryName, countryOptions, findCountryCode } from '@/lib/countries';
+import { useI18n } from '@/lib/i18n';
+
+type CountryComboboxProps = {
+  id: string;
+  // an ISO 3166-1 alpha-2 code, or '' for none
+  value: string;
+  onChange: (code: string) => void;
+  placeholder: string;
+  invalid?: boolean;
+  describedBy?: string;
+  className?: string;
+};
+
+// case- and accent-insensitive, so "cote" finds Côte d'Ivoire
+const fold = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+// Searchable country picker following the ARIA combobox pattern: typing filters the list (by the
+// name in the coach's language, the English name or the code), arrow keys move through it, Enter
+// picks, Escape closes. Leaving the field keeps an exact match and otherwise puts back the country
+// that was picked before.
+export default function CountryCombobox({ id, value, onChange, placeholder, invalid = false, describedBy, className = '' }: CountryComboboxProps) {
+  const { t, locale } = useI18n();
+  const selectedName = value ? countryName(value, locale) : '';
+  const [query, setQuery] = useState(selectedName);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const focused = useRef(false);
+  const listboxId = `${id}-listbox`;
+  const optionId = (code: string) => `${id}-option-${code}`;
+
+  // detection, sign-in prefill and language switches change the value from outside
+  useEffect(() => {
+    if (!focused.current) setQuery(selectedName);
+  }, [selectedName]);
+
+  const all = useMemo(() => countryOptions(locale), [locale]);
+  const options = useMemo(() => {
+    const needle = fold(query);
+    // the picked country's own name shows everything, so opening the list doesn't filter it to one
+    if (!needle || query === selectedName) return all;
+    return all.filter(({ code, name }) => fold(name).indexOf(needle) >= 0 || fold(COUNTRIES[code].en).indexOf(needle) >= 0 || code.toLowerCase() === needle);
+  }, [all, query, selectedName]);
+
+  useEffect(() => {
+    if (!open || !listRef.current) return;
+    const option = listRef.current.querySelector<HTMLElement>('[aria-selected="true"]');
+    if (option) option.scrollIntoView({ block: 'nearest' });
+  }, [open, active]);
+
+  const openList = () => {
+    const current = options.findIndex((option) => option.code === value);
+    setActive(current >= 0 ? current : 0);
+    setOpen(true);
+  };
+
+  const pick = (code: string) => {
+    onChange(code);
+    setQuery(countryName(code, locale));
+    setOpen(false);
+  };
+
+  const commit = () => {
+    setOpen(false);
+    if (!query.trim()) {
+      if (value) onChange('');
+      return;
+    }
+    const match = findCountryCode(query);
+    if (match && match !== value) pick(match);
+    else setQuery(selectedName);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!open) return openList();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => Math.min(Math.max(i + step, 0), options.length - 1));
+    } else if (e.key === 'Enter' && open) {
+      // picking a country mustn't submit the form
+      e.preventDefault();
+      if (options[active]) pick(options[active].code);
+    } else if (e.key === 'Escape' && open) {
+      e.preventDefault();
+      setOpen(false);
+      setQuery(selectedName);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      {value && (
+        <span className="absolute inset-y-0 left-0 flex items-center pl-2.5 pointer-events-none" aria-hidden="true">{countryFlag(value)}</span>
+      )}
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={open}
+        aria-controls={listboxId}
+        aria-activedescendant={open && options[active] ? optionId(options[active].code) : undefined}
+        aria-invalid={invalid}
+        aria-describedby={describedBy}
+        value={query}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => { focused.current = true; }}
+        onBlur={() => {
+          focused.current = false;
+          commit();
+        }}
+        onClick={() => (open ? setOpen(false) : openList())}
+        onKeyDown={handleKeyDown}
+        className={value ? `${className} pl-9` : className}
+      />
+      <ul
+        ref={listRef}
+        id={listboxId}
+        role="listbox"
+        aria-label={t('form.country')}
+        hidden={!open}
+        className="absolute z-10 mt-1 w-full max-h-60 overflow-auto bg-white border border-gray-300 rounded-lg shadow-lg text-sm"
+      >
+        {options.map((option, i) => (
+          <li
+            key={option.code}
+            id={optionId(option.code)}
+            role="option"
+            aria-selected={i === active}
+            // keep focus in the input, so blur doesn't commit before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => pick(option.code)}
+            onMouseMove={() => setActive(i)}
+            className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${i === active ? 'bg-gray-100' : ''} ${option.code === value ? 'font-semibold' : ''}`}
+          >
+            <span aria-hidden="true">{countryFlag(option.code)}</span>
+            {option.name}
+          </li>
+        ))}
+        {!options.length && <li className="px-3 py-2 text-gray-500">{t('form.country.noMatches')}</li>}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { DEFAULT_LOCALE, I18nProvider, isLocale, useI18n } from '@/lib/i18n';
+
+type EmailLinkPageProps = {
+  // catalog key of the page title
+  title: string;
+  // gets the link's token, or '' when it has none
+  children: (token: string) => React.ReactNode;
+};
+
+function EmailLinkHead({ title }: { title: string }) {
+  const { t } = useI18n();
+  return (
+    <Head>
+      <title>{t(title)}</title>
+      {/* keep the token out of search engines and out of Referer headers */}
+      <meta name="robots" content="noindex" />
+      <meta name="referrer" content="no-referrer" />
+      <meta name="viewport" content="width=device-width, initial-scale=1, shrink-to-fit=no" />
+    </Head>
+  );
+}
+
+// Frame for the pages our emails link to (/reset-password, /verify-email, /resume), which all take
+// ?token=...&lang=nl and show one small card under the logo.
+export default function EmailLinkPage({ title, children }: EmailLinkPageProps) {
+  const router = useRouter();
+  const { token, lang } = router.query;
+
+  return (
+    <I18nProvider locale={isLocale(lang) ? lang : DEFAULT_LOCALE}>
+      <EmailLinkHead title={title} />
+      <main className="onboarding-container">
+        <div className="container">
+          <div className="logo-container">
+            <img src={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/logo.svg`} alt="CoachNova" className="logo" />
+          </div>
+          <div className="jumbotron">
+            <div className="title-section flex flex-col gap-8">
+              {router.isReady && children(typeof token === 'string' ? token : '')}
+            </div>
+          </div>
+        </div>
+      </main>
+    </I18nProvider>
+  );
+}
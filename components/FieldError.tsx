@@ -0,0 +1,9 @@
+import React from 'react';
+
+// id of the message an invalid input points at with aria-describedby
+export const errorIdFor = (inputId: string) => `${inputId}-error`;
+
+// Inline validation message shown under its field.
+export default function FieldError({ id, message }: { id: string; message: string | null | undefined }) {
+  return message ? <p id={id} className="mt-1 text-sm text-red-600">{message}</p> : null;
+}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import FieldError, { errorIdFor } from '@/components/FieldError';
+import { validateEmail } from '@/lib/accountValidation';
+import { useI18n } from '@/lib/i18n';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+
+type LoginFormProps = {
+  onSignedIn: () => void;
+  onCancel: () => void;
+};
+
+type View = 'login' | 'reset' | 'resetSent' | 'resume' | 'resumeSent';
+
+const INPUT_CLASS = 'bg-white border text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-primary block w-full p-2.5';
+
+// Email and password sign-in for returning coaches, with "forgot password" leading to a reset link
+// and a magic link for coaches who want to pick up their onboarding, here or on another device.
+export default function LoginForm({ onSignedIn, onCancel }: LoginFormProps) {
+  const { t, locale } = useI18n();
+  const [view, setView] = useState<View>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const headingRef = useHeadingFocus(view, true);
+
+  const show = (next: View) => {
+    setError(null);
+    setView(next);
+  };
+
+  const post = async (url: string, body: unknown) => {
+    setBusy(true);
+    setError(null);
+    try {
+      return await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    } catch (e) {
+      setError(t('form.error.network'));
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return setError(t('login.error.missing'));
+    const res = await post('/api/auth/login', { email, password });
+    if (!res) return;
+    if (res.ok) return onSignedIn();
+    setError(t(res.status === 401 ? 'login.error.incorrect' : res.status === 429 ? 'login.error.tooMany' : 'login.error.failed'));
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateEmail(email.trim().toLowerCase())) return setError(t('validation.email.invalid'));
+    const res = await post('/api/auth/password-reset', { email, locale });
+    if (!res) return;
+    if (res.ok) show('resetSent');
+    else setError(t('login.error.failed'));
+  };
+
+  const handleResume = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateEmail(email.trim().toLowerCase())) return setError(t('validation.email.invalid'));
+    const res = await post('/api/auth/resume', { email, locale });
+    if (!res) return;
+    if (res.ok) show('resumeSent');
+    else setError(t('login.error.failed'));
+  };
+
+  const emailField = (
+    <div>
+      <label htmlFor="login-email" className="block mb-1 text-sm font-medium text-gray-700">{t('form.email')}</label>
+      <input id="login-email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} aria-describedby={error ? errorIdFor('login') : undefined} className={`${INPUT_CLASS} border-gray-300`} placeholder={t('form.email.placeholder')} />
+    </div>
+  );
+
+  if (view === 'resetSent' || view === 'resumeSent') {
+    return (
+      <div className="w-full mt-6 space-y-4 text-center">
+        <h2 ref={headingRef} tabIndex={-1} className="text-xl font-semibold focus:outline-none">{t('login.resetSent.title')}</h2>
+        <p className="text-sm text-gray-600">{t(`login.${view}.body`, { email: email.trim() })}</p>
+        <button type="button" onClick={() => show('login')} className="text-sm font-medium text-primary hover:underline">{t('login.backToLogin')}</button>
+      </div>
+    );
+  }
+
+  const withPassword = view === 'login';
+  return (
+    <form noValidate className="w-full mt-6 space-y-4" onSubmit={view === 'reset' ? handleReset : view === 'resume' ? handleResume : handleLogin}>
+      <h2 ref={headingRef} tabIndex={-1} className="text-xl font-semibold text-center focus:outline-none">{t(withPassword ? 'login.title' : `login.${view}.title`)}</h2>
+      {!withPassword && <p className="text-sm text-center text-gray-600">{t(`login.${view}.intro`)}</p>}
+      {emailField}
+      {withPassword && (
+        <div>
+          <label htmlFor="login-password" className="block mb-1 text-sm font-medium text-gray-700">{t('form.password')}</label>
+          <input id="login-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} aria-describedby={error ? errorIdFor('login') : undefined} className={`${INPUT_CLASS} border-gray-300`} />
+        </div>
+      )}
+
+      <div role="alert">
+        <FieldError id={errorIdFor('login')} message={error} />
+      </div>
+
+      <div className="flex justify-center">
+        <button type="submit" disabled={busy} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg disabled:opacity-60">
+          {t(withPassword ? 'login.submit' : `login.${view}.submit`)}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-x-4 gap-y-2 text-sm">
+        {withPassword ? (
+          <>
+            <button type="button" onClick={() => show('reset')} className="font-medium text-primary hover:underline">{t('login.forgot')}</button>
+            <button type="button" onClick={() => show('resume')} className="font-medium text-primary hover:underline">{t('login.emailLink')}</button>
+          </>
+        ) : (
+          <button type="button" onClick={() => show('login')} className="font-medium text-primary hover:underline">{t('login.backToLogin')}</button>
+        )}
+        <button type="button" onClick={onCancel} className="font-medium text-gray-600 hover:underline">{t('login.signUpInstead')}</button>
+      </div>
+    </form>
+  );
+}
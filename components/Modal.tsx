@@ -0,0 +1,78 @@
+import React, { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+type ModalProps = {
+  open: boolean;
+  onClose: () => void;
+  // id of the element that names the dialog, usually its heading
+  labelledBy: string;
+  className?: string;
+  children: React.ReactNode;
+};
+
+// Dialog that keeps Tab inside itself while open, closes on Escape or a click on the backdrop, and
+// hands focus back to whatever had it before. It stays mounted while closed so it can fade out.
+export default function Modal({ open, onClose, labelledBy, className = '', children }: ModalProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!open || !dialog) return;
+    const opener = document.activeElement as HTMLElement | null;
+    const first = dialog.querySelector<HTMLElement>(FOCUSABLE);
+    (first || dialog).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const focusable = Array.prototype.slice.call(dialog.querySelectorAll<HTMLElement>(FOCUSABLE)) as HTMLElement[];
+      if (!focusable.length) {
+        e.preventDefault();
+        return;
+      }
+      const firstItem = focusable[0];
+      const lastItem = focusable[focusable.length - 1];
+      if (e.shiftKey && (document.activeElement === firstItem || !dialog.contains(document.activeElement))) {
+        e.preventDefault();
+        lastItem.focus();
+      } else if (!e.shiftKey && document.activeElement === lastItem) {
+        e.preventDefault();
+        firstItem.focus();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      if (opener && document.contains(opener)) opener.focus();
+    };
+  }, [open]);
+
+  return (
+    <div className={`fixed inset-0 z-50 flex items-center justify-center px-4 pointer-events-none transition-[visibility] duration-300 ${open ? 'visible' : 'invisible'}`}>
+      <div
+        onClick={onClose}
+        aria-hidden
+        className={`fixed inset-0 bg-black transition-opacity duration-300 ${open ? 'opacity-50 pointer-events-auto' : 'opacity-0 pointer-events-none'}`}
+      />
+
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`relative bg-white rounded-lg shadow-lg max-w-md w-full z-10 transform transition-all duration-300 focus:outline-none ${open ? 'opacity-100 translate-y-0 scale-100 pointer-events-auto' : 'opacity-0 translate-y-6 scale-95 pointer-events-none'} ${className}`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
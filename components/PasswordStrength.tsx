@@ -0,0 +1,44 @@
+import React from 'react';
+import { VALIDATION_PARAMS } from '@/lib/accountValidation';
+import { useI18n } from '@/lib/i18n';
+import { PASSWORD_RULES, checkPassword } from '@/lib/passwordPolicy';
+
+const BAR_COLORS = ['bg-red-500', 'bg-red-500', 'bg-yellow-400', 'bg-green-500', 'bg-green-600'];
+
+type PasswordStrengthProps = {
+  // for the password input's aria-describedby
+  id: string;
+  password: string;
+  // names and email the password shouldn't contain
+  personal: string[];
+};
+
+// Strength bar and the policy's rules, ticked off as the coach types.
+export default function PasswordStrength({ id, password, personal }: PasswordStrengthProps) {
+  const { t } = useI18n();
+  const { rules, strength } = checkPassword(password, personal);
+
+  return (
+    <div id={id} className="mt-2">
+      <div className="flex gap-1" aria-hidden="true">
+        {[1, 2, 3, 4].map((level) => (
+          <div key={level} className={`h-1.5 flex-1 rounded-full ${password && strength >= level ? BAR_COLORS[strength] : 'bg-gray-200'}`} />
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-600" aria-live="polite">
+        {password ? t('password.strength', { level: t(`password.strength.${strength}`) }) : ''}
+      </p>
+      <ul className="mt-1 space-y-0.5 text-xs">
+        {PASSWORD_RULES.map((rule) => {
+          const met = !!password && rules[rule];
+          return (
+            <li key={rule} className={met ? 'text-green-700' : 'text-gray-600'}>
+              <span aria-hidden="true">{met ? '✓' : '•'}</span> {t(`password.rule.${rule}`, VALIDATION_PARAMS)}
+              <span className="sr-only"> ({t(met ? 'password.rule.met' : 'password.rule.unmet')})</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import React, { useMemo } from 'react';
+import { useI18n } from '@/lib/i18n';
+import { compilePersona } from '@/lib/persona';
+import { TwinProfile } from '@/lib/twinProfile';
+
+// Collapsible view of what the twin will actually be told, for coaches who want to check the details.
+export default function PersonaPreview({ profile }: { profile: TwinProfile }) {
+  const { t } = useI18n();
+  const persona = useMemo(() => compilePersona(profile), [profile]);
+
+  return (
+    <details className="mt-4 rounded-md border border-gray-200 bg-gray-50 p-3 text-left">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">{t('persona.summary')}</summary>
+      <pre className="mt-3 max-h-80 overflow-auto whitespace-pre-wrap text-xs text-gray-800">{persona.systemPrompt}</pre>
+      <details className="mt-3">
+        <summary className="cursor-pointer text-xs text-gray-500">{t('persona.rules')}</summary>
+        <pre className="mt-2 max-h-60 overflow-auto text-xs text-gray-700">{JSON.stringify(persona.rules, null, 2)}</pre>
+      </details>
+    </details>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { SetStateAction } from 'react';
+import { useI18n } from '@/lib/i18n';
+import { generatePreview } from '@/lib/previewEngine';
+import { isStaticDeployment } from '@/lib/deployment';
+import { TwinProfile } from '@/lib/twinProfile';
+import PersonaPreview from '@/components/PersonaPreview';
+import TwinReplyPreview from '@/components/TwinReplyPreview';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+
+type Preview = TwinProfile['preview'];
+
+const computePreviewGradient = (d: number, w: number, c: number) => {
+  // Colors for directness, warmth, challenge
+  const c1 = 'rgb(214, 107, 250)';
+  const c2 = 'rgb(255, 210, 122)';
+  const c3 = 'rgb(105, 237, 199)';
+
+  // Normalize weights
+  const total = Math.max(0.0001, d + w + c);
+  let p1 = (d / total) * 100; // percent for first color
+  let p2 = (w / total) * 100; // percent for second color
+  let p3 = (c / total) * 100; // percent for third color
+
+  // Ensure minimum visible segment to avoid tiny slivers, then re-normalize
+  const minSeg = 8; // percent minimum per segment
+  const parts = [p1, p2, p3];
+  let remaining = 100;
+  const adjusted: number[] = [0,0,0];
+
+  // First pass: clamp small segments to minSeg
+  let flexibleTotal = 0;
+  for (let i = 0; i < 3; i++) {
+    if (parts[i] < minSeg) {
+      adjusted[i] = minSeg;
+      remaining -= minSeg;
+    } else {
+      flexibleTotal += parts[i];
+    }
+  }
+
+  // Distribute remaining proportionally among flexible parts
+  if (flexibleTotal <= 0) {
+    // evenly distribute if all were too small
+    adjusted[0] = adjusted[1] = adjusted[2] = 100 / 3;
+  } else {
+    for (let i = 0; i < 3; i++) {
+      if (adjusted[i] === 0) {
+        adjusted[i] = (parts[i] / flexibleTotal) * remaining;
+      }
+    }
+  }
+
+  // cumulative stops
+  const stop1 = Math.round(adjusted[0]);
+  const stop2 = Math.round(adjusted[0] + adjusted[1]);
+
+  // Build smoother gradient with a tiny overlap for blending
+  const overlap = 2; // % overlap between segments for softer transitions
+  const s1a = Math.max(0, stop1 - overlap);
+  const s1b = Math.min(100, stop1 + overlap);
+  const s2a = Math.max(0, stop2 - overlap);
+  const s2b = Math.min(100, stop2 + overlap);
+
+  return `linear-gradient(90deg, ${c1} 0%, ${c1} ${s1a}%, ${c2} ${s1b}%, ${c2} ${s2a}%, ${c3} ${s2b}%, ${c3} 100%)`;
+};
+
+type PreviewStepProps = {
+  stepIndex: number;
+  profile: TwinProfile;
+  onProfileChange: (update: (p: TwinProfile) => TwinProfile) => void;
+  subIndex: number;
+  onSubIndexChange: (action: SetStateAction<number>) => void;
+  onNext: () => void;
+  onProgressChange?: (p: number) => void;
+  // take focus on the first render, when the coach arrived from another step
+  autoFocus?: boolean;
+};
+
+// The closing Preview step: the twin's first message tuned with sliders, then the coach's verdict.
+// Unlike the questionnaire steps it is hand-built, since its sub-steps aren't questions.
+export default function PreviewStep({ stepIndex, profile, onProfileChange, subIndex, onSubIndexChange: setSubIndex, onNext, onProgressChange, autoFocus = false }: PreviewStepProps) {
+  const { t } = useI18n();
+  const { rating: previewRating, directness, warmth, challenge, thumb: feedbackThumb } = profile.preview;
+  const setPreview = <K extends keyof Preview>(key: K) => (value: Preview[K]) => {
+    onProfileChange((p) => ({ ...p, preview: { ...p.preview, [key]: value } }));
+  };
+
+  const setPreviewRating = setPreview('rating');
+  const [showAdvancedPreviewControls, setShowAdvancedPreviewControls] = useState(false);
+  const setDirectness = setPreview('directness');
+  const setWarmth = setPreview('warmth');
+  const setChallenge = setPreview('challenge');
+
+  // committed values applied on release
+  const [commDirectness, setCommDirectness] = useState<number>(directness);
+  const [commWarmth, setCommWarmth] = useState<number>(warmth);
+  const [commChallenge, setCommChallenge] = useState<number>(challenge);
+  const setFeedbackThumb = setPreview('thumb');
+  const setSelectedFeedbackChoice = setPreview('feedback');
+
+  // skip the intro when resuming a draft part-way through the step
+  const [showIntro, setShowIntro] = useState(subIndex === 0);
+  const headingRef = useHeadingFocus(showIntro ? 'intro' : subIndex, autoFocus);
+
+  // fade state for preview card
+  const [demoVisible, setDemoVisible] = useState(true);
+
+  // background crossfade states
+  const [bgGradient, setBgGradient] = useState<string>(() => computePreviewGradient(commDirectness, commWarmth, commChallenge));
+  const [nextBgGradient, setNextBgGradient] = useState<string>('');
+  const [bgFading, setBgFading] = useState(false);
+
+  // messages are generated from the committed slider values; `previewVariant` drives "Regenerate"
+  const [previewVariant, setPreviewVariant] = useState(0);
+  const previewMessage = useMemo(
+    () => generatePreview(profile, { directness: commDirectness, warmth: commWarmth, challenge: commChallenge }, previewVariant),
+    [profile, commDirectness, commWarmth, commChallenge, previewVariant]
+  );
+
+  const commitPreviewFromSliders = (which: 'directness' | 'warmth' | 'challenge') => {
+    const d = directness; const wv = warmth; const ch = challenge;
+
+    // fade demo text
+    setDemoVisible(false);
+
+    // background crossfade: set next gradient and fade
+    const newBg = computePreviewGradient(d, wv, ch);
+    setNextBgGradient(newBg);
+    setBgFading(true);
+
+    // swap to the messages for the new values while the text is hidden
+    setTimeout(() => {
+      setCommDirectness(d);
+      setCommWarmth(wv);
+      setCommChallenge(ch);
+      setDemoVisible(true);
+    }, 220);
+
+    // after a short delay, swap background and clear fading
+    setTimeout(() => {
+      setBgGradient(newBg);
+      setNextBgGradient('');
+      setBgFading(false);
+    }, 360);
+  };
+
+  const regeneratePreview = () => {
+    setDemoVisible(false);
+    setTimeout(() => {
+      setPreviewVariant((v) => v + 1);
+      setDemoVisible(true);
+    }, 220);
+  };
+
+  // nothing here is required: the closeness slider always holds a rating
+  useEffect(() => {
+    if (onProgressChange) onProgressChange(1);
+  }, [onProgressChange]);
+
+  if (showIntro) {
+    return (
+      <div className="w-full">
+        <div className="min-h-[180px] flex flex-col items-center justify-center text-center p-8">
+          <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-semibold focus:outline-none">{t('preview.intro.title')}</h2>
+          <p className="text-lg text-gray-700 mt-2">{t('preview.intro.subtitle')}</p>
+          <p className="text-sm text-gray-500 mt-2">{t('preview.intro.body')}</p>
+          <div className="mt-6">
+            <button type="button" onClick={() => setShowIntro(false)} className="px-6 py-3 bg-primary text-white rounded-md">{t('nav.startStep', { n: stepIndex + 1 })}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className=" min-h-[260px]">
+        {/* Single dynamic preview card */}
+        <div className={subIndex >= 1 ? "hidden" : "space-y-4"}>
+          <div className="rounded-2xl p-6 relative overflow-hidden shadow-2xl preview-card" style={{ minHeight: '160px' }}>
+            {/* background layers for smooth crossfade */}
+            <div className="absolute inset-0 bg-layer" style={{ background: bgGradient, transition: 'opacity 360ms ease', opacity: bgFading ? 0 : 1 }} />
+            {nextBgGradient ? <div className="absolute inset-0 bg-layer" style={{ background: nextBgGradient, transition: 'opacity 360ms ease', opacity: bgFading ? 1 : 0 }} /> : null}
+
+            <div style={{ position: 'relative', zIndex: 1 }}>
+              <div className="flex items-center justify-between mb-2">
+                <h2 ref={subIndex === 0 ? headingRef : undefined} tabIndex={-1} className="text-sm text-gray-700 focus:outline-none">{t('preview.card.label')}</h2>
+                <button type="button" onClick={regeneratePreview} className="px-3 py-1 text-xs rounded-md bg-white/80 border border-gray-300 text-gray-700">{t('preview.regenerate')}</button>
+              </div>
+              <div className={`demo-text ${demoVisible ? '' : 'fade-hidden'}`}>
+                <h3 className="text-lg font-semibold">{previewMessage.greeting}</h3>
+                <p className="mt-2 text-sm text-gray-800">{previewMessage.reflection}</p>
+              </div>
+              <div className={`demo-sample mt-3 ${demoVisible ? '' : 'fade-hidden'}`}>
+                <p className="text-sm text-gray-800">{previewMessage.followUp}</p>
+              </div>
+              {/* the static export has no API routes, so only the local sample is shown there */}
+              {!isStaticDeployment && <TwinReplyPreview profile={profile} />}
+            </div>
+          </div>
+
+          {/* Closeness slider */}
+          <div>
+            <label htmlFor="preview-rating" className="text-lg font-semibold text-gray-700">{t('preview.closeness')}</label>
+            <div className="flex items-center gap-3 mt-2">
+              <span className="text-sm text-gray-600">{t('preview.closeness.low')}</span>
+              <input id="preview-rating" type="range" min={1} max={10} value={previewRating} onChange={(e) => setPreviewRating(Number(e.target.value))} onMouseUp={() => setShowAdvancedPreviewControls(true)} onTouchEnd={() => setShowAdvancedPreviewControls(true)} className="flex-1 range-main" />
+              <span className="text-sm text-gray-600">{t('preview.closeness.high')}</span>
+            </div>
+            <div className="text-sm text-gray-600 mt-1">{t('preview.closeness.value', { value: previewRating })}</div>
+
+            {/* Advanced controls appear after release */}
+            {showAdvancedPreviewControls && (
+              <div className="mt-4 p-4 bg-gray-50 rounded-md">
+                <div className="space-y-3">
+                  <div>
+                    <label htmlFor="preview-directness" className="text-sm text-gray-700">{t('preview.directness')} <span className="text-xs text-gray-500">{t('preview.directness.range')}</span></label>
+                    <input id="preview-directness" type="range" min={1} max={10} value={directness} onChange={(e) => setDirectness(Number(e.target.value))} onMouseUp={() => commitPreviewFromSliders('directness')} onTouchEnd={() => commitPreviewFromSliders('directness')} className="w-full range-direct mt-2" />
+                  </div>
+                  <div>
+                    <label htmlFor="preview-warmth" className="text-sm text-gray-700">{t('preview.warmth')} <span className="text-xs text-gray-500">{t('preview.warmth.range')}</span></label>
+                    <input id="preview-warmth" type="range" min={1} max={10} value={warmth} onChange={(e) => setWarmth(Number(e.target.value))} onMouseUp={() => commitPreviewFromSliders('warmth')} onTouchEnd={() => commitPreviewFromSliders('warmth')} className="w-full range-warm mt-2" />
+                  </div>
+                  <div>
+                    <label htmlFor="preview-challenge" className="text-sm text-gray-700">{t('preview.challenge')} <span className="text-xs text-gray-500">{t('preview.challenge.range')}</span></label>
+                    <input id="preview-challenge" type="range" min={1} max={10} value={challenge} onChange={(e) => setChallenge(Number(e.target.value))} onMouseUp={() => commitPreviewFromSliders('challenge')} onTouchEnd={() => commitPreviewFromSliders('challenge')} className="w-full range-chal mt-2" />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <PersonaPreview profile={profile} />
+        </div>
+
+        { /* Removed preview saved step; show What do you think at subIndex === 1 and accepted at subIndex === 2 */ }
+
+        {subIndex === 1 && (
+          <div className="text-center space-y-4">
+            <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-semibold focus:outline-none">{t('preview.feedback.title')}</h2>
+            <div className="flex flex-col sm:flex-row items-stretch justify-center gap-3 mt-3 w-100">
+              <button type="button" onClick={() => { setSelectedFeedbackChoice('accept'); setSubIndex(2); }} className="flex-1 w-full px-4 py-3 bg-primary hover:bg-primary-dark text-white rounded-md">{t('preview.feedback.accept')}</button>
+              <button type="button" onClick={() => { setSelectedFeedbackChoice('tweak'); setSubIndex(0); setShowAdvancedPreviewControls(true); }} className="flex-1 w-full px-4 py-3 border bg-white hover:bg-gray-50 text-gray-700 rounded-md">{t('preview.feedback.tweak')}</button>
+              <button type="button" onClick={() => { setSelectedFeedbackChoice('sharpen'); alert(t('preview.feedback.sharpenSoon')); }} className="flex-1 w-full px-4 py-3 border bg-white hover:bg-gray-50 text-gray-700 rounded-md">{t('preview.feedback.sharpen')}</button>
+            </div>
+
+            <div className="flex items-center justify-center gap-4 mt-4">
+              <span className="text-sm text-gray-600">{t('preview.feedback.rate')}</span>
+              <button type="button" onClick={() => setFeedbackThumb(feedbackThumb === 'up' ? null : 'up')} aria-pressed={feedbackThumb === 'up'} aria-label={t('preview.feedback.thumbUp')} className={`px-3 py-2 rounded-md ${feedbackThumb === 'up' ? 'bg-primary text-white' : 'bg-white border border-gray-200'}`}>👍</button>
+              <button type="button" onClick={() => setFeedbackThumb(feedbackThumb === 'down' ? null : 'down')} aria-pressed={feedbackThumb === 'down'} aria-label={t('preview.feedback.thumbDown')} className={`px-3 py-2 rounded-md ${feedbackThumb === 'down' ? 'bg-primary text-white' : 'bg-white border border-gray-200'}`}>👎</button>
+            </div>
+          </div>
+        )}
+
+        {subIndex === 2 && (
+          <div className="text-center">
+            <div className="mb-4 text-6xl">🎉</div>
+            <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-semibold focus:outline-none">{t('preview.live.title')}</h2>
+            <p className="text-sm text-gray-500 mt-2">{t('preview.live.body')}</p>
+            <div className="mt-4">
+              <button type="button" onClick={() => { onNext(); }} className="px-4 py-2 rounded-md bg-secondary text-black">{t('nav.next')}</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Sub-step navigation (only on preview substep) */}
+      {subIndex === 0 && (
+        <div className="sub-step-nav flex justify-between mt-4">
+          <button type="button" disabled className="px-4 py-2 rounded-md bg-gray-100 text-gray-400">
+            {t('nav.previous')}
+          </button>
+
+          <div className="flex items-center gap-3">
+            <span aria-hidden className="text-sm text-gray-500">{t('nav.position', { current: 1, total: 2 })}</span>
+            <span role="status" className="sr-only">{t('a11y.partStatus', { current: 1, total: 2 })}</span>
+            <button type="button" onClick={() => setSubIndex(1)} className="px-4 py-2 rounded-md bg-secondary text-black">
+              {t('nav.next')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
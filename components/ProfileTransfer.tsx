@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { useI18n } from '@/lib/i18n';
+import { RejectedField, TwinProfile, exportTwinProfile, importTwinProfile } from '@/lib/twinProfile';
+
+type ProfileTransferProps = {
+  profile: TwinProfile;
+  onImport: (profile: TwinProfile) => void;
+};
+
+type ImportStatus =
+  | { kind: 'error'; message: string }
+  | { kind: 'done'; rejected: RejectedField[]; migratedFrom: number | null };
+
+// Download / upload of the twin profile as JSON so coaches can back it up or move it elsewhere.
+export default function ProfileTransfer({ profile, onImport }: ProfileTransferProps) {
+  const { t } = useI18n();
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [status, setStatus] = useState<ImportStatus | null>(null);
+
+  function handleExport() {
+    const blob = new Blob([exportTwinProfile(profile)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'coachnova-twin-profile.json';
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  async function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text().catch(() => null);
+    if (text === null) return setStatus({ kind: 'error', message: t('transfer.readFailed') });
+    const result = importTwinProfile(text);
+    if (!result.ok) return setStatus({ kind: 'error', message: result.error });
+    onImport(result.profile);
+    setStatus({ kind: 'done', rejected: result.rejected, migratedFrom: result.migratedFrom });
+  }
+
+  return (
+    <div className="w-full text-sm">
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={handleExport} className="px-3 py-1.5 rounded-md bg-white border border-gray-300 text-gray-700">{t('transfer.export')}</button>
+        <button type="button" onClick={() => fileRef.current?.click()} className="px-3 py-1.5 rounded-md bg-white border border-gray-300 text-gray-700">{t('transfer.import')}</button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {status?.kind === 'error' && (
+        <p role="alert" className="mt-2 text-red-600">{t('transfer.failed', { message: status.message })}</p>
+      )}
+      {status?.kind === 'done' && (
+        <div role="status" className="mt-2 text-gray-600">
+          <p>
+            {status.migratedFrom !== null ? t('transfer.importedMigrated', { version: status.migratedFrom }) : t('transfer.imported')}
+            {' '}
+            {status.rejected.length === 0 ? t('transfer.allAccepted') : t('transfer.rejected', { count: status.rejected.length })}
+          </p>
+          {status.rejected.length > 0 && (
+            <ul className="mt-1 list-disc pl-5 text-red-600">
+              {status.rejected.map((r) => (
+                <li key={r.path}><code>{r.path || '(root)'}</code> — {r.reason}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { SetStateAction } from 'react';
+import { useI18n } from '@/lib/i18n';
+import {
+  MatrixQuestion, MultiQuestion, Question, QuestionLayout, SingleQuestion, StepDef, TextQuestion,
+  questionError, readAnswer, selectOption, selectedOption, stepProgress, toggleOption, updateOther, visibleOptions,
+  visibleQuestions, visibleRows, writeAnswer,
+} from '@/lib/questionnaire';
+import { TwinProfile, choiceValue } from '@/lib/twinProfile';
+import { localizePhrase, twinLanguageFor } from '@/lib/twinLanguages';
+import { useFocusFirstInvalid } from '@/lib/useFocusFirstInvalid';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+import FieldError, { errorIdFor } from '@/components/FieldError';
+
+type ProfileUpdate = (update: (p: TwinProfile) => TwinProfile) => void;
+
+// what every input needs to render a question and its validation state
+type InputProps<Q extends Question> = {
+  q: Q;
+  profile: TwinProfile;
+  onProfileChange: ProfileUpdate;
+  invalid: boolean;
+  // id of the inline error, while it is shown
+  describedBy?: string;
+};
+
+const titleIdFor = (q: Question) => `${q.id}-title`;
+
+const LAYOUT_CLASSES: Record<QuestionLayout, string> = {
+  inline: 'flex flex-wrap justify-center gap-4',
+  list: 'grid grid-cols-1 sm:grid-cols-2 gap-3',
+  grid: 'grid grid-cols-2 sm:grid-cols-3 gap-3',
+};
+
+// illustrations for the closing panel of a step, referenced by `done.icon`
+const DONE_ICONS: Record<string, React.ReactNode> = {
+  chat: (
+    <>
+      <rect x="3" y="3" width="18" height="14" rx="2" stroke="#6F3E87" strokeWidth="1.5" fill="#F8F5FB" />
+      <path d="M7 8h10M7 11h6" stroke="#6F3E87" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+      <circle cx="18" cy="18" r="3" stroke="#6F3E87" strokeWidth="1.2" fill="#fff" />
+      <path d="M16 18c0-.667.5-1 2-1" stroke="#6F3E87" strokeWidth="1.2" strokeLinecap="round" />
+    </>
+  ),
+  smile: (
+    <>
+      <circle cx="12" cy="12" r="10" fill="#F8F5FB" stroke="#6F3E87" strokeWidth="1.5" />
+      <path d="M15 10c0 1.666-1 3-3 3s-3-1.334-3-3" stroke="#6F3E87" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+      <path d="M9 14c0 .667.5 1 1 1h4c.5 0 1-.333 1-1" stroke="#6F3E87" strokeWidth="1.2" strokeLinecap="round" />
+    </>
+  ),
+  content: (
+    <>
+      <circle cx="12" cy="12" r="10" fill="#F8F5FB" stroke="#6F3E87" strokeWidth="1.5" />
+      <path d="M15 12c0 1.666-1 3-3 3s-3-1.334-3-3" stroke="#6F3E87" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+    </>
+  ),
+  grin: (
+    <>
+      <circle cx="12" cy="12" r="10" fill="#F8F5FB" stroke="#6F3E87" strokeWidth="1.5" />
+      <path d="M8 13c1 2 6 2 7 0" stroke="#6F3E87" strokeWidth="1.3" strokeLinecap="round" strokeLinejoin="round" />
+      <circle cx="9.2" cy="10.6" r=".8" fill="#6F3E87" />
+      <circle cx="14.8" cy="10.6" r=".8" fill="#6F3E87" />
+    </>
+  ),
+  check: (
+    <>
+      <rect x="3" y="3" width="18" height="18" rx="3" fill="#F0F9F6" stroke="#0F766E" strokeWidth="1.2" />
+      <path d="M7 12l2.5 2.5L17 7" stroke="#0F766E" strokeWidth="1.4" strokeLinecap="round" strokeLinejoin="round" />
+    </>
+  ),
+};
+
+type ButtonChoiceProps = {
+  label: string;
+  selected: boolean;
+  onClick: () => void;
+  emoji?: string;
+  describedBy?: string;
+  role: 'radio' | 'checkbox';
+  // roving tabindex: only one option of a group is in the tab order
+  tabbable: boolean;
+  onKeyDown: (e: React.KeyboardEvent) => void;
+  onFocus: () => void;
+  buttonRef: (el: HTMLButtonElement | null) => void;
+};
+
+function ButtonChoice({ label, selected, onClick, emoji, describedBy, role, tabbable, onKeyDown, onFocus, buttonRef }: ButtonChoiceProps) {
+  return (
+    <button ref={buttonRef} type="button" role={role} aria-checked={selected} tabIndex={tabbable ? 0 : -1} onClick={onClick} onKeyDown={onKeyDown} onFocus={onFocus} aria-describedby={describedBy} className={`px-4 py-2 rounded-md border flex items-center gap-2 ${selected ? 'bg-secondary text-black border-transparent' : 'bg-white text-gray-700 border-gray-300'}`}>
+      {emoji ? <span aria-hidden className="flag-emoji">{emoji}</span> : null}
+      <span>{label}</span>
+    </button>
+  );
+}
+
+function OtherToggle({ q, profile, onProfileChange }: { q: SingleQuestion | MultiQuestion; profile: TwinProfile; onProfileChange: ProfileUpdate }) {
+  const { t } = useI18n();
+  const { otherOpen, otherText } = readAnswer(profile, q.field);
+  return (
+    <div>
+      <label className="inline-flex items-center cursor-pointer">
+        <input type="checkbox" className="sr-only peer" checked={otherOpen} onChange={(e) => { const open = e.target.checked; onProfileChange((p) => updateOther(q, p, { otherOpen: open })); }} aria-label={t('common.other')} />
+        <div className="relative w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+        <span className="ms-3 ml-3 text-sm font-medium text-gray-900">{t('common.other')}</span>
+      </label>
+      {otherOpen && <input type="text" aria-label={t(q.other?.placeholder || 'common.describe')} value={otherText} onChange={(e) => { const text = e.target.value; onProfileChange((p) => updateOther(q, p, { otherText: text })); }} placeholder={t(q.other?.placeholder || 'common.describe')} className="w-full mt-2 p-2 border border-gray-300 rounded-md" />}
+    </div>
+  );
+}
+
+// Extra input for the answer as the twin says it, when the twin speaks something other than English.
+function TranslationField({ q, profile, onProfileChange }: { q: SingleQuestion; profile: TwinProfile; onProfileChange: ProfileUpdate }) {
+  const { t, opt } = useI18n();
+  const language = twinLanguageFor(profile.language.twin);
+  if (!q.translation || language.code === 'en') return null;
+  const { field, label, hint } = q.translation;
+  const answer = readAnswer(profile, q.field);
+  const phrase = answer && typeof answer === 'object' ? choiceValue(answer) : answer;
+  const inputId = `${q.id}-twin`;
+  return (
+    <div className="mt-4">
+      <label htmlFor={inputId} className="block text-sm font-medium text-gray-700">{t(label, { language: opt(language.name) })}</label>
+      <input id={inputId} type="text" lang={language.code} value={readAnswer(profile, field)} onChange={(e) => { const value = e.target.value; onProfileChange((p) => writeAnswer(p, field, value)); }} placeholder={phrase ? localizePhrase(language, phrase) : ''} className="w-full mt-1 p-2 border border-gray-300 rounded-md" />
+      {hint && <p className="text-xs text-gray-500 mt-1">{t(hint)}</p>}
+    </div>
+  );
+}
+
+// Single choices are a radio group and multiple choices a group of checkboxes. Either way the group
+// is one tab stop and the arrow keys move between options; in a radio group they also select.
+function OptionsInput({ q, profile, onProfileChange, invalid, describedBy }: InputProps<SingleQuestion | MultiQuestion>) {
+  const { opt } = useI18n();
+  const layout = q.layout || 'grid';
+  const multi = q.kind === 'multi';
+  const selected = multi ? (readAnswer(profile, q.field).selected as string[]) : [selectedOption(q, profile)];
+  const options = visibleOptions(q, profile);
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+  const [focused, setFocused] = useState<number | null>(null);
+  const firstSelected = options.findIndex((o) => selected.includes(o));
+  const tabStop = focused !== null && focused < options.length ? focused : Math.max(0, firstSelected);
+
+  const choose = (o: string) => onProfileChange((p) => (q.kind === 'multi' ? toggleOption(q, p, o) : selectOption(q, p, o)));
+
+  const onKeyDown = (e: React.KeyboardEvent, i: number) => {
+    const last = options.length - 1;
+    const targets: Record<string, number> = {
+      ArrowRight: i === last ? 0 : i + 1,
+      ArrowDown: i === last ? 0 : i + 1,
+      ArrowLeft: i === 0 ? last : i - 1,
+      ArrowUp: i === 0 ? last : i - 1,
+      Home: 0,
+      End: last,
+    };
+    const target = targets[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    const button = buttons.current[target];
+    if (button) button.focus();
+    if (!multi) choose(options[target]);
+  };
+
+  return (
+    <>
+      <div
+        role={multi ? 'group' : 'radiogroup'}
+        aria-labelledby={titleIdFor(q)}
+        aria-required={!multi && q.required !== false ? true : undefined}
+        data-invalid={invalid || undefined}
+        aria-describedby={describedBy}
+        className={`mt-4 ${LAYOUT_CLASSES[layout]}`}
+      >
+        {options.map((o, i) => (
+          <ButtonChoice
+            key={o}
+            label={opt(o)}
+            emoji={(q.optionEmoji && q.optionEmoji[o]) || q.emoji}
+            selected={selected.includes(o)}
+            onClick={() => choose(o)}
+            describedBy={describedBy}
+            role={multi ? 'checkbox' : 'radio'}
+            tabbable={i === tabStop}
+            onKeyDown={(e) => onKeyDown(e, i)}
+            onFocus={() => setFocused(i)}
+            buttonRef={(el) => { buttons.current[i] = el; }}
+          />
+        ))}
+      </div>
+      {q.other && (
+        <div className="mt-3">
+          <OtherToggle q={q} profile={profile} onProfileChange={onProfileChange} />
+        </div>
+      )}
+      {q.kind === 'single' && <TranslationField q={q} profile={profile} onProfileChange={onProfileChange} />}
+    </>
+  );
+}
+
+function TextInput({ q, profile, onProfileChange, invalid, describedBy }: InputProps<TextQuestion>) {
+  const { t } = useI18n();
+  const value: string = readAnswer(profile, q.field);
+  const onChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const text = e.target.value;
+    onProfileChange((p) => writeAnswer(p, q.field, text));
+  };
+  const props = {
+    value,
+    onChange,
+    placeholder: q.placeholder ? t(q.placeholder) : undefined,
+    'aria-labelledby': titleIdFor(q),
+    'aria-invalid': invalid || undefined,
+    'aria-describedby': describedBy,
+  };
+  const border = invalid ? 'border-red-500' : 'border-gray-300';
+  if (q.kind === 'textarea') {
+    return <textarea {...props} className={`w-full p-3 border ${border} rounded-md min-h-[120px]`} />;
+  }
+  return (
+    <div className="mt-4">
+      <input type="text" {...props} className={`w-full p-3 border ${border} rounded-md`} />
+    </div>
+  );
+}
+
+// Unanswered rows are the invalid ones; focus goes to the first of them.
+function MatrixInput({ q, profile, onProfileChange, invalid, describedBy }: InputProps<MatrixQuestion>) {
+  const { t, opt } = useI18n();
+  const map: Record<string, string | null> = readAnswer(profile, q.field) || {};
+  // every radio is named by its row and column header
+  const columnId = (value: string) => `${q.id}-col-${value}`;
+  return (
+    <div className="mt-4 overflow-auto">
+      <table aria-labelledby={titleIdFor(q)} className="w-full table-auto border-collapse border border-gray-200">
+        <thead>
+          <tr>
+            <td className="p-2"></td>
+            {q.columns.map((c) => <th key={c.value} id={columnId(c.value)} scope="col" className="p-2 text-center">{t(c.label)}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows(q, profile).map((r, i) => (
+            <tr key={r} className={`border-t border-gray-200 ${map[r] ? 'bg-[#FAF3FF]' : ''}`}>
+              <th id={`${q.id}-row-${i}`} scope="row" className="p-2 text-left font-normal">{opt(r)}</th>
+              {q.columns.map((c) => (
+                <td key={c.value} className="p-2 text-center">
+                  <input
+                    type="radio"
+                    name={`${q.id}-${r}`}
+                    checked={map[r] === c.value}
+                    onChange={() => onProfileChange((p) => writeAnswer(p, q.field, { ...readAnswer(p, q.field), [r]: c.value }))}
+                    aria-labelledby={`${q.id}-row-${i} ${columnId(c.value)}`}
+                    aria-invalid={(invalid && !map[r]) || undefined}
+                    aria-describedby={describedBy}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+type QuestionFieldProps = {
+  q: Question;
+  profile: TwinProfile;
+  onProfileChange: ProfileUpdate;
+  error: string | null;
+  headingRef: React.Ref<HTMLHeadingElement>;
+};
+
+function QuestionField({ q, profile, onProfileChange, error, headingRef }: QuestionFieldProps) {
+  const { t } = useI18n();
+  const centered = (q.kind === 'single' || q.kind === 'multi') && q.layout === 'inline';
+  const errorId = errorIdFor(q.id);
+  const input = { profile, onProfileChange, invalid: !!error, describedBy: error ? errorId : undefined };
+  return (
+    <div className={`space-y-4 ${centered ? 'text-center' : ''}`}>
+      <h2 id={titleIdFor(q)} ref={headingRef} tabIndex={-1} className="text-lg font-medium focus:outline-none">{t(q.title)}</h2>
+      {q.hint && <p className="text-sm text-gray-500">{t(q.hint)}</p>}
+      {(q.kind === 'single' || q.kind === 'multi') && <OptionsInput q={q} {...input} />}
+      {(q.kind === 'text' || q.kind === 'textarea') && <TextInput q={q} {...input} />}
+      {q.kind === 'matrix' && <MatrixInput q={q} {...input} />}
+      <FieldError id={errorId} message={error} />
+    </div>
+  );
+}
+
+type QuestionnaireStepProps = {
+  step: StepDef;
+  stepIndex: number;
+  profile: TwinProfile;
+  onProfileChange: ProfileUpdate;
+  subIndex: number;
+  onSubIndexChange: (action: SetStateAction<number>) => void;
+  onNext: () => void;
+  onProgressChange?: (p: number) => void;
+  // take focus on the first render, when the coach arrived from another step
+  autoFocus?: boolean;
+};
+
+// One step of a declarative questionnaire: intro, one sub-step per question, then a closing panel.
+export default function QuestionnaireStep({ step, stepIndex, profile, onProfileChange, subIndex, onSubIndexChange: setSubIndex, onNext, onProgressChange, autoFocus = false }: QuestionnaireStepProps) {
+  const { t } = useI18n();
+  // skip the intro when resuming a draft part-way through a step
+  const [showIntro, setShowIntro] = useState(subIndex === 0);
+
+  // counters and sub-steps only cover the questions earlier answers leave visible
+  const questions = visibleQuestions(step, profile);
+  const doneIndex = questions.length;
+  const current = Math.min(subIndex, doneIndex);
+  const question = questions[current] as Question | undefined;
+  const error = question ? questionError(question, current, profile) : null;
+  // a question's error shows once "Next" was pressed on it, and clears as soon as it is answered
+  const [attempted, setAttempted] = useState<string | null>(null);
+  const shownError = error && question && attempted === question.id ? t(error.key, error.params) : null;
+  const { ref: questionRef, focusFirstInvalid } = useFocusFirstInvalid<HTMLDivElement>();
+  const headingRef = useHeadingFocus(showIntro ? 'intro' : current, autoFocus);
+
+  useEffect(() => {
+    if (onProgressChange) onProgressChange(stepProgress(step, profile));
+  }, [onProgressChange, step, profile]);
+
+  const goNext = () => {
+    if (current < doneIndex) {
+      if (error && question) {
+        setAttempted(question.id);
+        focusFirstInvalid();
+        return;
+      }
+      setSubIndex(current + 1);
+      return;
+    }
+    onNext();
+  };
+
+  if (showIntro) {
+    return (
+      <div className="w-full">
+        <div className="min-h-[180px] flex flex-col items-center justify-center text-center p-8">
+          <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-semibold focus:outline-none">{t(step.intro.title)}</h2>
+          {step.intro.subtitle && <p className="text-lg text-gray-700 mt-2">{t(step.intro.subtitle)}</p>}
+          {step.intro.body && <p className="text-sm text-gray-500 mt-2">{t(step.intro.body)}</p>}
+          <div className="mt-6">
+            <button type="button" onClick={() => setShowIntro(false)} className="px-6 py-3 bg-primary text-white rounded-md">{t('nav.startStep', { n: stepIndex + 1 })}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div ref={questionRef} className=" min-h-[260px]">
+        {question ? (
+          <QuestionField key={question.id} q={question} profile={profile} onProfileChange={onProfileChange} error={shownError} headingRef={headingRef} />
+        ) : (
+          <div className="text-center">
+            <div className="flex items-center justify-center mb-4">
+              <svg width="96" height="96" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden>
+                {DONE_ICONS[step.done.icon || 'check'] || DONE_ICONS.check}
+              </svg>
+            </div>
+            <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-semibold mt-2 focus:outline-none">{t(step.done.title)}</h2>
+            {step.done.body && <p className="text-sm text-gray-500 mt-2">{t(step.done.body)}</p>}
+            <div className="mt-6">
+              <button type="button" onClick={() => { setShowIntro(true); setSubIndex(0); }} className="px-4 py-2 rounded-md border bg-white text-gray-700 border-gray-300 mr-3">{t('nav.revisit')}</button>
+              <button type="button" onClick={goNext} className="px-4 py-2 rounded-md bg-primary text-white">{t('nav.proceedToStep', { n: stepIndex + 2 })}</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Sub-step navigation */}
+      <div className="sub-step-nav flex justify-between mt-4">
+        <button type="button" onClick={() => setSubIndex(Math.max(0, current - 1))} disabled={current === 0} className={`px-4 py-2 rounded-md ${current === 0 ? 'bg-gray-100 text-gray-400' : 'bg-white border border-gray-300 text-gray-700'}`}>
+          {t('nav.previous')}
+        </button>
+
+        <div className="flex items-center gap-3">
+          <span aria-hidden className="text-sm text-gray-500">{t('nav.position', { current: current + 1, total: doneIndex + 1 })}</span>
+          <span role="status" className="sr-only">{t('a11y.partStatus', { current: current + 1, total: doneIndex + 1 })}</span>
+          <button type="button" onClick={goNext} aria-disabled={!!error} className={`px-4 py-2 rounded-md ${error ? 'bg-gray-100 text-gray-400' : 'bg-primary text-white'}`}>
+            {current === doneIndex ? t('nav.continue') : (current === doneIndex - 1 ? t('nav.review') : t('nav.next'))}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GuardrailResult, GuardrailRule, GuardrailViolation, checkMessage, finishedSentences, guardrailConfig } from '@/lib/guardrails';
+import { useI18n } from '@/lib/i18n';
+import { buildPersonaRules } from '@/lib/persona';
+import { twinLanguageFor } from '@/lib/twinLanguages';
+import { streamTwinPreview } from '@/lib/twinPreview';
+import { TwinProfile } from '@/lib/twinProfile';
+
+type Status = 'idle' | 'streaming' | 'done' | 'error';
+
+const RESULT_LABELS: Record<Exclude<GuardrailResult['action'], 'allow'>, string> = {
+  block: 'reply.block',
+  rewrite: 'reply.rewrite',
+  flag: 'reply.flag',
+};
+
+const REASON_LABELS: Record<GuardrailRule, string> = {
+  'banned-phrase': 'reply.reason.bannedPhrase',
+  'direct-advice': 'reply.reason.directAdvice',
+  therapy: 'reply.reason.therapy',
+  impersonation: 'reply.reason.impersonation',
+};
+
+const reasonParams = (v: GuardrailViolation) => (v.rule === 'banned-phrase' ? { phrase: v.match } : undefined);
+
+function GuardrailNotice({ result, original }: { result: GuardrailResult; original: string }) {
+  const { t } = useI18n();
+  if (result.action === 'allow') return null;
+  return (
+    <div role="status" className={`mt-2 rounded-md border p-2 text-xs ${result.action === 'block' ? 'border-red-300 bg-red-50 text-red-700' : 'border-amber-300 bg-amber-50 text-amber-800'}`}>
+      <p className="font-medium">{t(RESULT_LABELS[result.action])}</p>
+      <ul className="mt-1 list-disc pl-4">
+        {result.violations.map((v, i) => (
+          <li key={i}>{t(REASON_LABELS[v.rule], reasonParams(v))} (“{v.match}”)</li>
+        ))}
+      </ul>
+      {result.action !== 'flag' && (
+        <details className="mt-1">
+          <summary className="cursor-pointer">{t('reply.original')}</summary>
+          <p className="mt-1 whitespace-pre-wrap text-gray-700">{original}</p>
+        </details>
+      )}
+    </div>
+  );
+}
+
+// Sends a sample client message to the configured model and streams the twin's answer into the preview card.
+// Only finished sentences show, and only once they pass the coach's guardrails, so an offending
+// sentence is never on screen. The sentences before it are: if a later one blocks the whole reply,
+// what was already shown disappears again and the notice explains why.
+export default function TwinReplyPreview({ profile }: { profile: TwinProfile }) {
+  const { t } = useI18n();
+  const [reply, setReply] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const guardrails = useMemo(() => guardrailConfig(buildPersonaRules(profile)), [profile]);
+  const finished = status === 'done' ? reply : status === 'streaming' ? finishedSentences(reply) : '';
+  const checked = useMemo(() => (finished ? checkMessage(finished, guardrails) : null), [finished, guardrails]);
+  const shown = checked ? checked.text : '';
+
+  async function handleAsk() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReply('');
+    setError(null);
+    setStatus('streaming');
+    try {
+      await streamTwinPreview(profile, setReply, { signal: controller.signal });
+      setStatus('done');
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      setError(e instanceof Error ? e.message : t('reply.failed'));
+      setStatus('error');
+    }
+  }
+
+  return (
+    <div className="mt-4 rounded-md bg-white/70 p-3 text-left">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-600">{t('reply.client', { message: twinLanguageFor(profile.language.twin).sampleClientMessage })}</p>
+        <button type="button" onClick={handleAsk} disabled={status === 'streaming'} className="shrink-0 px-3 py-1 text-xs rounded-md bg-primary text-white disabled:opacity-60">
+          {status === 'streaming' ? t('reply.answering') : status === 'idle' ? t('reply.ask') : t('reply.askAgain')}
+        </button>
+      </div>
+      {shown && <p aria-live="polite" className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">{shown}</p>}
+      {status === 'done' && checked && <GuardrailNotice result={checked} original={reply} />}
+      {error && <p role="alert" className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
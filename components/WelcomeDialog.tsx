@@ -0,0 +1,28 @@
+import React from 'react';
+import Modal from '@/components/Modal';
+import { useI18n } from '@/lib/i18n';
+
+type WelcomeDialogProps = {
+  open: boolean;
+  onClose: () => void;
+  onStart: () => void;
+  firstName: string;
+  // set when a new account still has to confirm this address
+  verifyEmail?: string;
+};
+
+// Greets the coach once their account exists and starts the questionnaire.
+export default function WelcomeDialog({ open, onClose, onStart, firstName, verifyEmail }: WelcomeDialogProps) {
+  const { t } = useI18n();
+  return (
+    <Modal open={open} onClose={onClose} labelledBy="welcome-title" className="p-6 text-center">
+      <img src={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/icecream.png`} alt={t('welcome.imageAlt')} className="mx-auto mb-4 max-h-40 object-contain" />
+      <h2 id="welcome-title" className="text-2xl font-semibold mb-2">{t('welcome.title', { name: firstName })}</h2>
+      <p className={`text-sm text-gray-500 ${verifyEmail ? 'mb-2' : 'mb-6'}`}>{t('welcome.subtitle')}</p>
+      {verifyEmail && <p className="text-sm text-gray-500 mb-6">{t('welcome.verifyEmail', { email: verifyEmail })}</p>}
+      <div className="flex justify-center">
+        <button type="button" onClick={onStart} className="inline-flex items-center px-6 py-3 text-sm font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg">{t('welcome.start')}</button>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,109 @@
+// @vitest-environment jsdom
+import React, { useState } from 'react';
+import axe from 'axe-core';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import CountryCombobox from '@/components/CountryCombobox';
+import PreviewStep from '@/components/PreviewStep';
+import QuestionnaireStep from '@/components/QuestionnaireStep';
+import WelcomeDialog from '@/components/WelcomeDialog';
+import { I18nProvider, Locale } from '@/lib/i18n';
+import { ONBOARDING_QUESTIONNAIRE } from '@/lib/onboardingQuestionnaire';
+import { StepDef, visibleQuestions } from '@/lib/questionnaire';
+import { TwinProfile, createEmptyProfile } from '@/lib/twinProfile';
+
+// Runs axe over what a component rendered. jsdom doesn't lay pages out, so color contrast can't be
+// measured here, and a lone component has no page landmarks to sit in.
+async function violations(container: HTMLElement) {
+  const results = await axe.run(container, { rules: { 'color-contrast': { enabled: false }, region: { enabled: false } } });
+  return results.violations.map((v) => `${v.id}: ${v.nodes.map((n) => n.target.join(' ')).join(', ')}`);
+}
+
+const LOCALES: Locale[] = ['en', 'nl'];
+
+const noop = () => {};
+
+function Step({ step, stepIndex, initialSubIndex }: { step: StepDef; stepIndex: number; initialSubIndex: number }) {
+  const [profile, setProfile] = useState<TwinProfile>(createEmptyProfile);
+  const [subIndex, setSubIndex] = useState(initialSubIndex);
+  return <QuestionnaireStep step={step} stepIndex={stepIndex} profile={profile} onProfileChange={setProfile} subIndex={subIndex} onSubIndexChange={setSubIndex} onNext={noop} />;
+}
+
+beforeAll(() => {
+  // jsdom has no layout to scroll; the country list scrolls its active option into view
+  Element.prototype.scrollIntoView = noop;
+});
+
+afterEach(cleanup);
+
+describe.each(LOCALES)('accessibility (%s)', (locale) => {
+  const wrap = (ui: React.ReactElement) => render(<I18nProvider locale={locale}>{ui}</I18nProvider>);
+
+  ONBOARDING_QUESTIONNAIRE.steps.forEach((step, stepIndex) => {
+    const count = visibleQuestions(step, createEmptyProfile()).length;
+
+    it(`has no violations in every part of the ${step.id} step`, async () => {
+      const intro = wrap(<Step step={step} stepIndex={stepIndex} initialSubIndex={0} />);
+      expect(await violations(intro.container)).toEqual([]);
+      intro.unmount();
+
+      // one part per question, then the closing panel
+      for (let part = 1; part <= count; part++) {
+        const { container, unmount } = wrap(<Step step={step} stepIndex={stepIndex} initialSubIndex={part} />);
+        expect(await violations(container)).toEqual([]);
+        unmount();
+      }
+    });
+
+    it(`has no violations when the first ${step.id} question shows its error`, async () => {
+      const { container } = wrap(<Step step={step} stepIndex={stepIndex} initialSubIndex={0} />);
+      fireEvent.click(container.querySelector('button')!);
+      const next = screen.getAllByRole('button').pop()!;
+      fireEvent.click(next);
+      expect(await violations(container)).toEqual([]);
+    });
+  });
+
+  it('has no violations in every part of the preview step', async () => {
+    const stepIndex = ONBOARDING_QUESTIONNAIRE.steps.length;
+    for (let part = 0; part <= 2; part++) {
+      const { container, unmount } = wrap(<PreviewStep stepIndex={stepIndex} profile={createEmptyProfile()} onProfileChange={noop} subIndex={part} onSubIndexChange={noop} onNext={noop} />);
+      expect(await violations(container)).toEqual([]);
+      unmount();
+    }
+  });
+
+  it('has no violations in the welcome dialog', async () => {
+    wrap(<WelcomeDialog open onClose={noop} onStart={noop} firstName="Sam" verifyEmail="sam@example.com" />);
+    expect(await violations(document.body)).toEqual([]);
+  });
+
+  it('has no violations in the country picker, closed and open', async () => {
+    const { container } = wrap(
+      <>
+        <label htmlFor="country">Country</label>
+        <CountryCombobox id="country" value="NL" onChange={noop} placeholder="Pick a country" />
+      </>,
+    );
+    expect(await violations(container)).toEqual([]);
+
+    const input = screen.getByRole('combobox');
+    await act(async () => {
+      fireEvent.focus(input);
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+    });
+    expect(screen.getByRole('listbox')).toBeTruthy();
+    expect(await violations(container)).toEqual([]);
+  });
+
+  it('has no violations in the country picker when it is invalid', async () => {
+    const { container } = wrap(
+      <>
+        <label htmlFor="country">Country</label>
+        <CountryCombobox id="country" value="" onChange={noop} placeholder="Pick a country" invalid describedBy="country-error" />
+        <p id="country-error">Pick a country</p>
+      </>,
+    );
+    expect(await violations(container)).toEqual([]);
+  });
+});
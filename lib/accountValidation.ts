@@ -0,0 +1,109 @@
+import { findCountryCode } from '@/lib/countries';
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH, passwordError } from '@/lib/passwordPolicy';
+
+// Sign-up rules shared by OnboardingForm and /api/onboarding so both sides reject the same input.
+// Field errors are message keys from locales/*.json; render them with t(key, VALIDATION_PARAMS).
+
+export type AccountInput = {
+  firstName: string;
+  lastName: string;
+  email: string;
+  // ISO 3166-1 alpha-2, or empty
+  country: string;
+  linkedIn: string;
+  password?: string;
+};
+
+export type AccountField = keyof AccountInput;
+export type AccountFieldErrors = Partial<Record<AccountField, string>>;
+
+export const NAME_MAX_LENGTH = 80;
+
+// values for the placeholders in validation messages
+export const VALIDATION_PARAMS = { min: PASSWORD_MIN_LENGTH, max: NAME_MAX_LENGTH, passwordMax: PASSWORD_MAX_LENGTH };
+
+const EMAIL_MAX_LENGTH = 254;
+const EMAIL_LOCAL_MAX_LENGTH = 64;
+// dot-separated runs of the characters RFC 5322 allows unquoted
+const EMAIL_LOCAL = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const DOMAIN_LABEL = /^[A-Za-z0-9]([A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/;
+// a top-level domain is letters only, or an internationalized one in punycode
+const TOP_LEVEL_DOMAIN = /^([A-Za-z]{2,63}|xn--[A-Za-z0-9-]{1,59})$/;
+
+// Addresses a mail server will accept: no quoted local parts or IP literals, and a domain with a
+// real top-level domain ("name@localhost" and "name@example" are rejected).
+export function validateEmail(email: string) {
+  if (email.length > EMAIL_MAX_LENGTH) return false;
+  const at = email.lastIndexOf('@');
+  const local = email.slice(0, at);
+  const labels = email.slice(at + 1).split('.');
+  if (at < 1 || local.length > EMAIL_LOCAL_MAX_LENGTH || !EMAIL_LOCAL.test(local)) return false;
+  return labels.length >= 2 && labels.every((l) => DOMAIN_LABEL.test(l)) && TOP_LEVEL_DOMAIN.test(labels[labels.length - 1]);
+}
+
+const LINKEDIN_PATH = /^\/(in|company)\/([A-Za-z0-9_%-]{2,100})\/?$/;
+
+// A personal (/in/...) or company (/company/...) page on linkedin.com, with or without "https://"
+// and "www."; returns the canonical https://www.linkedin.com URL, or null for anything else.
+export function normalizeLinkedInUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+  } catch (e) {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  if (host !== 'linkedin.com' && !host.endsWith('.linkedin.com')) return null;
+  const match = LINKEDIN_PATH.exec(url.pathname);
+  return match ? `https://www.linkedin.com/${match[1]}/${match[2]}` : null;
+}
+
+const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+
+// Trims the raw input and returns it together with any per-field errors.
+export function validateAccount(raw: any): { value: AccountInput; errors: AccountFieldErrors } {
+  const value: AccountInput = {
+    firstName: str(raw?.firstName),
+    lastName: str(raw?.lastName),
+    email: str(raw?.email).toLowerCase(),
+    country: str(raw?.country),
+    linkedIn: str(raw?.linkedIn),
+    // passwords are never trimmed — spaces are legitimate characters
+    password: typeof raw?.password === 'string' && raw.password !== '' ? raw.password : undefined,
+  };
+  const errors: AccountFieldErrors = {};
+
+  if (!value.firstName) errors.firstName = 'validation.firstName.required';
+  else if (value.firstName.length > NAME_MAX_LENGTH) errors.firstName = 'validation.firstName.tooLong';
+
+  if (!value.lastName) errors.lastName = 'validation.lastName.required';
+  else if (value.lastName.length > NAME_MAX_LENGTH) errors.lastName = 'validation.lastName.tooLong';
+
+  if (!value.email) errors.email = 'validation.email.required';
+  else if (!validateEmail(value.email)) errors.email = 'validation.email.invalid';
+
+  // stored as an ISO 3166-1 code; a country name is accepted and turned into its code
+  if (value.country) {
+    const code = findCountryCode(value.country);
+    if (code) value.country = code;
+    else errors.country = 'validation.country.invalid';
+  }
+
+  if (value.linkedIn) {
+    const profileUrl = normalizeLinkedInUrl(value.linkedIn);
+    if (profileUrl) value.linkedIn = profileUrl;
+    else errors.linkedIn = 'validation.linkedIn.invalid';
+  }
+
+  if (value.password !== undefined) {
+    const problem = passwordError(value.password, [value.firstName, value.lastName, value.email]);
+    if (problem) errors.password = problem;
+  }
+
+  return { value, errors };
+}
+
+export function hasErrors(errors: AccountFieldErrors) {
+  return Object.keys(errors).length > 0;
+}
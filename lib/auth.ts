@@ -0,0 +1,43 @@
+import type { PublicAccount } from '@/lib/server/accounts';
+
+// Sign-in with LinkedIn and Google, shared by OnboardingForm and the /api/auth routes. The flow
+// itself runs on the server (lib/server/oidc.ts); the browser only follows the start link and asks
+// /api/auth/session who it is afterwards.
+
+export const AUTH_PROVIDERS = ['linkedin', 'google'] as const;
+export type AuthProvider = typeof AUTH_PROVIDERS[number];
+
+export const AUTH_PROVIDER_NAMES: Record<AuthProvider, string> = { linkedin: 'LinkedIn', google: 'Google' };
+
+export function isAuthProvider(value: unknown): value is AuthProvider {
+  return typeof value === 'string' && (AUTH_PROVIDERS as readonly string[]).indexOf(value) >= 0;
+}
+
+// What a provider told us about the coach, used to prefill the account form. Empty when unknown.
+export type SignInProfile = {
+  provider: AuthProvider;
+  firstName: string;
+  lastName: string;
+  email: string;
+  linkedIn: string;
+};
+
+export type SessionInfo = {
+  // the account the session belongs to; null until the coach signs up or a sign-in is linked
+  account: PublicAccount | null;
+  identity: SignInProfile | null;
+};
+
+export type SessionResponse = {
+  // the providers this server can sign in with
+  providers: AuthProvider[];
+  session: SessionInfo | null;
+};
+
+// The callback sends the browser back to the form with ?signin=failed when a sign-in didn't work.
+export const SIGN_IN_RESULT_PARAM = 'signin';
+export const SIGN_IN_FAILED = 'failed';
+
+export function signInUrl(provider: AuthProvider) {
+  return `/api/auth/${provider}/start`;
+}
@@ -0,0 +1,319 @@
+import type { Locale } from '@/lib/i18n';
+
+// ISO 3166-1: every officially assigned alpha-2 code, with its English and Dutch name (from the
+// Unicode CLDR). Accounts store the code; names are only for display.
+
+export type CountryNames = Record<Locale, string>;
+
+export const COUNTRIES: Record<string, CountryNames> = {
+  AD: { en: "Andorra", nl: "Andorra" },
+  AE: { en: "United Arab Emirates", nl: "Verenigde Arabische Emiraten" },
+  AF: { en: "Afghanistan", nl: "Afghanistan" },
+  AG: { en: "Antigua & Barbuda", nl: "Antigua en Barbuda" },
+  AI: { en: "Anguilla", nl: "Anguilla" },
+  AL: { en: "Albania", nl: "Albanië" },
+  AM: { en: "Armenia", nl: "Armenië" },
+  AO: { en: "Angola", nl: "Angola" },
+  AQ: { en: "Antarctica", nl: "Antarctica" },
+  AR: { en: "Argentina", nl: "Argentinië" },
+  AS: { en: "American Samoa", nl: "Amerikaans-Samoa" },
+  AT: { en: "Austria", nl: "Oostenrijk" },
+  AU: { en: "Australia", nl: "Australië" },
+  AW: { en: "Aruba", nl: "Aruba" },
+  AX: { en: "Åland Islands", nl: "Åland" },
+  AZ: { en: "Azerbaijan", nl: "Azerbeidzjan" },
+  BA: { en: "Bosnia & Herzegovina", nl: "Bosnië en Herzegovina" },
+  BB: { en: "Barbados", nl: "Barbados" },
+  BD: { en: "Bangladesh", nl: "Bangladesh" },
+  BE: { en: "Belgium", nl: "België" },
+  BF: { en: "Burkina Faso", nl: "Burkina Faso" },
+  BG: { en: "Bulgaria", nl: "Bulgarije" },
+  BH: { en: "Bahrain", nl: "Bahrein" },
+  BI: { en: "Burundi", nl: "Burundi" },
+  BJ: { en: "Benin", nl: "Benin" },
+  BL: { en: "St. Barthélemy", nl: "Saint-Barthélemy" },
+  BM: { en: "Bermuda", nl: "Bermuda" },
+  BN: { en: "Brunei", nl: "Brunei" },
+  BO: { en: "Bolivia", nl: "Bolivia" },
+  BQ: { en: "Caribbean Netherlands", nl: "Caribisch Nederland" },
+  BR: { en: "Brazil", nl: "Brazilië" },
+  BS: { en: "Bahamas", nl: "Bahama’s" },
+  BT: { en: "Bhutan", nl: "Bhutan" },
+  BV: { en: "Bouvet Island", nl: "Bouveteiland" },
+  BW: { en: "Botswana", nl: "Botswana" },
+  BY: { en: "Belarus", nl: "Belarus" },
+  BZ: { en: "Belize", nl: "Belize" },
+  CA: { en: "Canada", nl: "Canada" },
+  CC: { en: "Cocos (Keeling) Islands", nl: "Cocoseilanden" },
+  CD: { en: "Congo - Kinshasa", nl: "Congo-Kinshasa" },
+  CF: { en: "Central African Republic", nl: "Centraal-Afrikaanse Republiek" },
+  CG: { en: "Congo - Brazzaville", nl: "Congo-Brazzaville" },
+  CH: { en: "Switzerland", nl: "Zwitserland" },
+  CI: { en: "Côte d’Ivoire", nl: "Ivoorkust" },
+  CK: { en: "Cook Islands", nl: "Cookeilanden" },
+  CL: { en: "Chile", nl: "Chili" },
+  CM: { en: "Cameroon", nl: "Kameroen" },
+  CN: { en: "China", nl: "China" },
+  CO: { en: "Colombia", nl: "Colombia" },
+  CR: { en: "Costa Rica", nl: "Costa Rica" },
+  CU: { en: "Cuba", nl: "Cuba" },
+  CV: { en: "Cape Verde", nl: "Kaapverdië" },
+  CW: { en: "Curaçao", nl: "Curaçao" },
+  CX: { en: "Christmas Island", nl: "Christmaseiland" },
+  CY: { en: "Cyprus", nl: "Cyprus" },
+  CZ: { en: "Czechia", nl: "Tsjechië" },
+  DE: { en: "Germany", nl: "Duitsland" },
+  DJ: { en: "Djibouti", nl: "Djibouti" },
+  DK: { en: "Denmark", nl: "Denemarken" },
+  DM: { en: "Dominica", nl: "Dominica" },
+  DO: { en: "Dominican Republic", nl: "Dominicaanse Republiek" },
+  DZ: { en: "Algeria", nl: "Algerije" },
+  EC: { en: "Ecuador", nl: "Ecuador" },
+  EE: { en: "Estonia", nl: "Estland" },
+  EG: { en: "Egypt", nl: "Egypte" },
+  EH: { en: "Western Sahara", nl: "Westelijke Sahara" },
+  ER: { en: "Eritrea", nl: "Eritrea" },
+  ES: { en: "Spain", nl: "Spanje" },
+  ET: { en: "Ethiopia", nl: "Ethiopië" },
+  FI: { en: "Finland", nl: "Finland" },
+  FJ: { en: "Fiji", nl: "Fiji" },
+  FK: { en: "Falkland Islands", nl: "Falklandeilanden" },
+  FM: { en: "Micronesia", nl: "Micronesia" },
+  FO: { en: "Faroe Islands", nl: "Faeröer" },
+  FR: { en: "France", nl: "Frankrijk" },
+  GA: { en: "Gabon", nl: "Gabon" },
+  GB: { en: "United Kingdom", nl: "Verenigd Koninkrijk" },
+  GD: { en: "Grenada", nl: "Grenada" },
+  GE: { en: "Georgia", nl: "Georgië" },
+  GF: { en: "French Guiana", nl: "Frans-Guyana" },
+  GG: { en: "Guernsey", nl: "Guernsey" },
+  GH: { en: "Ghana", nl: "Ghana" },
+  GI: { en: "Gibraltar", nl: "Gibraltar" },
+  GL: { en: "Greenland", nl: "Groenland" },
+  GM: { en: "Gambia", nl: "Gambia" },
+  GN: { en: "Guinea", nl: "Guinee" },
+  GP: { en: "Guadeloupe", nl: "Guadeloupe" },
+  GQ: { en: "Equatorial Guinea", nl: "Equatoriaal-Guinea" },
+  GR: { en: "Greece", nl: "Griekenland" },
+  GS: { en: "South Georgia & South Sandwich Islands", nl: "Zuid-Georgia en Zuidelijke Sandwicheilanden" },
+  GT: { en: "Guatemala", nl: "Guatemala" },
+  GU: { en: "Guam", nl: "Guam" },
+  GW: { en: "Guinea-Bissau", nl: "Guinee-Bissau" },
+  GY: { en: "Guyana", nl: "Guyana" },
+  HK: { en: "Hong Kong SAR China", nl: "Hongkong SAR van China" },
+  HM: { en: "Heard & McDonald Islands", nl: "Heard en McDonaldeilanden" },
+  HN: { en: "Honduras", nl: "Honduras" },
+  HR: { en: "Croatia", nl: "Kroatië" },
+  HT: { en: "Haiti", nl: "Haïti" },
+  HU: { en: "Hungary", nl: "Hongarije" },
+  ID: { en: "Indonesia", nl: "Indonesië" },
+  IE: { en: "Ireland", nl: "Ierland" },
+  IL: { en: "Israel", nl: "Israël" },
+  IM: { en: "Isle of Man", nl: "Isle of Man" },
+  IN: { en: "India", nl: "India" },
+  IO: { en: "British Indian Ocean Territory", nl: "Brits Indische Oceaanterritorium" },
+  IQ: { en: "Iraq", nl: "Irak" },
+  IR: { en: "Iran", nl: "Iran" },
+  IS: { en: "Iceland", nl: "IJsland" },
+  IT: { en: "Italy", nl: "Italië" },
+  JE: { en: "Jersey", nl: "Jersey" },
+  JM: { en: "Jamaica", nl: "Jamaica" },
+  JO: { en: "Jordan", nl: "Jordanië" },
+  JP: { en: "Japan", nl: "Japan" },
+  KE: { en: "Kenya", nl: "Kenia" },
+  KG: { en: "Kyrgyzstan", nl: "Kirgizië" },
+  KH: { en: "Cambodia", nl: "Cambodja" },
+  KI: { en: "Kiribati", nl: "Kiribati" },
+  KM: { en: "Comoros", nl: "Comoren" },
+  KN: { en: "St. Kitts & Nevis", nl: "Saint Kitts en Nevis" },
+  KP: { en: "North Korea", nl: "Noord-Korea" },
+  KR: { en: "South Korea", nl: "Zuid-Korea" },
+  KW: { en: "Kuwait", nl: "Koeweit" },
+  KY: { en: "Cayman Islands", nl: "Kaaimaneilanden" },
+  KZ: { en: "Kazakhstan", nl: "Kazachstan" },
+  LA: { en: "Laos", nl: "Laos" },
+  LB: { en: "Lebanon", nl: "Libanon" },
+  LC: { en: "St. Lucia", nl: "Saint Lucia" },
+  LI: { en: "Liechtenstein", nl: "Liechtenstein" },
+  LK: { en: "Sri Lanka", nl: "Sri Lanka" },
+  LR: { en: "Liberia", nl: "Liberia" },
+  LS: { en: "Lesotho", nl: "Lesotho" },
+  LT: { en: "Lithuania", nl: "Litouwen" },
+  LU: { en: "Luxembourg", nl: "Luxemburg" },
+  LV: { en: "Latvia", nl: "Letland" },
+  LY: { en: "Libya", nl: "Libië" },
+  MA: { en: "Morocco", nl: "Marokko" },
+  MC: { en: "Monaco", nl: "Monaco" },
+  MD: { en: "Moldova", nl: "Moldavië" },
+  ME: { en: "Montenegro", nl: "Montenegro" },
+  MF: { en: "St. Martin", nl: "Saint-Martin" },
+  MG: { en: "Madagascar", nl: "Madagaskar" },
+  MH: { en: "Marshall Islands", nl: "Marshalleilanden" },
+  MK: { en: "North Macedonia", nl: "Noord-Macedonië" },
+  ML: { en: "Mali", nl: "Mali" },
+  MM: { en: "Myanmar (Burma)", nl: "Myanmar (Birma)" },
+  MN: { en: "Mongolia", nl: "Mongolië" },
+  MO: { en: "Macao SAR China", nl: "Macau SAR van China" },
+  MP: { en: "Northern Mariana Islands", nl: "Noordelijke Marianen" },
+  MQ: { en: "Martinique", nl: "Martinique" },
+  MR: { en: "Mauritania", nl: "Mauritanië" },
+  MS: { en: "Montserrat", nl: "Montserrat" },
+  MT: { en: "Malta", nl: "Malta" },
+  MU: { en: "Mauritius", nl: "Mauritius" },
+  MV: { en: "Maldives", nl: "Maldiven" },
+  MW: { en: "Malawi", nl: "Malawi" },
+  MX: { en: "Mexico", nl: "Mexico" },
+  MY: { en: "Malaysia", nl: "Maleisië" },
+  MZ: { en: "Mozambique", nl: "Mozambique" },
+  NA: { en: "Namibia", nl: "Namibië" },
+  NC: { en: "New Caledonia", nl: "Nieuw-Caledonië" },
+  NE: { en: "Niger", nl: "Niger" },
+  NF: { en: "Norfolk Island", nl: "Norfolk" },
+  NG: { en: "Nigeria", nl: "Nigeria" },
+  NI: { en: "Nicaragua", nl: "Nicaragua" },
+  NL: { en: "Netherlands", nl: "Nederland" },
+  NO: { en: "Norway", nl: "Noorwegen" },
+  NP: { en: "Nepal", nl: "Nepal" },
+  NR: { en: "Nauru", nl: "Nauru" },
+  NU: { en: "Niue", nl: "Niue" },
+  NZ: { en: "New Zealand", nl: "Nieuw-Zeeland" },
+  OM: { en: "Oman", nl: "Oman" },
+  PA: { en: "Panama", nl: "Panama" },
+  PE: { en: "Peru", nl: "Peru" },
+  PF: { en: "French Polynesia", nl: "Frans-Polynesië" },
+  PG: { en: "Papua New Guinea", nl: "Papoea-Nieuw-Guinea" },
+  PH: { en: "Philippines", nl: "Filipijnen" },
+  PK: { en: "Pakistan", nl: "Pakistan" },
+  PL: { en: "Poland", nl: "Polen" },
+  PM: { en: "St. Pierre & Miquelon", nl: "Saint-Pierre en Miquelon" },
+  PN: { en: "Pitcairn Islands", nl: "Pitcairneilanden" },
+  PR: { en: "Puerto Rico", nl: "Puerto Rico" },
+  PS: { en: "Palestinian Territories", nl: "Palestijnse gebieden" },
+  PT: { en: "Portugal", nl: "Portugal" },
+  PW: { en: "Palau", nl: "Palau" },
+  PY: { en: "Paraguay", nl: "Paraguay" },
+  QA: { en: "Qatar", nl: "Qatar" },
+  RE: { en: "Réunion", nl: "Réunion" },
+  RO: { en: "Romania", nl: "Roemenië" },
+  RS: { en: "Serbia", nl: "Servië" },
+  RU: { en: "Russia", nl: "Rusland" },
+  RW: { en: "Rwanda", nl: "Rwanda" },
+  SA: { en: "Saudi Arabia", nl: "Saoedi-Arabië" },
+  SB: { en: "Solomon Islands", nl: "Salomonseilanden" },
+  SC: { en: "Seychelles", nl: "Seychellen" },
+  SD: { en: "Sudan", nl: "Soedan" },
+  SE: { en: "Sweden", nl: "Zweden" },
+  SG: { en: "Singapore", nl: "Singapore" },
+  SH: { en: "St. Helena", nl: "Sint-Helena" },
+  SI: { en: "Slovenia", nl: "Slovenië" },
+  SJ: { en: "Svalbard & Jan Mayen", nl: "Spitsbergen en Jan Mayen" },
+  SK: { en: "Slovakia", nl: "Slowakije" },
+  SL: { en: "Sierra Leone", nl: "Sierra Leone" },
+  SM: { en: "San Marino", nl: "San Marino" },
+  SN: { en: "Senegal", nl: "Senegal" },
+  SO: { en: "Somalia", nl: "Somalië" },
+  SR: { en: "Suriname", nl: "Suriname" },
+  SS: { en: "South Sudan", nl: "Zuid-Soedan" },
+  ST: { en: "São Tomé & Príncipe", nl: "Sao Tomé en Principe" },
+  SV: { en: "El Salvador", nl: "El Salvador" },
+  SX: { en: "Sint Maarten", nl: "Sint-Maarten" },
+  SY: { en: "Syria", nl: "Syrië" },
+  SZ: { en: "Eswatini", nl: "Eswatini" },
+  TC: { en: "Turks & Caicos Islands", nl: "Turks- en Caicoseilanden" },
+  TD: { en: "Chad", nl: "Tsjaad" },
+  TF: { en: "French Southern Territories", nl: "Franse Gebieden in de zuidelijke Indische Oceaan" },
+  TG: { en: "Togo", nl: "Togo" },
+  TH: { en: "Thailand", nl: "Thailand" },
+  TJ: { en: "Tajikistan", nl: "Tadzjikistan" },
+  TK: { en: "Tokelau", nl: "Tokelau" },
+  TL: { en: "Timor-Leste", nl: "Oost-Timor" },
+  TM: { en: "Turkmenistan", nl: "Turkmenistan" },
+  TN: { en: "Tunisia", nl: "Tunesië" },
+  TO: { en: "Tonga", nl: "Tonga" },
+  TR: { en: "Türkiye", nl: "Turkije" },
+  TT: { en: "Trinidad & Tobago", nl: "Trinidad en Tobago" },
+  TV: { en: "Tuvalu", nl: "Tuvalu" },
+  TW: { en: "Taiwan", nl: "Taiwan" },
+  TZ: { en: "Tanzania", nl: "Tanzania" },
+  UA: { en: "Ukraine", nl: "Oekraïne" },
+  UG: { en: "Uganda", nl: "Oeganda" },
+  UM: { en: "U.S. Outlying Islands", nl: "Kleine afgelegen eilanden van de Verenigde Staten" },
+  US: { en: "United States", nl: "Verenigde Staten" },
+  UY: { en: "Uruguay", nl: "Uruguay" },
+  UZ: { en: "Uzbekistan", nl: "Oezbekistan" },
+  VA: { en: "Vatican City", nl: "Vaticaanstad" },
+  VC: { en: "St. Vincent & Grenadines", nl: "Saint Vincent en de Grenadines" },
+  VE: { en: "Venezuela", nl: "Venezuela" },
+  VG: { en: "British Virgin Islands", nl: "Britse Maagdeneilanden" },
+  VI: { en: "U.S. Virgin Islands", nl: "Amerikaanse Maagdeneilanden" },
+  VN: { en: "Vietnam", nl: "Vietnam" },
+  VU: { en: "Vanuatu", nl: "Vanuatu" },
+  WF: { en: "Wallis & Futuna", nl: "Wallis en Futuna" },
+  WS: { en: "Samoa", nl: "Samoa" },
+  YE: { en: "Yemen", nl: "Jemen" },
+  YT: { en: "Mayotte", nl: "Mayotte" },
+  ZA: { en: "South Africa", nl: "Zuid-Afrika" },
+  ZM: { en: "Zambia", nl: "Zambia" },
+  ZW: { en: "Zimbabwe", nl: "Zimbabwe" },
+};
+
+export function isCountryCode(value: unknown): value is string {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(COUNTRIES, value);
+}
+
+export function countryName(code: string, locale: Locale) {
+  return isCountryCode(code) ? COUNTRIES[code][locale] : code;
+}
+
+// The flag emoji: each letter of the code as a regional indicator symbol.
+export function countryFlag(code: string) {
+  return code.toUpperCase().replace(/[A-Z]/g, (letter) => String.fromCodePoint(0x1f1e6 + letter.charCodeAt(0) - 65));
+}
+
+// All countries as { code, name }, in alphabetical order for `locale`.
+export function countryOptions(locale: Locale) {
+  return Object.keys(COUNTRIES)
+    .map((code) => ({ code, name: COUNTRIES[code][locale] }))
+    .sort((a, b) => a.name.localeCompare(b.name, locale));
+}
+
+const foldName = (value: string) => value.trim().toLowerCase().replace(/[’']/g, "'");
+
+// The code for a code or a country name in any of our languages, e.g. from an account saved before
+// countries were stored as codes; null when nothing matches.
+export function findCountryCode(value: string): string | null {
+  const upper = value.trim().toUpperCase();
+  if (isCountryCode(upper)) return upper;
+  const name = foldName(value);
+  if (!name) return null;
+  const codes = Object.keys(COUNTRIES);
+  for (let i = 0; i < codes.length; i++) {
+    const names = COUNTRIES[codes[i]];
+    if (foldName(names.en) === name || foldName(names.nl) === name) return codes[i];
+  }
+  return null;
+}
+
+// Language tags from an Accept-Language header, most preferred first.
+export function parseAcceptLanguage(header: string) {
+  return header
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map((param) => param.trim()).filter((param) => param.indexOf('q=') === 0).map((param) => Number(param.slice(2)))[0];
+      return { tag: tag.trim(), q: q === undefined || isNaN(q) ? 1 : q, index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== '*' && entry.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index)
+    .map((entry) => entry.tag);
+}
+
+// A guess at the country from the browser's languages: the region of the first tag that has one,
+// so "nl-BE" gives BE. Tags without a region ("nl") say nothing about where someone lives.
+export function countryFromLanguages(tags: readonly string[]): string | null {
+  for (let i = 0; i < tags.length; i++) {
+    const region = tags[i].split(/[-_]/).slice(1).filter((subtag) => /^[A-Za-z]{2}$/.test(subtag))[0];
+    if (region && isCountryCode(region.toUpperCase())) return region.toUpperCase();
+  }
+  return null;
+}
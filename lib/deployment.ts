@@ -0,0 +1,3 @@
+// Static GitHub Pages builds (output: 'export', see next.config.js) ship without API routes,
+// so anything that needs the server has to check this first.
+export const isStaticDeployment = process.env.NEXT_PUBLIC_DEPLOY_TARGET === 'static';
@@ -0,0 +1,28 @@
+// What /api/geo answers, for the onboarding form. Only these fields ever leave the server; see
+// lib/server/geoProviders.ts for how each source is mapped onto them.
+
+export type GeoResponse =
+  | {
+      status: 'ok';
+      // which provider answered, e.g. "offline" or "ipapi"
+      source: string;
+      // ISO 3166-1 alpha-2
+      country_code: string;
+      // English
+      country_name: string;
+      region: string | null;
+      timezone: string | null;
+      // 0–1
+      confidence: number;
+    }
+  | {
+      status: 'unknown';
+      // no_ip: the address couldn't be told; private: a loopback or private-network address;
+      // not_found: no provider knows the address
+      reason: 'no_ip' | 'private' | 'not_found';
+      source: 'none';
+      country_code: '';
+      country_name: '';
+      // a weaker guess from the Accept-Language header (lib/countries.ts); '' when it has none
+      fallback_country_code: string;
+    };
@@ -0,0 +1,104 @@
+import { isStaticDeployment } from '@/lib/deployment';
+import { countryFromLanguages, isCountryCode } from '@/lib/countries';
+import { countryFromTimezone } from '@/lib/timezoneCountries';
+
+// Where the onboarding form gets its country guess. NEXT_PUBLIC_GEO_DETECTION picks the strategy:
+//   api    — ask /api/geo (server deployments only), then fall back to the browser's own hints
+//   client — the browser's hints only: the NEXT_PUBLIC_GEO_ENDPOINT service when one is set, then
+//            the time zone, then the language region; the default for static (GitHub Pages) builds
+//   off    — no detection at all, e.g. for previews behind proxies that break outgoing requests
+// NEXT_PUBLIC_GEO_ENDPOINT is a public JSON service the browser calls itself (https://ipapi.co/json/
+// and the like); it must allow cross-origin requests and answer with a country code.
+
+export type GeoDetectionMode = 'api' | 'client' | 'off';
+
+export type DetectedCountry = {
+  // ISO 3166-1 alpha-2
+  countryCode: string;
+  // api and endpoint look at the address; timezone and locale only at the browser's settings
+  source: 'api' | 'endpoint' | 'timezone' | 'locale';
+};
+
+const DETECT_TIMEOUT_MS = 4000;
+
+function geoDetectionMode(setting: string | undefined): GeoDetectionMode {
+  const value = (setting || '').trim().toLowerCase();
+  if (value === 'off' || value === 'client') return value;
+  // a static export has no API routes to ask
+  return isStaticDeployment ? 'client' : 'api';
+}
+
+export const GEO_DETECTION_MODE = geoDetectionMode(process.env.NEXT_PUBLIC_GEO_DETECTION);
+
+const GEO_ENDPOINT = (process.env.NEXT_PUBLIC_GEO_ENDPOINT || '').trim();
+
+// The JSON at `url`, or null when the request fails, answers with an error or takes too long.
+async function fetchJson(url: string, timeoutMs: number): Promise<unknown> {
+  const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+  const timer = setTimeout(() => controller && controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { signal: controller ? controller.signal : undefined, headers: { Accept: 'application/json' } });
+    return res.ok ? await res.json() : null;
+  } catch (e) {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const countryCode = (value: unknown) => {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  return isCountryCode(code) ? code : null;
+};
+
+// The country in a public geo service's answer; they disagree on what to call the field.
+function countryFromEndpoint(data: unknown) {
+  if (!isRecord(data)) return null;
+  return countryCode(data.country_code) || countryCode(data.countryCode) || countryCode(data.country);
+}
+
+function timezoneCountry() {
+  try {
+    return countryFromTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  } catch (e) {
+    return null;
+  }
+}
+
+// The region of the browser's preferred languages.
+function languageCountry() {
+  if (typeof navigator === 'undefined') return null;
+  const languages = navigator.languages && navigator.languages.length ? navigator.languages : [navigator.language || ''];
+  return countryFromLanguages(languages);
+}
+
+const online = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+// The best guess at the coach's country under GEO_DETECTION_MODE; null when there is none (or
+// detection is off). Never throws: every source that fails just hands over to the next one.
+export async function detectCountry(mode: GeoDetectionMode = GEO_DETECTION_MODE): Promise<DetectedCountry | null> {
+  if (mode === 'off') return null;
+
+  // the Accept-Language guess /api/geo makes when it can't place the address
+  let serverFallback: string | null = null;
+  if (mode === 'api' && online()) {
+    const data = await fetchJson('/api/geo', DETECT_TIMEOUT_MS);
+    if (isRecord(data) && data.status === 'ok') {
+      const code = countryCode(data.country_code);
+      if (code) return { countryCode: code, source: 'api' };
+    }
+    if (isRecord(data) && data.status === 'unknown') serverFallback = countryCode(data.fallback_country_code);
+  }
+  if (mode === 'client' && GEO_ENDPOINT && online()) {
+    const code = countryFromEndpoint(await fetchJson(GEO_ENDPOINT, DETECT_TIMEOUT_MS));
+    if (code) return { countryCode: code, source: 'endpoint' };
+  }
+
+  // a time zone points at one country far more often than a language does
+  const zoneCode = timezoneCountry();
+  if (zoneCode) return { countryCode: zoneCode, source: 'timezone' };
+  const languageCode = serverFallback || languageCountry();
+  return languageCode ? { countryCode: languageCode, source: 'locale' } : null;
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { GuardrailConfig, checkMessage, containsPhrase, finishedSentences } from '@/lib/guardrails';
+import { TwinLanguageCode } from '@/lib/twinLanguages';
+
+const config = (language: TwinLanguageCode, overrides: Partial<GuardrailConfig> = {}): GuardrailConfig => ({
+  bannedPhrases: [],
+  noAdvice: false,
+  noTherapy: false,
+  noImpersonation: false,
+  language,
+  ...overrides,
+});
+
+type LanguageCase = {
+  // a banned phrase, and a reply using it with a typo and different punctuation
+  banned: string;
+  bannedReply: string;
+  // advice, the question it should become and an innocent sentence around it
+  advice: string;
+  adviceQuestion: string;
+  neutral: string;
+  therapy: string;
+  impersonation: string;
+};
+
+const CASES: Record<TwinLanguageCode, LanguageCase> = {
+  en: {
+    banned: 'What’s the cost of not changing?',
+    bannedReply: 'So, whats the cost of not chnging, really?',
+    advice: 'You should call her today.',
+    adviceQuestion: 'What would it take to call her today?',
+    neutral: 'That sounds hard.',
+    therapy: 'You probably have clinical depression.',
+    impersonation: 'I am not an AI, I promise.',
+  },
+  nl: {
+    banned: 'Wat kost het je als er niets verandert?',
+    bannedReply: 'Wat kost het je als er niks verandert?',
+    advice: 'Je moet haar vandaag bellen.',
+    adviceQuestion: 'Wat zou je helpen om de volgende stap te zetten?',
+    neutral: 'Dat klinkt zwaar.',
+    therapy: 'Je hebt last van een angststoornis.',
+    impersonation: 'Ik ben geen AI, echt niet.',
+  },
+  de: {
+    banned: 'Was kostet es dich, nichts zu ändern?',
+    bannedReply: 'Was kostet es dich nichts zu aendern?',
+    advice: 'Du solltest sie heute anrufen.',
+    adviceQuestion: 'Was würde dir helfen, den nächsten Schritt zu gehen?',
+    neutral: 'Das klingt schwer.',
+    therapy: 'Du leidest an einer Angststörung.',
+    impersonation: 'Ich bin keine KI, wirklich.',
+  },
+  fr: {
+    banned: 'Qu’est-ce que ça te coûte de ne rien changer ?',
+    bannedReply: 'Qu’est-ce que ça te coute de ne rien changer ?',
+    advice: 'Tu devrais l’appeler aujourd’hui.',
+    adviceQuestion: 'Qu’est-ce qu’il faudrait pour l’appeler aujourd’hui ?',
+    neutral: 'Ça a l’air difficile.',
+    therapy: 'Tu souffres d’une dépression.',
+    impersonation: 'Je ne suis pas une IA, promis.',
+  },
+  es: {
+    banned: '¿Cuál es el coste de no cambiar?',
+    bannedReply: '¿Cual es el costo de no cambiar?',
+    advice: 'Deberías llamarla hoy.',
+    adviceQuestion: '¿Qué haría falta para llamarla hoy?',
+    neutral: 'Eso suena difícil.',
+    therapy: 'Tienes un trastorno de ansiedad.',
+    impersonation: 'No soy una IA, de verdad.',
+  },
+};
+
+describe('containsPhrase', () => {
+  it('ignores case and punctuation', () => {
+    expect(containsPhrase('Well… TELL me more!', 'Tell me more')).toBe(true);
+  });
+
+  it('tolerates small typos in longer phrases only', () => {
+    expect(containsPhrase('How do yuo know?', 'How do you know?')).toBe(true);
+    expect(containsPhrase('Calm dawn', 'Calm down')).toBe(false);
+  });
+
+  it('does not match unrelated sentences', () => {
+    expect(containsPhrase('What do you want to try first?', 'What’s the cost of not changing?')).toBe(false);
+  });
+});
+
+describe('finishedSentences', () => {
+  it('holds back the sentence that is still streaming in', () => {
+    expect(finishedSentences('That sounds hard. You mu')).toBe('That sounds hard.');
+    expect(finishedSentences('That sounds hard.')).toBe('');
+    expect(finishedSentences('Really?! Tell me')).toBe('Really?!');
+  });
+});
+
+describe.each(Object.keys(CASES) as TwinLanguageCode[])('checkMessage in %s', (language) => {
+  const c = CASES[language];
+
+  it('allows a reply that breaks no guardrail', () => {
+    const result = checkMessage(c.neutral, config(language, { noAdvice: true, noTherapy: true, noImpersonation: true }));
+    expect(result).toEqual({ action: 'allow', text: c.neutral, violations: [] });
+  });
+
+  it('drops a sentence with a fuzzily matched banned phrase', () => {
+    expect(containsPhrase(c.bannedReply, c.banned)).toBe(true);
+    const result = checkMessage(`${c.neutral} ${c.bannedReply}`, config(language, { bannedPhrases: [c.banned] }));
+    expect(result.action).toBe('rewrite');
+    expect(result.text).toBe(c.neutral);
+    expect(result.violations.map((v) => v.rule)).toEqual(['banned-phrase']);
+  });
+
+  it('blocks a reply that is nothing but a banned phrase', () => {
+    expect(checkMessage(c.bannedReply, config(language, { bannedPhrases: [c.banned] }))).toMatchObject({ action: 'block', text: '' });
+  });
+
+  it('turns direct advice into a question', () => {
+    const result = checkMessage(`${c.neutral} ${c.advice}`, config(language, { noAdvice: true }));
+    expect(result.action).toBe('rewrite');
+    expect(result.text).toBe(`${c.neutral} ${c.adviceQuestion}`);
+    expect(result.violations.map((v) => v.rule)).toEqual(['direct-advice']);
+  });
+
+  it('leaves advice alone when the coach allows it', () => {
+    expect(checkMessage(c.advice, config(language)).action).toBe('allow');
+  });
+
+  it('blocks therapy talk when the coach rules it out', () => {
+    const result = checkMessage(c.therapy, config(language, { noTherapy: true }));
+    expect(result.action).toBe('block');
+    expect(result.text).toBe('');
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toMatchObject({ rule: 'therapy', action: 'block' });
+  });
+
+  it('only flags therapy talk otherwise', () => {
+    const result = checkMessage(c.therapy, config(language));
+    expect(result.action).toBe('flag');
+    expect(result.text).toBe(c.therapy);
+    expect(result.violations[0]).toMatchObject({ rule: 'therapy', action: 'flag' });
+  });
+
+  it('blocks a claim to be human when impersonation is ruled out', () => {
+    const result = checkMessage(`${c.neutral} ${c.impersonation}`, config(language, { noImpersonation: true }));
+    expect(result.action).toBe('block');
+    expect(result.violations.map((v) => v.rule)).toEqual(['impersonation']);
+    expect(checkMessage(c.impersonation, config(language)).action).toBe('allow');
+  });
+
+  it('still catches English phrasings', () => {
+    expect(checkMessage('I am a real person.', config(language, { noImpersonation: true })).action).toBe('block');
+  });
+});
+
+describe('checkMessage across pattern sets', () => {
+  it('reports a sentence once when it matches both its own language and English', () => {
+    // "Diagnose" is a German word and an English one
+    const sentence = 'Das klingt nach einer Diagnose.';
+    const result = checkMessage(sentence, config('de', { noTherapy: true }));
+    expect(result.violations).toEqual([{ rule: 'therapy', action: 'block', match: expect.stringMatching(/^Diagnose/i), reason: expect.any(String) }]);
+    expect(checkMessage(`${sentence} Ich bin kein Bot, I am a real person.`, config('de', { noTherapy: true, noImpersonation: true })).violations.map((v) => v.rule)).toEqual(['therapy', 'impersonation']);
+  });
+});
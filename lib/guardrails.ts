@@ -0,0 +1,295 @@
+import { PersonaRules } from '@/lib/persona';
+import { TwinLanguageCode, twinLanguageFor } from '@/lib/twinLanguages';
+
+// Checks a generated twin message against the coach's guardrails before anyone sees it. Each rule
+// either blocks the whole message, rewrites the offending sentence, or only flags it for the coach.
+
+export type GuardrailAction = 'block' | 'rewrite' | 'flag';
+export type GuardrailRule = 'banned-phrase' | 'direct-advice' | 'therapy' | 'impersonation';
+
+export type GuardrailViolation = {
+  rule: GuardrailRule;
+  action: GuardrailAction;
+  // what was matched in the message, and why it matters
+  match: string;
+  reason: string;
+};
+
+export type GuardrailResult = {
+  action: 'allow' | GuardrailAction;
+  // the message to show: unchanged, rewritten, or empty when blocked
+  text: string;
+  violations: GuardrailViolation[];
+};
+
+export type GuardrailConfig = {
+  bannedPhrases: string[];
+  noAdvice: boolean;
+  noTherapy: boolean;
+  noImpersonation: boolean;
+  // which phrasings to look for, besides English
+  language: TwinLanguageCode;
+};
+
+// "never do" options from the Guardrails step that map to an output check
+const NEVER_DO_RULES: Record<string, keyof Omit<GuardrailConfig, 'bannedPhrases' | 'language'>> = {
+  'Give direct advice': 'noAdvice',
+  'Act like therapy': 'noTherapy',
+  'Pretend to be you': 'noImpersonation',
+};
+
+export function guardrailConfig(rules: PersonaRules): GuardrailConfig {
+  const config: GuardrailConfig = {
+    bannedPhrases: rules.identity.bannedPhrases,
+    noAdvice: false,
+    noTherapy: false,
+    noImpersonation: false,
+    language: twinLanguageFor(rules.language).code,
+  };
+  rules.guardrails.neverDo.forEach((item) => {
+    const key = NEVER_DO_RULES[item];
+    if (key) config[key] = true;
+  });
+  return config;
+}
+
+// --- fuzzy phrase matching ---
+
+const normalize = (s: string) =>
+  s.toLowerCase().replace(/[’‘`]/g, "'").replace(/…|\.\.\./g, ' ').replace(/[^a-z0-9'À-ɏ]+/g, ' ').trim();
+
+function levenshtein(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// True when `sentence` contains `phrase`, ignoring case and punctuation and tolerating small typos
+// (roughly one edit per five characters; short phrases like "calm down" must match exactly).
+export function containsPhrase(sentence: string, phrase: string) {
+  const target = normalize(phrase);
+  if (!target) return false;
+  const words = normalize(sentence).split(' ').filter(Boolean);
+  const n = target.split(' ').length;
+  const tolerance = target.length >= 10 ? Math.floor(target.length / 5) : 0;
+  for (let size = Math.max(1, n - 1); size <= n + 1; size++) {
+    for (let i = 0; i + size <= words.length; i++) {
+      const window = words.slice(i, i + size).join(' ');
+      if (window === target || (tolerance > 0 && levenshtein(window, target) <= tolerance)) return true;
+    }
+  }
+  return false;
+}
+
+// --- pattern rules ---
+
+// Per language. JS `\b` only knows ASCII letters, so patterns avoid it next to accented characters.
+type LanguagePatterns = {
+  // advice phrasings; a capture group is the suggested action, reused to turn it into a question
+  advice: RegExp[];
+  adviceQuestion: (action: string | null) => string;
+  therapy: RegExp[];
+  impersonation: RegExp[];
+};
+
+const PATTERNS: Record<TwinLanguageCode, LanguagePatterns> = {
+  en: {
+    advice: [
+      /\byou (?:really )?(?:should|must|need to|have to|ought to)\s+(.+)/i,
+      /\bi (?:would )?(?:recommend|suggest|advise)(?: that)?(?: you)?\s+(.+)/i,
+      /\bmy advice(?: to you)? is(?: to)?\s+(.+)/i,
+      /\bif i were you,? i(?:'d| would)\s+(.+)/i,
+      /\bthe (?:best|right) thing (?:to do |for you )?is(?: to)?\s+(.+)/i,
+    ],
+    adviceQuestion: (action) => (action ? `What would it take to ${action}?` : 'What would help you take the next step?'),
+    therapy: [
+      /\b(?:you (?:have|suffer from|are suffering from|show signs of|might have|may have|probably have))\s+(?:a |an )?(?:clinical |severe |mild )?(?:depression|anxiety(?: disorder)?|ptsd|adhd|ocd|bipolar(?: disorder)?|trauma|burnout syndrome|(?:\w+ )?disorder)\b/i,
+      /\bdiagnos(?:e|is|ed|ing)\b/i,
+      /\b(?:as your therapist|in (?:our )?therapy|therapy session|treatment plan|psychotherapy)\b/i,
+      /\b(?:medication|antidepressants?|prescri(?:be|ption))\b/i,
+    ],
+    impersonation: [
+      /\bi(?:'m| am) not an? (?:ai|bot|assistant|machine)\b/i,
+      /\bi(?:'m| am) (?:a |the )?(?:real |human )(?:person|human|coach)\b/i,
+      /\b(?:this is|it's) (?:really )?your coach(?: here| speaking)?\b/i,
+    ],
+  },
+  nl: {
+    advice: [
+      /\bje (?:moet|zou (?:echt )?moeten|hoort te)\b/i,
+      /\bik (?:raad (?:je|u) aan|adviseer (?:je|u)|zou (?:je|u) aanraden)\b/i,
+      /\bmijn advies(?: aan jou)? is\b/i,
+      /\bals ik jou was\b/i,
+      /\bhet beste (?:wat je kunt doen )?is\b/i,
+    ],
+    adviceQuestion: () => 'Wat zou je helpen om de volgende stap te zetten?',
+    therapy: [
+      /\bje (?:hebt|lijdt aan|kampt met)\s+(?:last van )?(?:een )?(?:depressie|angststoornis|ptss|adhd|dwangstoornis|trauma|burn-?out|\w*stoornis)\b/i,
+      /\b(?:ge)?diagnos\w*/i,
+      /\b(?:als je therapeut|in (?:onze )?therapie|therapiesessie|behandelplan|psychotherapie)\b/i,
+      /\b(?:medicatie|antidepressiva|voorschrijven)\b/i,
+    ],
+    impersonation: [
+      /\bik ben geen (?:ai|bot|assistent|computer)\b/i,
+      /\bik ben (?:een |de )?(?:echte |menselijke )(?:persoon|mens|coach)\b/i,
+      /\b(?:dit is|hier is) (?:echt )?je coach\b/i,
+    ],
+  },
+  de: {
+    advice: [
+      /\bdu (?:solltest|musst|müsstest)\b/i,
+      /\bich (?:empfehle|rate) dir\b/i,
+      /\bmein rat(?: an dich)? ist\b/i,
+      /\ban deiner stelle w(?:ü|ue)rde ich\b/i,
+      /\bdas (?:beste|richtige) (?:für dich )?ist\b/i,
+    ],
+    adviceQuestion: () => 'Was würde dir helfen, den nächsten Schritt zu gehen?',
+    therapy: [
+      /\bdu (?:hast|leidest an|leidest unter)\s+(?:eine |einer )?(?:klinische |schwere |leichte )?(?:depression\w*|angststörung|ptbs|adhs|zwangsstörung|trauma|burnout|\w*störung)/i,
+      /\bdiagnos\w*/i,
+      /\b(?:als dein therapeut|in (?:unserer )?therapie|therapiesitzung|behandlungsplan|psychotherapie)\b/i,
+      /\b(?:medikament\w*|antidepressiv\w*|verschreib\w*)/i,
+    ],
+    impersonation: [
+      /\bich bin keine? (?:ki|bot|assistent|maschine)\b/i,
+      /\bich bin (?:ein |eine |der |die )?(?:echter |echte |menschlicher )(?:mensch|coach|person)\b/i,
+      /\bhier (?:ist|spricht) (?:wirklich )?dein coach\b/i,
+    ],
+  },
+  fr: {
+    advice: [
+      /\b(?:vous devriez|vous devez|tu devrais|tu dois|il faut(?! que))\s+(.+)/i,
+      /\bje (?:vous |te )?(?:recommande|conseille|sugg[eè]re)\b/i,
+      /\bmon conseil(?: pour vous| pour toi)? (?:est|serait)\b/i,
+      /(?:^|\s)[àa] (?:votre|ta) place\b/i,
+    ],
+    adviceQuestion: (action) => (action ? `Qu’est-ce qu’il faudrait pour ${action} ?` : 'Qu’est-ce qui vous aiderait à avancer ?'),
+    therapy: [
+      /\b(?:vous avez|tu as|vous souffrez d['’]?|tu souffres d['’]?)\s*(?:une? |de la |d['’]une? |e )?(?:d[ée]pression|anxi[ée]t[ée]|trouble\w*|tspt|tdah|toc|traumatisme|burn-?out)/i,
+      /\bdiagnosti\w*/i,
+      /\b(?:en tant que (?:votre|ton) th[ée]rapeute|en th[ée]rapie|s[ée]ance de th[ée]rapie|plan de traitement|psychoth[ée]rapie)/i,
+      /\b(?:m[ée]dicament\w*|antid[ée]presseur\w*|prescri\w*|ordonnance)/i,
+    ],
+    impersonation: [
+      /\bje ne suis pas une? (?:ia|bot|assistant|machine|robot)\b/i,
+      /\bje suis (?:une? )?(?:vraie? personne|[êe]tre humain|humaine?|vrai coach)\b/i,
+      /\bc['’]est (?:vraiment )?(?:votre|ton) coach\b/i,
+    ],
+  },
+  es: {
+    advice: [
+      /\b(?:deber[ií]as|debes|tienes que|tendr[ií]as que|hay que)\s+(.+)/i,
+      /\bte (?:recomiendo|aconsejo|sugiero)\b/i,
+      /\bmi consejo(?: para ti)? es\b/i,
+      /\bsi yo fuera t[uú]/i,
+      /\blo (?:mejor|correcto) (?:que puedes hacer )?es\b/i,
+    ],
+    adviceQuestion: (action) => (action ? `¿Qué haría falta para ${action}?` : '¿Qué te ayudaría a dar el siguiente paso?'),
+    therapy: [
+      /\b(?:tienes|sufres de|padeces)\s+(?:una? )?(?:depresi[oó]n|ansiedad|trastorno\w*|tept|tdah|toc|trauma|burnout)/i,
+      /\bdiagn[oó]stic\w*/i,
+      /\b(?:como tu terapeuta|en (?:nuestra )?terapia|sesi[oó]n de terapia|plan de tratamiento|psicoterapia)/i,
+      /\b(?:medicaci[oó]n|medicamentos?|antidepresivos?|recetar\w*)/i,
+    ],
+    impersonation: [
+      /\bno soy una? (?:ia|bot|asistente|m[aá]quina|robot)\b/i,
+      /\bsoy una? (?:persona real|humano|humana|coach de verdad)\b/i,
+      /\b(?:soy|habla) (?:de verdad )?tu coach\b/i,
+    ],
+  },
+};
+
+// twins speaking another language still get checked for English phrasings
+function patternsFor(language: TwinLanguageCode) {
+  return language === 'en' ? [PATTERNS.en] : [PATTERNS[language], PATTERNS.en];
+}
+
+function splitSentences(text: string) {
+  return text.match(/[^.!?…]+(?:[.!?…]+|$)\s*/g) || [];
+}
+
+// The part of a reply that is still streaming in that ends in a complete sentence. The unfinished
+// sentence after it may yet turn into something the checks catch, so it isn't shown until it ends.
+export function finishedSentences(text: string) {
+  const m = text.match(/^[\s\S]*[.!?…]+(?=\s)/);
+  return m ? m[0] : '';
+}
+
+const ACTION_WEIGHT: Record<GuardrailResult['action'], number> = { allow: 0, flag: 1, rewrite: 2, block: 3 };
+
+// "You should call her today." -> "What would it take to call her today?"
+function adviceAsQuestion(sentence: string, patterns: LanguagePatterns, action: string | undefined) {
+  const trailing = sentence.match(/\s*$/)?.[0] ?? '';
+  const body = action === undefined ? null : action.replace(/[.!?…\s]+$/, '');
+  return body === '' ? '' : `${patterns.adviceQuestion(body)}${trailing || ' '}`;
+}
+
+// The match of the first pattern that hits the sentence, across all pattern lists.
+function firstMatch(sentence: string, lists: RegExp[][]): RegExpMatchArray | null {
+  for (const list of lists) {
+    for (const pattern of list) {
+      const m = sentence.match(pattern);
+      if (m) return m;
+    }
+  }
+  return null;
+}
+
+export function checkMessage(text: string, config: GuardrailConfig): GuardrailResult {
+  const violations: GuardrailViolation[] = [];
+  const output: string[] = [];
+  const languages = patternsFor(config.language);
+
+  splitSentences(text).forEach((sentence) => {
+    let replacement: string | null = sentence;
+
+    config.bannedPhrases.forEach((phrase) => {
+      if (containsPhrase(sentence, phrase)) {
+        violations.push({ rule: 'banned-phrase', action: 'rewrite', match: phrase, reason: `Uses the banned phrase “${phrase}”` });
+        replacement = null;
+      }
+    });
+
+    // the twin's language and English both run, and e.g. "Diagnose" matches in each; one hit per
+    // sentence and rule is enough
+    const therapy = firstMatch(sentence, languages.map((patterns) => patterns.therapy));
+    if (therapy) {
+      violations.push({
+        rule: 'therapy',
+        action: config.noTherapy ? 'block' : 'flag',
+        match: therapy[0],
+        reason: 'Sounds like therapy or a diagnosis',
+      });
+    }
+
+    const impersonation = config.noImpersonation ? firstMatch(sentence, languages.map((patterns) => patterns.impersonation)) : null;
+    if (impersonation) violations.push({ rule: 'impersonation', action: 'block', match: impersonation[0], reason: 'Claims to be the coach or a human' });
+
+    if (config.noAdvice && replacement !== null) {
+      const patterns = languages.find(({ advice }) => advice.some((p) => p.test(sentence)));
+      if (patterns) {
+        const m = sentence.match(patterns.advice.find((p) => p.test(sentence)) as RegExp) as RegExpMatchArray;
+        violations.push({ rule: 'direct-advice', action: 'rewrite', match: m[0].trim(), reason: 'Gives direct advice instead of asking' });
+        replacement = adviceAsQuestion(sentence, patterns, m[1]);
+      }
+    }
+
+    if (replacement) output.push(replacement);
+  });
+
+  const action = violations.reduce<GuardrailResult['action']>((worst, v) => (ACTION_WEIGHT[v.action] > ACTION_WEIGHT[worst] ? v.action : worst), 'allow');
+  if (action === 'block') return { action, text: '', violations };
+  if (action === 'rewrite') {
+    const rewritten = output.join('').trim();
+    // nothing usable left after removing the offending sentences
+    if (!rewritten) return { action: 'block', text: '', violations };
+    return { action, text: rewritten, violations };
+  }
+  return { action, text, violations };
+}
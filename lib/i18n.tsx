@@ -0,0 +1,93 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import en from '@/locales/en.json';
+import nl from '@/locales/nl.json';
+
+// Message catalogs for the onboarding UI. Keys are flat ids ("identity.q1"); answer options are keyed
+// by their stored English value ("option.Give direct advice") so the profile keeps language-neutral
+// values while the buttons show translated labels. Missing keys fall back to English.
+// A published questionnaire can bring copy for its own keys (see `Messages`).
+// `node scripts/check-i18n.js` lists keys that are missing or still untranslated.
+
+export type Locale = 'en' | 'nl';
+export const DEFAULT_LOCALE: Locale = 'en';
+
+type Catalog = Record<string, string>;
+const CATALOGS: Record<Locale, Catalog> = { en, nl };
+
+// copy shipped with a published questionnaire; it wins over the catalogs for the keys it defines
+export type Messages = Partial<Record<Locale, Catalog>>;
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CATALOGS, value);
+}
+
+// onboarding language answers are stored as English names
+const LANGUAGE_LOCALES: Record<string, Locale> = { English: 'en', Dutch: 'nl' };
+
+export function localeForLanguage(language: string | null | undefined): Locale {
+  return (language && LANGUAGE_LOCALES[language]) || DEFAULT_LOCALE;
+}
+
+function interpolate(message: string, params?: MessageParams) {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (m, name) => (params[name] !== undefined ? String(params[name]) : m));
+}
+
+// the copy a locale itself has for a key, without the English fallback
+export function ownMessage(locale: Locale, key: string, messages?: Messages): string | undefined {
+  const own = messages && messages[locale];
+  return (own && own[key]) ?? CATALOGS[locale][key];
+}
+
+function lookup(locale: Locale, key: string, messages?: Messages): string | undefined {
+  return ownMessage(locale, key, messages) ?? ownMessage(DEFAULT_LOCALE, key, messages);
+}
+
+export function hasMessage(key: string, messages?: Messages) {
+  return lookup(DEFAULT_LOCALE, key, messages) !== undefined;
+}
+
+export function translate(locale: Locale, key: string, params?: MessageParams, messages?: Messages): string {
+  const message = lookup(locale, key, messages);
+  if (message === undefined) {
+    if (process.env.NODE_ENV !== 'production') {
+      // eslint-disable-next-line no-console
+      console.warn(`Missing translation for "${key}"`);
+    }
+    return key;
+  }
+  return interpolate(message, params);
+}
+
+export type Translator = {
+  locale: Locale;
+  t: (key: string, params?: MessageParams) => string;
+  // label for a stored option value; free-text answers without a catalog entry are shown as typed
+  opt: (value: string) => string;
+};
+
+export function createTranslator(locale: Locale, messages?: Messages): Translator {
+  return {
+    locale,
+    t: (key, params) => translate(locale, key, params, messages),
+    opt: (value) => lookup(locale, `option.${value}`, messages) ?? value,
+  };
+}
+
+const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export function I18nProvider({ locale, messages, children }: { locale: Locale; messages?: Messages; children: React.ReactNode }) {
+  const translator = useMemo(() => createTranslator(locale, messages), [locale, messages]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  return <I18nContext.Provider value={translator}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,106 @@
+import type { SetStateAction } from 'react';
+import { TwinProfile, createEmptyProfile, importTwinProfile } from '@/lib/twinProfile';
+import { BUILT_IN_QUESTIONNAIRE_VERSION } from '@/lib/onboardingQuestionnaire';
+
+export type OnboardingDraft = {
+  id: string;
+  updatedAt: number;
+  showStepper: boolean;
+  currentStep: number;
+  subIndex: number;
+  // questionnaire version the coach started on, null until they start; they stay on it to the end
+  questionnaireVersion: number | null;
+  profile: TwinProfile;
+};
+
+export const DRAFT_STORAGE_KEY = 'coachnova.onboardingDraft';
+
+export function createDraftId() {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  return `d${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function isDraftId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9-]{8,64}$/.test(id);
+}
+
+export function createEmptyDraft(id = createDraftId()): OnboardingDraft {
+  return { id, updatedAt: 0, showStepper: false, currentStep: 0, subIndex: 0, questionnaireVersion: null, profile: createEmptyProfile() };
+}
+
+// Accepts anything read back from storage and fills gaps with defaults. Drafts saved before the
+// TwinProfile model kept a flat `answers` object; importTwinProfile migrates those. Drafts started
+// before questionnaires were versioned were answering the built-in one.
+export function normalizeDraft(raw: unknown): OnboardingDraft | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const doc = raw as Record<string, unknown>;
+  if (!isDraftId(doc.id)) return null;
+  const imported = importTwinProfile(doc.profile ?? doc.answers ?? {});
+  const count = (value: unknown) => (typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : 0);
+  const pinned = typeof doc.questionnaireVersion === 'number' && Number.isInteger(doc.questionnaireVersion) && doc.questionnaireVersion >= 1 ? doc.questionnaireVersion : null;
+  return {
+    id: doc.id,
+    updatedAt: typeof doc.updatedAt === 'number' && isFinite(doc.updatedAt) ? doc.updatedAt : 0,
+    showStepper: !!doc.showStepper,
+    currentStep: count(doc.currentStep),
+    subIndex: count(doc.subIndex),
+    questionnaireVersion: pinned ?? (doc.showStepper ? BUILT_IN_QUESTIONNAIRE_VERSION : null),
+    profile: imported.ok ? imported.profile : createEmptyProfile(),
+  };
+}
+
+export function applyAction<T>(prev: T, action: SetStateAction<T>): T {
+  return typeof action === 'function' ? (action as (p: T) => T)(prev) : action;
+}
+
+export function loadLocalDraft(): OnboardingDraft | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(DRAFT_STORAGE_KEY);
+    return raw ? normalizeDraft(JSON.parse(raw)) : null;
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.warn('Could not read onboarding draft', e);
+    return null;
+  }
+}
+
+export function saveLocalDraft(draft: OnboardingDraft) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+  } catch (e) {
+    // quota exceeded or storage disabled (private mode) — the server copy still applies
+    // eslint-disable-next-line no-console
+    console.warn('Could not save onboarding draft', e);
+  }
+}
+
+export function clearLocalDraft() {
+  if (typeof window === 'undefined') return;
+  try { window.localStorage.removeItem(DRAFT_STORAGE_KEY); } catch (e) { /* ignore */ }
+}
+
+export async function fetchServerDraft(id: string): Promise<OnboardingDraft | null> {
+  try {
+    const res = await fetch(`/api/drafts/${encodeURIComponent(id)}`);
+    if (!res.ok) return null;
+    return normalizeDraft(await res.json().catch(() => null));
+  } catch (e) {
+    // static deployments have no API routes; local draft is enough there
+    return null;
+  }
+}
+
+export async function saveServerDraft(draft: OnboardingDraft) {
+  try {
+    await fetch(`/api/drafts/${encodeURIComponent(draft.id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(draft),
+    });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.debug('Server draft save failed', e instanceof Error ? e.message : e);
+  }
+}
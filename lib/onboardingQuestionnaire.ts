@@ -0,0 +1,224 @@
+import { Questionnaire } from '@/lib/questionnaire';
+import { OFFERED_TWIN_LANGUAGES } from '@/lib/twinLanguages';
+
+// The onboarding questionnaire shown before the Preview step (which stays hand-built, see
+// components/PreviewStep). Option values are the stored English answers the persona, preview and
+// guardrails key off, so renaming one here needs a profile migration.
+
+const permissionColumns = [
+  { value: 'never' as const, label: 'guardrails.q3.never' },
+  { value: 'review' as const, label: 'guardrails.q3.review' },
+  { value: 'independent' as const, label: 'guardrails.q3.independent' },
+];
+
+// published versions (see lib/server/questionnaires) are numbered after this one
+export const BUILT_IN_QUESTIONNAIRE_VERSION = 1;
+
+export const ONBOARDING_QUESTIONNAIRE: Questionnaire = {
+  steps: [
+    {
+      id: 'language',
+      label: 'step.language',
+      intro: { title: 'step.language', subtitle: 'language.intro.subtitle', body: 'language.intro.body' },
+      questions: [
+        {
+          id: 'onboarding',
+          kind: 'single',
+          field: 'language.onboarding',
+          title: 'language.q1',
+          options: ['English', 'Dutch'],
+          optionEmoji: { English: '🇬🇧', Dutch: '🇳🇱' },
+          layout: 'inline',
+          error: 'language.error.q1',
+        },
+        {
+          id: 'twin',
+          kind: 'single',
+          field: 'language.twin',
+          title: 'language.q2',
+          options: OFFERED_TWIN_LANGUAGES.map((l) => l.name),
+          optionEmoji: OFFERED_TWIN_LANGUAGES.reduce<Record<string, string>>((m, l) => ({ ...m, [l.name]: l.flag }), {}),
+          layout: 'inline',
+          error: 'language.error.q2',
+        },
+      ],
+      done: { title: 'language.done', icon: 'chat' },
+    },
+    {
+      id: 'identity',
+      label: 'step.identity',
+      intro: { title: 'identity.intro.title', subtitle: 'identity.intro.subtitle', body: 'identity.intro.body' },
+      questions: [
+        { id: 'clientQuote', kind: 'text', field: 'identity.clientQuote', title: 'identity.q1', hint: 'identity.q1.hint', placeholder: 'identity.q1.placeholder' },
+        {
+          id: 'tone',
+          kind: 'multi',
+          field: 'identity.tone',
+          title: 'identity.q2',
+          hint: 'identity.q2.hint',
+          options: ['Direct', 'Warm', 'Curious', 'Challenging', 'Calm', 'Energetic'],
+          optionEmoji: { Direct: '🔊', Warm: '🤝', Curious: '❓', Challenging: '⚡', Calm: '🌿', Energetic: '🔥' },
+          max: 2,
+          other: { placeholder: 'common.describe' },
+          error: 'identity.error.q2',
+        },
+        {
+          id: 'signaturePhrase',
+          kind: 'single',
+          field: 'identity.signaturePhrase',
+          title: 'identity.q3',
+          hint: 'identity.q3.hint',
+          options: ['What if…', 'Tell me more', 'How do you know?', 'What’s the cost of not changing?', 'What’s true for you right now?', 'Say more about that'],
+          emoji: '💬',
+          layout: 'list',
+          other: { placeholder: 'identity.q3.placeholder' },
+          translation: { field: 'identity.twinSignaturePhrase', label: 'identity.q3.twin', hint: 'identity.q3.twinHint' },
+          error: 'identity.error.q3',
+        },
+        {
+          id: 'bannedPhrase',
+          kind: 'single',
+          field: 'identity.bannedPhrase',
+          title: 'identity.q4',
+          options: ['You must…', 'Everything happens for a reason', 'Just be positive', 'It’s not that bad', 'Follow my advice', 'Calm down'],
+          emoji: '🚫',
+          layout: 'list',
+          other: { placeholder: 'identity.q4.placeholder' },
+          error: 'identity.error.q4',
+        },
+        {
+          id: 'clientTypes',
+          kind: 'multi',
+          field: 'identity.clientTypes',
+          title: 'identity.q5',
+          hint: 'common.selectAll',
+          options: ['Founders', 'Senior managers', 'Teams', 'High potentials', 'Entrepreneurs', 'Corporate leaders'],
+          emoji: '👥',
+          other: { placeholder: 'common.describe' },
+          required: false,
+        },
+      ],
+      done: { title: 'identity.done.title', body: 'identity.done.body', icon: 'smile' },
+    },
+    {
+      id: 'method',
+      label: 'step.method',
+      intro: { title: 'method.intro.title', subtitle: 'method.intro.subtitle', body: 'method.intro.body' },
+      questions: [
+        {
+          id: 'approach',
+          kind: 'single',
+          field: 'method.approach',
+          title: 'method.q1',
+          hint: 'common.selectOne',
+          options: ['ICF / Co-Active', 'Solution-focused', 'Cognitive-behavioral (CBT)', 'Somatic / body-based', 'Narrative', 'Systemic', 'My own mix'],
+          emoji: '🎯',
+          other: { placeholder: 'common.describe' },
+          error: 'method.error.q1',
+        },
+        {
+          id: 'belief',
+          kind: 'single',
+          field: 'method.belief',
+          title: 'method.q2',
+          hint: 'common.selectOne',
+          options: ['…people take responsibility', '…they get out of their comfort zone', '…they connect to their values', '…they stop trying to fix themselves', '…they feel safe to be vulnerable', '…they commit to action'],
+          emoji: '🔎',
+          layout: 'list',
+          other: { placeholder: 'common.describe' },
+          error: 'method.error.q2',
+        },
+        {
+          id: 'metaphor',
+          kind: 'single',
+          field: 'method.metaphor',
+          title: 'method.q3',
+          hint: 'common.selectOne',
+          options: ['Life is a journey', 'Climbing a mountain', 'Crossing a river', 'Riding a bike', 'Navigating a storm', 'Planting seeds'],
+          emoji: '🌟',
+          other: { placeholder: 'common.describe' },
+          error: 'method.error.q3',
+        },
+      ],
+      done: { title: 'method.done.title', body: 'method.done.body', icon: 'content' },
+    },
+    {
+      id: 'example',
+      label: 'step.example',
+      intro: { title: 'example.intro.title', subtitle: 'example.intro.subtitle', body: 'example.intro.body' },
+      questions: [
+        {
+          id: 'breakthrough',
+          kind: 'single',
+          field: 'example.breakthrough',
+          title: 'example.q1',
+          hint: 'common.selectOne',
+          options: ['Client avoided a hard conversation', 'Client lacked confidence', 'Client procrastinated', 'Client overwhelmed by change', 'Client conflicted about values', 'Client reached success but felt empty'],
+          emoji: '🟣',
+          layout: 'list',
+          other: { placeholder: 'common.describe' },
+        },
+        {
+          id: 'intervention',
+          kind: 'single',
+          field: 'example.intervention',
+          title: 'example.q2',
+          hint: 'common.selectOne',
+          options: ['Asked a deeper question', 'Named the resistance', 'Reframed perspective', 'Reflected client\'s words', 'Brought in a metaphor', 'Created a pause/silence', 'Invited attention to the body', 'Challenged an unhelpful thought', 'Asked about exceptions'],
+          // interventions that belong to one coaching approach only show for coaches working that way
+          optionVisibility: {
+            'Invited attention to the body': { showIf: { field: 'method.approach', anyOf: ['Somatic / body-based'] } },
+            'Challenged an unhelpful thought': { showIf: { field: 'method.approach', anyOf: ['Cognitive-behavioral (CBT)'] } },
+            'Asked about exceptions': { showIf: { field: 'method.approach', anyOf: ['Solution-focused'] } },
+          },
+          emoji: '🔹',
+          layout: 'list',
+          other: { placeholder: 'common.describe' },
+        },
+        { id: 'dialogue', kind: 'textarea', field: 'example.dialogue', title: 'example.q3', hint: 'example.q3.hint', placeholder: 'example.q3.placeholder', error: 'example.error.q3' },
+      ],
+      done: { title: 'example.done.title', body: 'example.done.body', icon: 'grin' },
+    },
+    {
+      id: 'guardrails',
+      label: 'step.guardrails',
+      intro: { title: 'guardrails.intro.title', subtitle: 'guardrails.intro.subtitle', body: 'guardrails.intro.body' },
+      questions: [
+        {
+          id: 'neverDo',
+          kind: 'multi',
+          field: 'guardrails.neverDo',
+          title: 'guardrails.q1',
+          hint: 'common.selectAll',
+          options: ['Give direct advice', 'Act like therapy', 'Handle crises alone', 'Pretend to be you', 'Share personal details', 'Work with clients in crisis'],
+          emoji: '🚫',
+          other: { placeholder: 'common.describe' },
+        },
+        {
+          id: 'disclosure',
+          kind: 'single',
+          field: 'guardrails.disclosure',
+          title: 'guardrails.q2',
+          hint: 'common.selectOne',
+          options: ['Always labeled “AI Assistant”', 'Different interface/platform', 'AI introduces itself', 'Clients opt-in to AI'],
+          emoji: 'ℹ️',
+          layout: 'list',
+          other: { placeholder: 'common.describe' },
+        },
+        {
+          id: 'permissions',
+          kind: 'matrix',
+          field: 'guardrails.permissions',
+          title: 'guardrails.q3',
+          hint: 'guardrails.q3.hint',
+          rows: ['Check ins', 'Homework', 'Goal reminders', 'Reflection prompts', 'Celebrate progress', 'Suggest resources', 'Handle emotions', 'Scheduling'],
+          // a coach who keeps the twin away from clients in crisis leaves emotional messages at the default (never)
+          rowVisibility: { 'Handle emotions': { skipIf: { field: 'guardrails.neverDo', anyOf: ['Work with clients in crisis'] } } },
+          columns: permissionColumns,
+          error: 'guardrails.error.q3',
+        },
+      ],
+      done: { title: 'guardrails.done.title', body: 'guardrails.done.body', icon: 'check' },
+    },
+  ],
+};
@@ -0,0 +1,72 @@
+import { Questionnaire, questionError, visibleQuestions } from '@/lib/questionnaire';
+import { TwinProfile } from '@/lib/twinProfile';
+
+// Onboarding positions as URLs: /onboarding/<step id>/<n>, where n counts the step's sub-steps from
+// 1 (its questions, then the closing panel). The Preview step that follows the questionnaire has
+// its own fixed sub-steps. Links can't skip ahead: a position past the first unanswered required
+// question resolves to that question.
+
+export const ONBOARDING_BASE = '/onboarding';
+export const PREVIEW_STEP_ID = 'preview';
+// the preview card, the coach's verdict and the closing panel (components/PreviewStep)
+export const PREVIEW_SUB_STEPS = 3;
+
+export type OnboardingPosition = { step: number; subIndex: number };
+
+// What a URL asks for; `subIndex` is null when the URL names just the step.
+export type OnboardingRoute = { stepId: string | null; subIndex: number | null };
+
+export function onboardingPath(stepId: string, subIndex: number) {
+  return `${ONBOARDING_BASE}/${encodeURIComponent(stepId)}/${subIndex + 1}`;
+}
+
+// Reads the segments after the site root; null for anything outside /onboarding.
+export function parseOnboardingSlug(slug: string[]): OnboardingRoute | null {
+  if (slug[0] !== ONBOARDING_BASE.slice(1) || slug.length > 3) return null;
+  const n = slug[2] !== undefined && /^[1-9]\d{0,2}$/.test(slug[2]) ? Number(slug[2]) : null;
+  return { stepId: slug[1] ?? null, subIndex: n === null ? null : n - 1 };
+}
+
+export function stepIds(questionnaire: Questionnaire) {
+  return [...questionnaire.steps.map((s) => s.id), PREVIEW_STEP_ID];
+}
+
+function lastSubIndex(questionnaire: Questionnaire, step: number, profile: TwinProfile) {
+  const def = questionnaire.steps[step];
+  return def ? visibleQuestions(def, profile).length : PREVIEW_SUB_STEPS - 1;
+}
+
+// The furthest position the answers so far allow: the first required question still unanswered,
+// or else the very end (nothing in the Preview step is required).
+export function furthestPosition(questionnaire: Questionnaire, profile: TwinProfile): OnboardingPosition {
+  for (let step = 0; step < questionnaire.steps.length; step++) {
+    const questions = visibleQuestions(questionnaire.steps[step], profile);
+    const blocked = questions.findIndex((q, i) => questionError(q, i, profile) !== null);
+    if (blocked >= 0) return { step, subIndex: blocked };
+  }
+  const preview = questionnaire.steps.length;
+  return { step: preview, subIndex: PREVIEW_SUB_STEPS - 1 };
+}
+
+// Where a route actually leads: unknown steps fall back to `current`, sub-steps are clamped to the
+// step, and nothing goes past furthestPosition.
+export function resolveRoute(route: OnboardingRoute, questionnaire: Questionnaire, profile: TwinProfile, current: OnboardingPosition): OnboardingPosition {
+  const step = route.stepId === null ? -1 : stepIds(questionnaire).indexOf(route.stepId);
+  const wanted = step < 0 ? current : { step, subIndex: Math.min(route.subIndex ?? 0, lastSubIndex(questionnaire, step, profile)) };
+  const furthest = furthestPosition(questionnaire, profile);
+  const beyond = wanted.step > furthest.step || (wanted.step === furthest.step && wanted.subIndex > furthest.subIndex);
+  return beyond ? furthest : wanted;
+}
+
+// every URL a coach can land on for a questionnaire, for the static export
+export function allOnboardingSlugs(questionnaire: Questionnaire): string[][] {
+  const base = ONBOARDING_BASE.slice(1);
+  return stepIds(questionnaire).reduce<string[][]>((slugs, id, step) => {
+    // every question could be visible, so count them all
+    const def = questionnaire.steps[step];
+    const subSteps = def ? def.questions.length + 1 : PREVIEW_SUB_STEPS;
+    slugs.push([base, id]);
+    for (let n = 1; n <= subSteps; n++) slugs.push([base, id, String(n)]);
+    return slugs;
+  }, [[base]]);
+}
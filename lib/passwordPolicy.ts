@@ -0,0 +1,75 @@
+// Password rules shared by the sign-up form, the password reset page and the server. A password has
+// to meet every rule; the strength score on top of that only nudges the coach towards a better one.
+// Rule and strength labels are message keys: password.rule.<rule>, password.strength.<score>.
+
+export const PASSWORD_MIN_LENGTH = 8;
+// scrypt hashes the whole input, so there is a ceiling
+export const PASSWORD_MAX_LENGTH = 128;
+
+export const PASSWORD_RULES = ['length', 'common', 'personal'] as const;
+export type PasswordRule = typeof PASSWORD_RULES[number];
+
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4;
+
+export type PasswordCheck = {
+  // true for each rule the password meets
+  rules: Record<PasswordRule, boolean>;
+  ok: boolean;
+  strength: PasswordStrength;
+};
+
+// the most common choices in breach lists, lowercased; trailing digits and symbols are stripped
+// before comparing, so "Password123!" counts as "password"
+const COMMON_PASSWORDS = [
+  'password', 'passw0rd', 'qwerty', 'qwertyuiop', 'asdfghjkl', 'azerty', 'abc', 'abcdef', 'abcdefgh',
+  'letmein', 'welcome', 'iloveyou', 'admin', 'administrator', 'login', 'master', 'monkey', 'dragon',
+  'football', 'baseball', 'sunshine', 'princess', 'shadow', 'superman', 'trustno', 'whatever',
+  'starwars', 'freedom', 'secret', 'changeme', 'coach', 'coaching', 'coachnova', 'wachtwoord', 'geheim',
+];
+
+const strip = (password: string) => password.toLowerCase().replace(/[\d\W_]+$/, '');
+
+function isCommon(password: string) {
+  const core = strip(password);
+  // all digits ("12345678") or one character repeated ("aaaaaaaa")
+  if (!core || /^(.)\1*$/.test(password)) return true;
+  return COMMON_PASSWORDS.indexOf(core) >= 0;
+}
+
+// `personal` is what the coach told us about themselves: names and email. Parts shorter than three
+// characters are too likely to turn up by chance to count.
+function containsPersonal(password: string, personal: string[]) {
+  const lower = password.toLowerCase();
+  return personal
+    .reduce<string[]>((parts, value) => parts.concat(value.toLowerCase().split(/[^a-z0-9]+/)), [])
+    .some((part) => part.length >= 3 && lower.indexOf(part) >= 0);
+}
+
+export function checkPassword(password: string, personal: string[] = []): PasswordCheck {
+  const rules: Record<PasswordRule, boolean> = {
+    length: password.length >= PASSWORD_MIN_LENGTH && password.length <= PASSWORD_MAX_LENGTH,
+    common: !isCommon(password),
+    personal: !containsPersonal(password, personal),
+  };
+  const ok = PASSWORD_RULES.every((rule) => rules[rule]);
+
+  // length counts most, then variety; a password that breaks a rule is weak whatever else it has
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) => re.test(password)).length;
+  let score = 0;
+  if (password.length >= PASSWORD_MIN_LENGTH) score++;
+  if (password.length >= 12) score++;
+  if (password.length >= 16) score++;
+  if (classes >= 3) score++;
+  const strength = (ok ? Math.min(score, 4) : Math.min(score, 1)) as PasswordStrength;
+  return { rules, ok, strength };
+}
+
+// The message key for the first rule a password breaks, or null when it passes.
+export function passwordError(password: string, personal: string[] = []): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) return 'validation.password.tooShort';
+  if (password.length > PASSWORD_MAX_LENGTH) return 'validation.password.tooLong';
+  const { rules } = checkPassword(password, personal);
+  if (!rules.common) return 'validation.password.common';
+  if (!rules.personal) return 'validation.password.personal';
+  return null;
+}
@@ -0,0 +1,76 @@
+import { Permission, TwinProfile } from '@/lib/twinProfile';
+
+// Decides whether the twin may do something on its own, must queue it for the coach, or must not do it
+// at all, based on the "How much should your Twin do on its own?" matrix from the Guardrails step.
+// Anything the twin does for a client should ask `decideTwinAction` first.
+
+export type TwinAction =
+  | 'check-in'
+  | 'homework'
+  | 'goal-reminder'
+  | 'reflection-prompt'
+  | 'celebrate-progress'
+  | 'suggest-resource'
+  | 'handle-emotions'
+  | 'scheduling';
+
+export type PolicyDecision = 'allow' | 'queue' | 'deny';
+
+export type PolicyResult = {
+  action: TwinAction;
+  decision: PolicyDecision;
+  permission: Permission;
+  // 'coach' when the coach answered this row, 'default' when the fallback below applied
+  source: 'coach' | 'default';
+  explanation: string;
+};
+
+type ActionInfo = { area: string; label: string; defaultPermission: Permission };
+
+// `area` is the row label stored in `guardrails.permissions`
+export const TWIN_ACTIONS: Record<TwinAction, ActionInfo> = {
+  'check-in': { area: 'Check ins', label: 'send a check-in', defaultPermission: 'review' },
+  homework: { area: 'Homework', label: 'set homework', defaultPermission: 'review' },
+  'goal-reminder': { area: 'Goal reminders', label: 'send a goal reminder', defaultPermission: 'review' },
+  'reflection-prompt': { area: 'Reflection prompts', label: 'send a reflection prompt', defaultPermission: 'review' },
+  'celebrate-progress': { area: 'Celebrate progress', label: 'celebrate progress', defaultPermission: 'review' },
+  'suggest-resource': { area: 'Suggest resources', label: 'suggest a resource', defaultPermission: 'review' },
+  // emotional conversations stay with the coach unless they explicitly allow otherwise
+  'handle-emotions': { area: 'Handle emotions', label: 'respond to an emotional message', defaultPermission: 'never' },
+  scheduling: { area: 'Scheduling', label: 'schedule a session', defaultPermission: 'review' },
+};
+
+export const TWIN_ACTION_TYPES = Object.keys(TWIN_ACTIONS) as TwinAction[];
+
+export function isTwinAction(value: unknown): value is TwinAction {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(TWIN_ACTIONS, value);
+}
+
+const DECISIONS: Record<Permission, PolicyDecision> = { never: 'deny', review: 'queue', independent: 'allow' };
+
+const EXPLANATIONS: Record<PolicyDecision, (label: string) => string> = {
+  allow: (label) => `Your Twin may ${label} on its own`,
+  queue: (label) => `Your Twin may prepare to ${label}, but you approve it before the client sees it`,
+  deny: (label) => `Your Twin will never ${label}`,
+};
+
+type Permissions = TwinProfile['guardrails']['permissions'];
+
+export function decideTwinAction(permissions: Permissions, action: TwinAction): PolicyResult {
+  const info = TWIN_ACTIONS[action];
+  const chosen = permissions[info.area] ?? null;
+  const permission = chosen ?? info.defaultPermission;
+  const decision = DECISIONS[permission];
+  const source = chosen ? 'coach' : 'default';
+  const reason = source === 'coach' ? `your setting for “${info.area}”` : `default, you have not chosen a setting for “${info.area}” yet`;
+  return { action, decision, permission, source, explanation: `${EXPLANATIONS[decision](info.label)} (${reason}).` };
+}
+
+// The effective permission for every matrix row, with defaults filled in.
+export function resolvePermissions(permissions: Permissions): Record<string, Permission> {
+  const resolved: Record<string, Permission> = {};
+  TWIN_ACTION_TYPES.forEach((action) => {
+    resolved[TWIN_ACTIONS[action].area] = decideTwinAction(permissions, action).permission;
+  });
+  return resolved;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildPersonaRules, compilePersona, renderSystemPrompt } from '@/lib/persona';
+import { TwinProfile, createEmptyProfile } from '@/lib/twinProfile';
+
+// The rendered prompts are snapshotted so every wording change shows up in review as a diff of
+// what the model is told. Update them with `npx vitest run -u` once the change is intended.
+
+const choice = (selected: string | null, otherText = '') => ({ selected, otherOpen: !!otherText, otherText });
+const multi = (selected: string[], otherText = '') => ({ selected, otherOpen: !!otherText, otherText });
+
+function completeProfile(twin: string): TwinProfile {
+  const profile = createEmptyProfile();
+  profile.language = { onboarding: 'English', twin };
+  profile.identity = {
+    clientQuote: 'She asks the question I was avoiding',
+    tone: multi(['Direct', 'Warm'], 'Playful'),
+    signaturePhrase: choice('Tell me more'),
+    twinSignaturePhrase: '',
+    bannedPhrase: choice('You must…'),
+    clientTypes: multi(['Executives', 'Career switchers']),
+  };
+  profile.method = { approach: choice('Solution-focused'), belief: choice('…they commit to action'), metaphor: choice('Climbing a mountain') };
+  profile.example = {
+    breakthrough: choice('A client finally quit the job that drained them'),
+    intervention: choice('Asked about exceptions'),
+    dialogue: 'Client: I can’t do this.\nCoach: When did you last manage something like it?',
+  };
+  profile.guardrails = {
+    neverDo: multi(['Give medical advice', 'Work with clients in crisis']),
+    disclosure: choice('AI introduces itself'),
+    permissions: { 'Check ins': 'independent', Homework: 'review', 'Handle emotions': 'never' },
+  };
+  profile.preview = { rating: 8, directness: 9, warmth: 6, challenge: 2, thumb: 'up', feedback: 'accept' };
+  return profile;
+}
+
+describe('renderSystemPrompt', () => {
+  it('renders a complete English profile', () => {
+    expect(compilePersona(completeProfile('English')).systemPrompt).toMatchSnapshot();
+  });
+
+  it('renders a complete Dutch profile', () => {
+    expect(compilePersona(completeProfile('Dutch')).systemPrompt).toMatchSnapshot();
+  });
+
+  it('renders a Dutch profile with the coach’s own signature phrase', () => {
+    const profile = completeProfile('Dutch');
+    profile.identity.twinSignaturePhrase = 'Vertel me meer daarover';
+    profile.identity.signaturePhrase = choice(null, 'Say it like you mean it');
+    expect(compilePersona(profile).systemPrompt).toMatchSnapshot();
+  });
+
+  it('renders an empty profile with only the fixed sections and defaults', () => {
+    expect(compilePersona(createEmptyProfile()).systemPrompt).toMatchSnapshot();
+  });
+
+  it('is deterministic', () => {
+    const profile = completeProfile('Dutch');
+    expect(renderSystemPrompt(buildPersonaRules(profile))).toBe(renderSystemPrompt(buildPersonaRules(JSON.parse(JSON.stringify(profile)))));
+  });
+});
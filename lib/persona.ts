@@ -0,0 +1,173 @@
+import { resolvePermissions } from '@/lib/permissions';
+import { TwinLanguageCode, localizePhrase, twinLanguageFor } from '@/lib/twinLanguages';
+import { Permission, TwinProfile, choiceValue, multiChoiceValues } from '@/lib/twinProfile';
+
+// Machine-readable summary of the twin's behaviour; the system prompt is rendered from it.
+export type PersonaRules = {
+  version: 1;
+  language: string;
+  identity: {
+    clientQuote: string | null;
+    tone: string[];
+    signaturePhrase: string | null;
+    bannedPhrases: string[];
+    clientTypes: string[];
+  };
+  method: { approach: string | null; belief: string | null; metaphor: string | null };
+  example: { breakthrough: string | null; intervention: string | null; dialogue: string | null };
+  style: { directness: number; warmth: number; challenge: number };
+  guardrails: {
+    neverDo: string[];
+    disclosure: string | null;
+    permissions: Record<string, Permission>;
+  };
+};
+
+export type CompiledPersona = { systemPrompt: string; rules: PersonaRules };
+
+const DEFAULT_LANGUAGE = 'English';
+
+const text = (v: string | null | undefined) => {
+  const t = (v || '').trim();
+  return t ? t : null;
+};
+
+// Belief options are written as continuations ("…they commit to action") of `lead`.
+export function beliefSentence(belief: string, lead = 'Real change happens when') {
+  const rest = belief.replace(/^(…|\.\.\.)\s*/, '');
+  return rest.toLowerCase().indexOf(lead.toLowerCase()) === 0 ? rest : `${lead} ${rest}`;
+}
+
+function level(value: number, low: string, mid: string, high: string) {
+  if (value <= 3) return low;
+  if (value >= 8) return high;
+  return mid;
+}
+
+// The signature phrase as the twin says it: the coach's own wording in the twin's language, else the
+// translated preset, else the phrase as answered.
+export function twinSignaturePhrase(profile: TwinProfile): string | null {
+  const own = text(profile.identity.twinSignaturePhrase);
+  if (own) return own;
+  const phrase = choiceValue(profile.identity.signaturePhrase);
+  return phrase ? localizePhrase(twinLanguageFor(profile.language.twin), phrase) : null;
+}
+
+const PERMISSION_TEXT: Record<Permission, string> = {
+  never: 'never do this',
+  review: 'draft it, but the coach must approve before the client sees it',
+  independent: 'may do this on your own',
+};
+
+export function buildPersonaRules(profile: TwinProfile): PersonaRules {
+  const { identity, method, example, guardrails, preview } = profile;
+  const banned = choiceValue(identity.bannedPhrase);
+  const language = text(profile.language.twin) || DEFAULT_LANGUAGE;
+  // banned in the coach's wording and in the twin's language
+  const bannedPhrases = banned ? [banned, localizePhrase(twinLanguageFor(language), banned)] : [];
+
+  return {
+    version: 1,
+    language,
+    identity: {
+      clientQuote: text(identity.clientQuote),
+      tone: multiChoiceValues(identity.tone),
+      signaturePhrase: twinSignaturePhrase(profile),
+      bannedPhrases: bannedPhrases.filter((p, i) => bannedPhrases.indexOf(p) === i),
+      clientTypes: multiChoiceValues(identity.clientTypes),
+    },
+    method: {
+      approach: choiceValue(method.approach),
+      belief: choiceValue(method.belief),
+      metaphor: choiceValue(method.metaphor),
+    },
+    example: {
+      breakthrough: choiceValue(example.breakthrough),
+      intervention: choiceValue(example.intervention),
+      dialogue: text(example.dialogue),
+    },
+    style: { directness: preview.directness, warmth: preview.warmth, challenge: preview.challenge },
+    guardrails: {
+      neverDo: multiChoiceValues(guardrails.neverDo),
+      disclosure: choiceValue(guardrails.disclosure),
+      // rows the coach skipped get the policy defaults, so the prompt matches what is enforced
+      permissions: resolvePermissions(guardrails.permissions),
+    },
+  };
+}
+
+// How the twin addresses clients; formality differs per language.
+const ADDRESS_NOTES: Record<TwinLanguageCode, string | null> = {
+  en: null,
+  nl: 'Address the client informally with "je" unless they write to you with "u".',
+  de: 'Address the client with "du" unless they write to you with "Sie"; then switch to "Sie".',
+  fr: 'Address the client with "vous" unless they write to you with "tu"; then switch to "tu".',
+  es: 'Address the client with "tú" unless they write to you with "usted".',
+};
+
+export function renderSystemPrompt(rules: PersonaRules): string {
+  const { identity, method, example, style, guardrails } = rules;
+  const lines: string[] = [];
+  const section = (title: string, body: string[]) => {
+    if (!body.length) return;
+    lines.push('', `## ${title}`, ...body);
+  };
+
+  lines.push(
+    'You are the AI Twin of a professional coach. You support their clients between sessions in the coach\'s own voice.',
+    'You are an AI assistant, not the coach, and you never claim otherwise.',
+  );
+
+  section('Voice', [
+    identity.clientQuote && `- Clients describe the coach as: "${identity.clientQuote}"`,
+    identity.tone.length > 0 && `- Tone: ${identity.tone.join(', ')}.`,
+    identity.signaturePhrase && `- Signature phrase, use it naturally and sparingly: "${identity.signaturePhrase}"`,
+    ...identity.bannedPhrases.map((p) => `- Never say: "${p}"`),
+    identity.clientTypes.length > 0 && `- Typical clients: ${identity.clientTypes.join(', ')}.`,
+  ].filter(Boolean) as string[]);
+
+  section('Method', [
+    method.approach && `- Coaching approach: ${method.approach}.`,
+    method.belief && `- Core belief: ${beliefSentence(method.belief)}.`,
+    method.metaphor && `- Favourite metaphor: "${method.metaphor}". Use it when it helps the client see their situation differently.`,
+  ].filter(Boolean) as string[]);
+
+  section('Style', [
+    `- Directness ${style.directness}/10: ${level(style.directness, 'ask gently and leave room', 'be clear without pushing', 'get to the point quickly and name what you see')}.`,
+    `- Warmth ${style.warmth}/10: ${level(style.warmth, 'stay neutral and matter-of-fact', 'be friendly and encouraging', 'lead with empathy and acknowledge feelings first')}.`,
+    `- Challenge ${style.challenge}/10: ${level(style.challenge, 'be supportive and affirming', 'challenge assumptions when it matters', 'confront avoidance and hold the client to their commitments')}.`,
+    '- Ask one question at a time. Keep replies short.',
+  ]);
+
+  const exampleBody = [
+    example.breakthrough && `- A breakthrough the coach is proud of: ${example.breakthrough}.`,
+    example.intervention && `- What made the difference: ${example.intervention}.`,
+  ].filter(Boolean) as string[];
+  if (example.dialogue) exampleBody.push('- Example dialogue in the coach\'s words:', '"""', example.dialogue, '"""');
+  section('Examples', exampleBody);
+
+  const permissionAreas = Object.keys(guardrails.permissions);
+  section('Guardrails', [
+    ...guardrails.neverDo.map((n) => `- Never: ${n.charAt(0).toLowerCase()}${n.slice(1)}.`),
+    guardrails.disclosure && `- How clients know you are an AI: ${guardrails.disclosure}.`,
+    ...permissionAreas.map((area) => `- ${area}: ${PERMISSION_TEXT[guardrails.permissions[area]]}.`),
+    '- If a client is in crisis or at risk, stop coaching and point them to the coach and to emergency services.',
+  ].filter(Boolean) as string[]);
+
+  const language = twinLanguageFor(rules.language);
+  const translated = rules.language !== DEFAULT_LANGUAGE;
+  const addressNote = language.name === rules.language ? ADDRESS_NOTES[language.code] : null;
+  section('Language', [
+    `- Always reply in ${rules.language}.`,
+    translated && `- Some of the coach's answers above may be in another language. Carry their meaning over into ${rules.language} instead of quoting them, except for the signature phrase.`,
+    addressNote && `- ${addressNote}`,
+  ].filter(Boolean) as string[]);
+
+  return lines.join('\n');
+}
+
+// Deterministic: the same profile always yields the same prompt, so prompt changes show up in review.
+export function compilePersona(profile: TwinProfile): CompiledPersona {
+  const rules = buildPersonaRules(profile);
+  return { systemPrompt: renderSystemPrompt(rules), rules };
+}
@@ -0,0 +1,65 @@
+import { beliefSentence, twinSignaturePhrase } from '@/lib/persona';
+import { PREVIEW_TEXT, PreviewMode } from '@/lib/previewText';
+import { twinLanguageFor } from '@/lib/twinLanguages';
+import { TwinProfile, choiceValue, multiChoiceValues } from '@/lib/twinProfile';
+
+// Composes the Preview step's sample messages from the coach's own answers, in the twin's language.
+// Slider values choose the register; `variant` rotates through alternative wordings for the
+// "Regenerate" control.
+
+export type PreviewStyle = { directness: number; warmth: number; challenge: number };
+
+export type PreviewMessages = {
+  greeting: string;
+  reflection: string;
+  followUp: string;
+};
+
+function modeFor({ directness, warmth }: PreviewStyle): PreviewMode {
+  if (warmth >= 7 && warmth > directness) return 'warm';
+  if (directness >= 7 && directness >= warmth) return 'direct';
+  return 'balanced';
+}
+
+const pick = <T>(list: T[], n: number) => list[((n % list.length) + list.length) % list.length];
+
+// skips a leading "¿" or "¡" so Spanish questions are capitalised too
+const upperFirst = (s: string) => s.replace(/^([¿¡]?)(.)/, (m, mark, c) => mark + c.toUpperCase());
+
+// Weaves the coach's signature phrase into a question, whatever shape the phrase has.
+function withPhrase(phrase: string | null, question: string) {
+  if (!phrase) return upperFirst(question);
+  const p = phrase.trim();
+  if (/[?？]$/.test(p)) return p;
+  if (/(…|\.\.\.)$/.test(p)) return `${p.replace(/(…|\.\.\.)$/, '')}… ${question}`;
+  return `${p.replace(/[.!]$/, '')} — ${question}`;
+}
+
+export function generatePreview(profile: TwinProfile, style: PreviewStyle, variant = 0): PreviewMessages {
+  const text = PREVIEW_TEXT[twinLanguageFor(profile.language.twin).code];
+  const mode = modeFor(style);
+  const phrase = twinSignaturePhrase(profile);
+  const belief = choiceValue(profile.method.belief);
+  const metaphor = choiceValue(profile.method.metaphor);
+  const tones = multiChoiceValues(profile.identity.tone).filter((t) => text.toneNotes[t]);
+
+  let greeting = `${pick(text.openers[mode], variant)} ${withPhrase(phrase, pick(text.questions[mode], variant + 1))}`;
+  if (style.challenge >= 8) greeting += ` ${pick(text.pushes, variant)}`;
+
+  const reflectionParts: string[] = [];
+  if (belief) reflectionParts.push(`${beliefSentence(text.beliefs[belief] ?? belief, text.beliefLead)}.`);
+  if (metaphor) {
+    const known = text.metaphors[metaphor];
+    reflectionParts.push(known ? text.thinkOf(known.name, known.image) : text.thinkOfOther(metaphor));
+  }
+  reflectionParts.push(style.challenge >= 8 ? text.avoiding : pick(text.closers[mode], variant + 2));
+
+  const toneNote = tones.length ? text.toneNotes[pick(tones, variant)] : null;
+  const followUp = [toneNote, upperFirst(pick(text.questions[mode], variant + 2))].filter(Boolean).join(' ');
+
+  return {
+    greeting: `“${greeting}”`,
+    reflection: `“${reflectionParts.join(' ')}”`,
+    followUp,
+  };
+}
@@ -0,0 +1,254 @@
+import { TwinLanguageCode } from '@/lib/twinLanguages';
+
+// Wording of the Preview step's sample messages per twin language. Tables keyed by an answer
+// (tone, belief, metaphor) use the stored English option; custom answers fall back to generic lines.
+
+export type PreviewMode = 'warm' | 'direct' | 'balanced';
+
+export type PreviewText = {
+  openers: Record<PreviewMode, string[]>;
+  // questions start lowercase; they usually follow the signature phrase
+  questions: Record<PreviewMode, string[]>;
+  closers: Record<PreviewMode, string[]>;
+  toneNotes: Record<string, string>;
+  pushes: string[];
+  avoiding: string;
+  beliefLead: string;
+  // preset beliefs as continuations of `beliefLead`; empty when the options already are
+  beliefs: Record<string, string>;
+  metaphors: Record<string, { name: string; image: string }>;
+  thinkOf: (name: string, image: string) => string;
+  thinkOfOther: (metaphor: string) => string;
+};
+
+const lowerFirst = (s: string) => s.charAt(0).toLowerCase() + s.slice(1);
+
+const EN: PreviewText = {
+  openers: {
+    warm: ['I’m glad you’re here.', 'It’s good to hear from you.', 'Thanks for making a little time for yourself today.'],
+    direct: ['Let’s get to the real issue.', 'Let’s be specific today.', 'Straight to it.'],
+    balanced: ['Hi, I’m here to help you reflect.', 'Good to see you.', 'Let’s take a moment together.'],
+  },
+  questions: {
+    warm: ['what feels heavy for you right now?', 'what’s been on your mind this week?', 'what would feel supportive today?'],
+    direct: ['what’s holding you back?', 'what exactly is in the way?', 'what have you been putting off?'],
+    balanced: ['what’s holding you back right now?', 'what would you like to explore today?', 'where do you feel stuck?'],
+  },
+  closers: {
+    warm: ['What seed do you want to nurture this week?', 'What would feel like a kind first step?', 'What do you need most right now?'],
+    direct: ['What’s the first action you’ll take today?', 'What will you do first, and when?', 'What’s the one thing you’ll stop avoiding?'],
+    balanced: ['What would a first step look like for you?', 'What do you notice when you look at it this way?', 'Where would you like to start?'],
+  },
+  toneNotes: {
+    Direct: 'Be specific.',
+    Warm: 'Take your time.',
+    Curious: 'I’m curious what you’ll notice.',
+    Challenging: 'Let’s not skip the hard part.',
+    Calm: 'There’s no rush.',
+    Energetic: 'Let’s build some momentum!',
+  },
+  pushes: ['And what will you do about it?', 'What’s the cost of not changing this?', 'What will you commit to before we speak again?'],
+  avoiding: 'What tough step are you avoiding?',
+  beliefLead: 'Real change happens when',
+  beliefs: {},
+  metaphors: {
+    'Life is a journey': { name: 'life is a journey', image: 'every step shows you a bit more of the road' },
+    'Climbing a mountain': { name: 'climbing a mountain', image: 'the only way is up, one foothold at a time' },
+    'Crossing a river': { name: 'crossing a river', image: 'you test each stone before you put your weight on it' },
+    'Riding a bike': { name: 'riding a bike', image: 'you only keep your balance by moving forward' },
+    'Navigating a storm': { name: 'navigating a storm', image: 'you can’t control the wind, only how you steer' },
+    'Planting seeds': { name: 'planting seeds', image: 'growth takes time and care' },
+  },
+  thinkOf: (name, image) => `Think of ${name} — ${image}.`,
+  thinkOfOther: (metaphor) => `Think of it like ${lowerFirst(metaphor)}.`,
+};
+
+const NL: PreviewText = {
+  openers: {
+    warm: ['Fijn dat je er bent.', 'Goed om van je te horen.', 'Dank je dat je vandaag even tijd voor jezelf maakt.'],
+    direct: ['Laten we naar de kern gaan.', 'Laten we vandaag concreet worden.', 'Meteen ter zake.'],
+    balanced: ['Hoi, ik help je graag om te reflecteren.', 'Fijn je te zien.', 'Laten we samen even stilstaan.'],
+  },
+  questions: {
+    warm: ['wat voelt er nu zwaar voor je?', 'wat houdt je deze week bezig?', 'wat zou je vandaag steunen?'],
+    direct: ['wat houdt je tegen?', 'wat staat er precies in de weg?', 'wat heb je steeds uitgesteld?'],
+    balanced: ['wat houdt je nu tegen?', 'wat wil je vandaag onderzoeken?', 'waar loop je vast?'],
+  },
+  closers: {
+    warm: ['Welk zaadje wil je deze week verzorgen?', 'Wat zou een vriendelijke eerste stap zijn?', 'Wat heb je nu het meest nodig?'],
+    direct: ['Wat is de eerste actie die je vandaag neemt?', 'Wat doe je als eerste, en wanneer?', 'Wat is het ene ding dat je niet langer uit de weg gaat?'],
+    balanced: ['Hoe zou een eerste stap er voor jou uitzien?', 'Wat valt je op als je er zo naar kijkt?', 'Waar wil je beginnen?'],
+  },
+  toneNotes: {
+    Direct: 'Wees concreet.',
+    Warm: 'Neem je tijd.',
+    Curious: 'Ik ben benieuwd wat je opmerkt.',
+    Challenging: 'Laten we het moeilijke deel niet overslaan.',
+    Calm: 'Er is geen haast.',
+    Energetic: 'Laten we vaart maken!',
+  },
+  pushes: ['En wat ga je eraan doen?', 'Wat kost het je als je dit niet verandert?', 'Waar verbind je je aan voordat we elkaar weer spreken?'],
+  avoiding: 'Welke lastige stap vermijd je?',
+  beliefLead: 'Echte verandering ontstaat wanneer',
+  beliefs: {
+    '…people take responsibility': 'mensen verantwoordelijkheid nemen',
+    '…they get out of their comfort zone': 'ze uit hun comfortzone stappen',
+    '…they connect to their values': 'ze contact maken met hun waarden',
+    '…they stop trying to fix themselves': 'ze stoppen met zichzelf te willen repareren',
+    '…they feel safe to be vulnerable': 'ze zich veilig voelen om kwetsbaar te zijn',
+    '…they commit to action': 'ze zich aan actie verbinden',
+  },
+  metaphors: {
+    'Life is a journey': { name: 'het leven als een reis', image: 'elke stap laat je een stukje meer van de weg zien' },
+    'Climbing a mountain': { name: 'een berg beklimmen', image: 'het gaat alleen omhoog, houvast voor houvast' },
+    'Crossing a river': { name: 'een rivier oversteken', image: 'je test elke steen voordat je erop gaat staan' },
+    'Riding a bike': { name: 'fietsen', image: 'je blijft alleen in balans als je vooruit beweegt' },
+    'Navigating a storm': { name: 'door een storm navigeren', image: 'de wind heb je niet in de hand, wel hoe je stuurt' },
+    'Planting seeds': { name: 'zaadjes planten', image: 'groei kost tijd en zorg' },
+  },
+  thinkOf: (name, image) => `Denk aan ${name} — ${image}.`,
+  thinkOfOther: (metaphor) => `Zie het als ${lowerFirst(metaphor)}.`,
+};
+
+const DE: PreviewText = {
+  openers: {
+    warm: ['Schön, dass du da bist.', 'Schön, von dir zu hören.', 'Danke, dass du dir heute etwas Zeit für dich nimmst.'],
+    direct: ['Kommen wir zum eigentlichen Thema.', 'Lass uns heute konkret werden.', 'Direkt zur Sache.'],
+    balanced: ['Hallo, ich helfe dir beim Reflektieren.', 'Schön, dich zu sehen.', 'Nehmen wir uns gemeinsam einen Moment.'],
+  },
+  questions: {
+    warm: ['was fühlt sich gerade schwer an?', 'was beschäftigt dich diese Woche?', 'was würde dich heute unterstützen?'],
+    direct: ['was hält dich zurück?', 'was genau steht im Weg?', 'was schiebst du schon länger auf?'],
+    balanced: ['was hält dich gerade zurück?', 'was möchtest du heute erkunden?', 'wo steckst du fest?'],
+  },
+  closers: {
+    warm: ['Welchen Samen möchtest du diese Woche pflegen?', 'Was wäre ein freundlicher erster Schritt?', 'Was brauchst du gerade am meisten?'],
+    direct: ['Was ist der erste Schritt, den du heute gehst?', 'Was tust du zuerst, und wann?', 'Welcher Sache weichst du ab jetzt nicht mehr aus?'],
+    balanced: ['Wie könnte ein erster Schritt für dich aussehen?', 'Was fällt dir auf, wenn du es so betrachtest?', 'Wo möchtest du anfangen?'],
+  },
+  toneNotes: {
+    Direct: 'Sei konkret.',
+    Warm: 'Nimm dir Zeit.',
+    Curious: 'Ich bin gespannt, was dir auffällt.',
+    Challenging: 'Lass uns den schwierigen Teil nicht überspringen.',
+    Calm: 'Es gibt keine Eile.',
+    Energetic: 'Lass uns Schwung holen!',
+  },
+  pushes: ['Und was wirst du dagegen tun?', 'Was kostet es dich, das nicht zu ändern?', 'Wozu verpflichtest du dich bis zu unserem nächsten Gespräch?'],
+  avoiding: 'Welchem schwierigen Schritt weichst du aus?',
+  beliefLead: 'Echte Veränderung geschieht, wenn',
+  beliefs: {
+    '…people take responsibility': 'Menschen Verantwortung übernehmen',
+    '…they get out of their comfort zone': 'sie ihre Komfortzone verlassen',
+    '…they connect to their values': 'sie sich mit ihren Werten verbinden',
+    '…they stop trying to fix themselves': 'sie aufhören, sich selbst reparieren zu wollen',
+    '…they feel safe to be vulnerable': 'sie sich sicher genug fühlen, verletzlich zu sein',
+    '…they commit to action': 'sie sich zum Handeln verpflichten',
+  },
+  metaphors: {
+    'Life is a journey': { name: 'eine Reise', image: 'jeder Schritt zeigt dir ein Stück mehr vom Weg' },
+    'Climbing a mountain': { name: 'eine Bergbesteigung', image: 'es geht nur nach oben, Griff für Griff' },
+    'Crossing a river': { name: 'eine Flussüberquerung', image: 'du prüfst jeden Stein, bevor du dein Gewicht darauf verlagerst' },
+    'Riding a bike': { name: 'Fahrradfahren', image: 'du hältst das Gleichgewicht nur, solange du vorwärts fährst' },
+    'Navigating a storm': { name: 'eine Fahrt durch den Sturm', image: 'den Wind kannst du nicht kontrollieren, nur wie du steuerst' },
+    'Planting seeds': { name: 'das Säen', image: 'Wachstum braucht Zeit und Pflege' },
+  },
+  thinkOf: (name, image) => `Stell es dir vor wie ${name} — ${image}.`,
+  thinkOfOther: (metaphor) => `Stell es dir so vor: ${metaphor}.`,
+};
+
+const FR: PreviewText = {
+  openers: {
+    warm: ['Je suis content que vous soyez là.', 'Ça fait plaisir d’avoir de vos nouvelles.', 'Merci de prendre un peu de temps pour vous aujourd’hui.'],
+    direct: ['Allons à l’essentiel.', 'Soyons concrets aujourd’hui.', 'Droit au but.'],
+    balanced: ['Bonjour, je suis là pour vous aider à réfléchir.', 'Content de vous voir.', 'Prenons un moment ensemble.'],
+  },
+  questions: {
+    warm: ['qu’est-ce qui vous pèse en ce moment ?', 'qu’est-ce qui vous a occupé l’esprit cette semaine ?', 'qu’est-ce qui vous soutiendrait aujourd’hui ?'],
+    direct: ['qu’est-ce qui vous retient ?', 'qu’est-ce qui bloque, exactement ?', 'qu’avez-vous remis à plus tard ?'],
+    balanced: ['qu’est-ce qui vous retient en ce moment ?', 'qu’aimeriez-vous explorer aujourd’hui ?', 'où vous sentez-vous bloqué ?'],
+  },
+  closers: {
+    warm: ['Quelle graine voulez-vous faire pousser cette semaine ?', 'Quel serait un premier pas bienveillant ?', 'De quoi avez-vous le plus besoin maintenant ?'],
+    direct: ['Quelle est la première action que vous allez faire aujourd’hui ?', 'Que ferez-vous en premier, et quand ?', 'Quelle est la chose que vous allez arrêter d’éviter ?'],
+    balanced: ['À quoi ressemblerait un premier pas pour vous ?', 'Que remarquez-vous en le regardant sous cet angle ?', 'Par où aimeriez-vous commencer ?'],
+  },
+  toneNotes: {
+    Direct: 'Soyez précis.',
+    Warm: 'Prenez votre temps.',
+    Curious: 'Je suis curieux de ce que vous allez remarquer.',
+    Challenging: 'Ne sautons pas la partie difficile.',
+    Calm: 'Rien ne presse.',
+    Energetic: 'Prenons de l’élan !',
+  },
+  pushes: ['Et qu’allez-vous en faire ?', 'Que vous coûte le fait de ne pas changer cela ?', 'À quoi vous engagez-vous d’ici notre prochain échange ?'],
+  avoiding: 'Quelle étape difficile évitez-vous ?',
+  beliefLead: 'Le vrai changement se produit quand',
+  beliefs: {
+    '…people take responsibility': 'les gens prennent leurs responsabilités',
+    '…they get out of their comfort zone': 'on sort de sa zone de confort',
+    '…they connect to their values': 'on se relie à ses valeurs',
+    '…they stop trying to fix themselves': 'on arrête de vouloir se réparer',
+    '…they feel safe to be vulnerable': 'on se sent assez en sécurité pour être vulnérable',
+    '…they commit to action': 'on s’engage à agir',
+  },
+  metaphors: {
+    'Life is a journey': { name: 'la vie comme un voyage', image: 'chaque pas vous montre un peu plus du chemin' },
+    'Climbing a mountain': { name: 'l’ascension d’une montagne', image: 'on ne peut que monter, une prise après l’autre' },
+    'Crossing a river': { name: 'la traversée d’une rivière', image: 'on teste chaque pierre avant d’y mettre son poids' },
+    'Riding a bike': { name: 'le vélo', image: 'on ne garde l’équilibre qu’en avançant' },
+    'Navigating a storm': { name: 'une navigation dans la tempête', image: 'on ne contrôle pas le vent, seulement la façon de barrer' },
+    'Planting seeds': { name: 'les graines qu’on sème', image: 'la croissance demande du temps et du soin' },
+  },
+  thinkOf: (name, image) => `Pensez à ${name} — ${image}.`,
+  thinkOfOther: (metaphor) => `Voyez-le comme ${lowerFirst(metaphor)}.`,
+};
+
+const ES: PreviewText = {
+  openers: {
+    warm: ['Me alegra que estés aquí.', 'Qué bueno saber de ti.', 'Gracias por dedicarte un poco de tiempo hoy.'],
+    direct: ['Vamos al tema de fondo.', 'Seamos concretos hoy.', 'Directo al grano.'],
+    balanced: ['Hola, estoy aquí para ayudarte a reflexionar.', 'Me alegra verte.', 'Tomémonos un momento juntos.'],
+  },
+  questions: {
+    warm: ['¿qué te pesa ahora mismo?', '¿qué has tenido en mente esta semana?', '¿qué te ayudaría hoy?'],
+    direct: ['¿qué te frena?', '¿qué se interpone exactamente?', '¿qué has estado posponiendo?'],
+    balanced: ['¿qué te frena ahora mismo?', '¿qué te gustaría explorar hoy?', '¿dónde te sientes atascado?'],
+  },
+  closers: {
+    warm: ['¿Qué semilla quieres cuidar esta semana?', '¿Cuál sería un primer paso amable?', '¿Qué necesitas más ahora mismo?'],
+    direct: ['¿Cuál es la primera acción que vas a tomar hoy?', '¿Qué harás primero, y cuándo?', '¿Qué es lo único que vas a dejar de evitar?'],
+    balanced: ['¿Cómo sería un primer paso para ti?', '¿Qué notas cuando lo miras así?', '¿Por dónde te gustaría empezar?'],
+  },
+  toneNotes: {
+    Direct: 'Sé concreto.',
+    Warm: 'Tómate tu tiempo.',
+    Curious: 'Tengo curiosidad por lo que vas a notar.',
+    Challenging: 'No nos saltemos la parte difícil.',
+    Calm: 'No hay prisa.',
+    Energetic: '¡Vamos a ganar impulso!',
+  },
+  pushes: ['¿Y qué vas a hacer al respecto?', '¿Qué te cuesta no cambiar esto?', '¿A qué te comprometes antes de que volvamos a hablar?'],
+  avoiding: '¿Qué paso difícil estás evitando?',
+  beliefLead: 'El cambio real ocurre cuando',
+  beliefs: {
+    '…people take responsibility': 'las personas asumen su responsabilidad',
+    '…they get out of their comfort zone': 'salen de su zona de confort',
+    '…they connect to their values': 'conectan con sus valores',
+    '…they stop trying to fix themselves': 'dejan de intentar arreglarse',
+    '…they feel safe to be vulnerable': 'se sienten seguras para mostrarse vulnerables',
+    '…they commit to action': 'se comprometen a actuar',
+  },
+  metaphors: {
+    'Life is a journey': { name: 'la vida como un viaje', image: 'cada paso te muestra un poco más del camino' },
+    'Climbing a mountain': { name: 'escalar una montaña', image: 'solo se puede subir, un apoyo tras otro' },
+    'Crossing a river': { name: 'cruzar un río', image: 'pruebas cada piedra antes de apoyar tu peso' },
+    'Riding a bike': { name: 'andar en bicicleta', image: 'solo mantienes el equilibrio si avanzas' },
+    'Navigating a storm': { name: 'navegar una tormenta', image: 'no controlas el viento, solo cómo llevas el timón' },
+    'Planting seeds': { name: 'plantar semillas', image: 'crecer lleva tiempo y cuidado' },
+  },
+  thinkOf: (name, image) => `Piensa en ${name} — ${image}.`,
+  thinkOfOther: (metaphor) => `Piénsalo como ${lowerFirst(metaphor)}.`,
+};
+
+export const PREVIEW_TEXT: Record<TwinLanguageCode, PreviewText> = { en: EN, nl: NL, de: DE, fr: FR, es: ES };
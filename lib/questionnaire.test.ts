@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { ONBOARDING_QUESTIONNAIRE } from '@/lib/onboardingQuestionnaire';
+import {
+  MatrixQuestion,
+  Question,
+  Questionnaire,
+  SingleQuestion,
+  evaluateCondition,
+  isVisible,
+  pruneHiddenAnswers,
+  validateQuestionnaire,
+  visibleOptions,
+  visibleQuestions,
+  visibleRows,
+} from '@/lib/questionnaire';
+import { TwinProfile, createEmptyProfile } from '@/lib/twinProfile';
+
+function question<Q extends Question>(id: string): Q {
+  for (const step of ONBOARDING_QUESTIONNAIRE.steps) {
+    const found = step.questions.find((q) => q.id === id);
+    if (found) return found as Q;
+  }
+  throw new Error(`No question ${id}`);
+}
+
+function profileWith(edit: (p: TwinProfile) => void) {
+  const profile = createEmptyProfile();
+  edit(profile);
+  return profile;
+}
+
+const approach = (selected: string) => profileWith((p) => { p.method.approach = { selected, otherOpen: false, otherText: '' }; });
+
+describe('evaluateCondition', () => {
+  const profile = profileWith((p) => {
+    p.identity.tone = { selected: ['Warm'], otherOpen: true, otherText: 'Playful' };
+    p.method.approach = { selected: 'Narrative', otherOpen: false, otherText: '' };
+  });
+
+  it('matches single and multi answers, "Other" text included', () => {
+    expect(evaluateCondition({ field: 'method.approach', anyOf: ['Narrative', 'Systemic'] }, profile)).toBe(true);
+    expect(evaluateCondition({ field: 'identity.tone', anyOf: ['Playful'] }, profile)).toBe(true);
+    expect(evaluateCondition({ field: 'identity.tone', anyOf: ['Direct'] }, profile)).toBe(false);
+  });
+
+  it('tells answered from unanswered fields', () => {
+    expect(evaluateCondition({ field: 'method.approach', answered: true }, profile)).toBe(true);
+    expect(evaluateCondition({ field: 'method.belief', answered: false }, profile)).toBe(true);
+    expect(evaluateCondition({ field: 'identity.clientQuote', answered: true }, profile)).toBe(false);
+  });
+
+  it('combines conditions with all, any and not', () => {
+    const narrative = { field: 'method.approach', anyOf: ['Narrative'] };
+    const direct = { field: 'identity.tone', anyOf: ['Direct'] };
+    expect(evaluateCondition({ all: [narrative, direct] }, profile)).toBe(false);
+    expect(evaluateCondition({ any: [narrative, direct] }, profile)).toBe(true);
+    expect(evaluateCondition({ not: direct }, profile)).toBe(true);
+  });
+});
+
+describe('isVisible', () => {
+  const profile = approach('Narrative');
+  const narrative = { field: 'method.approach', anyOf: ['Narrative'] };
+
+  it('shows anything without conditions', () => {
+    expect(isVisible(undefined, profile)).toBe(true);
+    expect(isVisible({}, profile)).toBe(true);
+  });
+
+  it('needs showIf to hold and skipIf not to', () => {
+    expect(isVisible({ showIf: narrative }, profile)).toBe(true);
+    expect(isVisible({ skipIf: narrative }, profile)).toBe(false);
+    expect(isVisible({ showIf: narrative, skipIf: narrative }, profile)).toBe(false);
+    expect(isVisible({ showIf: narrative }, createEmptyProfile())).toBe(false);
+  });
+});
+
+describe('the onboarding questionnaire', () => {
+  const intervention = question<SingleQuestion>('intervention');
+  const permissions = question<MatrixQuestion>('permissions');
+  const approachOnly = ['Invited attention to the body', 'Challenged an unhelpful thought', 'Asked about exceptions'];
+
+  it('hides the approach-specific interventions until the approach is known', () => {
+    const shown = visibleOptions(intervention, createEmptyProfile());
+    approachOnly.forEach((option) => expect(shown).not.toContain(option));
+  });
+
+  it('shows the somatic intervention to somatic coaches only', () => {
+    expect(visibleOptions(intervention, approach('Somatic / body-based'))).toContain('Invited attention to the body');
+    expect(visibleOptions(intervention, approach('Somatic / body-based'))).not.toContain('Challenged an unhelpful thought');
+    expect(visibleOptions(intervention, approach('Narrative'))).not.toContain('Invited attention to the body');
+  });
+
+  it('shows the CBT intervention to CBT coaches only', () => {
+    expect(visibleOptions(intervention, approach('Cognitive-behavioral (CBT)'))).toContain('Challenged an unhelpful thought');
+    expect(visibleOptions(intervention, approach('Cognitive-behavioral (CBT)'))).not.toContain('Invited attention to the body');
+  });
+
+  it('hides "Handle emotions" from coaches who keep the twin away from clients in crisis', () => {
+    expect(visibleRows(permissions, createEmptyProfile())).toContain('Handle emotions');
+    const crisis = profileWith((p) => { p.guardrails.neverDo = { selected: ['Work with clients in crisis'], otherOpen: false, otherText: '' }; });
+    expect(visibleRows(permissions, crisis)).not.toContain('Handle emotions');
+    expect(visibleRows(permissions, crisis)).toHaveLength(permissions.rows.length - 1);
+  });
+});
+
+describe('pruneHiddenAnswers', () => {
+  it('clears an intervention the new approach no longer offers', () => {
+    const profile = profileWith((p) => {
+      p.method.approach = { selected: 'Narrative', otherOpen: false, otherText: '' };
+      p.example.intervention = { selected: 'Invited attention to the body', otherOpen: false, otherText: '' };
+    });
+    expect(pruneHiddenAnswers(ONBOARDING_QUESTIONNAIRE, profile).example.intervention.selected).toBeNull();
+  });
+
+  it('keeps an intervention that is still offered, and "Other" text', () => {
+    const profile = profileWith((p) => {
+      p.method.approach = { selected: 'Somatic / body-based', otherOpen: false, otherText: '' };
+      p.example.intervention = { selected: 'Invited attention to the body', otherOpen: true, otherText: 'Breathing together' };
+    });
+    expect(pruneHiddenAnswers(ONBOARDING_QUESTIONNAIRE, profile)).toEqual(profile);
+  });
+
+  it('drops the "Handle emotions" permission once crisis work is ruled out', () => {
+    const profile = profileWith((p) => {
+      p.guardrails.neverDo = { selected: ['Work with clients in crisis'], otherOpen: false, otherText: '' };
+      p.guardrails.permissions = { 'Handle emotions': 'independent', Homework: 'review' };
+    });
+    expect(pruneHiddenAnswers(ONBOARDING_QUESTIONNAIRE, profile).guardrails.permissions).toEqual({ Homework: 'review' });
+  });
+
+  it('clears the answers to hidden questions, in step order', () => {
+    const panels = { intro: { title: 'intro' }, done: { title: 'done' } };
+    const questionnaire: Questionnaire = {
+      steps: [
+        { id: 'one', label: 'step.one', ...panels, questions: [{ id: 'quote', kind: 'text', field: 'identity.clientQuote', title: 'q' }] },
+        {
+          id: 'two',
+          label: 'step.two',
+          ...panels,
+          questions: [
+            { id: 'dialogue', kind: 'textarea', field: 'example.dialogue', title: 'q', showIf: { field: 'identity.clientQuote', answered: true } },
+            { id: 'metaphor', kind: 'single', field: 'method.metaphor', title: 'q', options: ['Planting seeds'], skipIf: { field: 'example.dialogue', answered: true } },
+          ],
+        },
+      ],
+    };
+    const profile = profileWith((p) => {
+      p.example.dialogue = 'Client: …';
+      p.method.metaphor = { selected: 'Planting seeds', otherOpen: false, otherText: '' };
+    });
+    // the stale dialogue answer still skips the metaphor
+    expect(visibleQuestions(questionnaire.steps[1], profile)).toEqual([]);
+    const pruned = pruneHiddenAnswers(questionnaire, profile);
+    // no quote hides the dialogue; once it is cleared the metaphor shows again and keeps its answer
+    expect(pruned.example.dialogue).toBe('');
+    expect(visibleQuestions(questionnaire.steps[1], pruned).map((q) => q.id)).toEqual(['metaphor']);
+    expect(pruned.method.metaphor.selected).toBe('Planting seeds');
+  });
+
+  it('returns the same profile when nothing is hidden', () => {
+    const profile = createEmptyProfile();
+    expect(pruneHiddenAnswers(ONBOARDING_QUESTIONNAIRE, profile)).toBe(profile);
+  });
+});
+
+describe('validateQuestionnaire', () => {
+  it('accepts the onboarding questionnaire', () => {
+    expect(validateQuestionnaire(ONBOARDING_QUESTIONNAIRE).ok).toBe(true);
+  });
+
+  it('rejects permission rows the twin has no action for', () => {
+    const steps = ONBOARDING_QUESTIONNAIRE.steps.map((step) => ({
+      ...step,
+      questions: step.questions.map((q) => (q.kind === 'matrix' ? { ...q, rows: [...q.rows, 'Send invoices'] } : q)),
+    }));
+    const result = validateQuestionnaire({ ...ONBOARDING_QUESTIONNAIRE, steps });
+    expect(result.ok).toBe(false);
+    const problems = result.ok ? [] : result.problems;
+    expect(problems).toHaveLength(1);
+    expect(problems[0].path).toMatch(/\.rows\[8\]$/);
+  });
+});
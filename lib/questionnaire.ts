@@ -0,0 +1,438 @@
+import { ChoiceAnswer, FieldKind, MultiChoiceAnswer, PERMISSIONS, Permission, TwinProfile, choiceValue, multiChoiceValues, profileFieldKind } from '@/lib/twinProfile';
+import { Locale, MessageParams, Messages, hasMessage } from '@/lib/i18n';
+import { TWIN_ACTIONS, TWIN_ACTION_TYPES } from '@/lib/permissions';
+
+// Onboarding steps and questions declared as data. Every question is bound to a field of the
+// TwinProfile (`field` is a dotted path) and is rendered, validated and counted for progress from
+// its kind alone; see components/QuestionnaireStep. Titles, hints and placeholders are message keys;
+// option values are stored as-is and shown through their `option.<value>` translation.
+// Questions, options and matrix rows can be shown or skipped depending on earlier answers.
+
+export type QuestionLayout = 'inline' | 'list' | 'grid';
+
+// Conditions on earlier answers. `anyOf` holds when the answer (or one of the picked values of a
+// multi-choice, "Other" text included) is one of the listed values.
+export type Condition =
+  | { field: string; anyOf: string[] }
+  | { field: string; answered: boolean }
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition };
+
+// shown only while `showIf` holds, and never while `skipIf` holds
+export type Visibility = { showIf?: Condition; skipIf?: Condition };
+
+type BaseQuestion = Visibility & {
+  id: string;
+  field: string;
+  title: string;
+  hint?: string;
+  // required questions block "Next" until answered (default true)
+  required?: boolean;
+  // shown when a required question is left empty; defaults to "Please answer Q{n}"
+  error?: string;
+};
+
+type OptionsQuestion = BaseQuestion & {
+  options: string[];
+  emoji?: string;
+  optionEmoji?: Record<string, string>;
+  optionVisibility?: Record<string, Visibility>;
+  layout?: QuestionLayout;
+  // adds an "Other" toggle with a free-text answer (choice and multiChoice fields only)
+  other?: { placeholder?: string };
+};
+
+export type SingleQuestion = OptionsQuestion & {
+  kind: 'single';
+  // also ask how the answer is said in the twin's language when that isn't English
+  translation?: { field: string; label: string; hint?: string };
+};
+
+export type MultiQuestion = OptionsQuestion & { kind: 'multi'; max?: number };
+
+export type TextQuestion = BaseQuestion & { kind: 'text' | 'textarea'; placeholder?: string };
+
+export type MatrixQuestion = BaseQuestion & {
+  kind: 'matrix';
+  rows: string[];
+  rowVisibility?: Record<string, Visibility>;
+  columns: { value: Permission; label: string }[];
+};
+
+export type Question = SingleQuestion | MultiQuestion | TextQuestion | MatrixQuestion;
+
+export type StepDef = {
+  id: string;
+  label: string;
+  intro: { title: string; subtitle?: string; body?: string };
+  questions: Question[];
+  // closing panel after the last question; `icon` names one of the QuestionnaireStep illustrations
+  done: { title: string; body?: string; icon?: string };
+};
+
+export type Questionnaire = {
+  steps: StepDef[];
+  // copy for keys the catalogs don't have (or that this version rewords), per locale
+  messages?: Messages;
+};
+
+/* ------------------------------------------------------------------ */
+/* Reading and writing answers                                          */
+/* ------------------------------------------------------------------ */
+
+export function readAnswer(profile: TwinProfile, path: string): any {
+  return path.split('.').reduce<any>((node, key) => (node === null || node === undefined ? undefined : node[key]), profile);
+}
+
+// Returns a copy of `profile` with the value at `path` replaced.
+export function writeAnswer(profile: TwinProfile, path: string, value: unknown): TwinProfile {
+  const keys = path.split('.');
+  const set = (node: any, i: number): any => (i === keys.length ? value : { ...node, [keys[i]]: set(node ? node[keys[i]] : undefined, i + 1) });
+  return set(profile, 0);
+}
+
+// Single-choice questions bind either a plain value (the language fields) or a ChoiceAnswer.
+const isChoiceAnswer = (v: unknown): v is ChoiceAnswer => !!v && typeof v === 'object' && 'selected' in (v as object);
+
+export function selectedOption(q: SingleQuestion, profile: TwinProfile): string | null {
+  const v = readAnswer(profile, q.field);
+  return isChoiceAnswer(v) ? v.selected : v ?? null;
+}
+
+export function selectOption(q: SingleQuestion, profile: TwinProfile, option: string): TwinProfile {
+  const v = readAnswer(profile, q.field);
+  return writeAnswer(profile, q.field, isChoiceAnswer(v) ? { ...v, selected: option } : option);
+}
+
+// Toggles an option; a full selection (see `max`) ignores new picks until one is removed.
+export function toggleOption(q: MultiQuestion, profile: TwinProfile, option: string): TwinProfile {
+  const v: MultiChoiceAnswer = readAnswer(profile, q.field);
+  if (v.selected.includes(option)) return writeAnswer(profile, q.field, { ...v, selected: v.selected.filter((s) => s !== option) });
+  if (q.max !== undefined && v.selected.length >= q.max) return profile;
+  return writeAnswer(profile, q.field, { ...v, selected: [...v.selected, option] });
+}
+
+export function updateOther(q: SingleQuestion | MultiQuestion, profile: TwinProfile, patch: { otherOpen?: boolean; otherText?: string }): TwinProfile {
+  return writeAnswer(profile, q.field, { ...readAnswer(profile, q.field), ...patch });
+}
+
+/* ------------------------------------------------------------------ */
+/* Conditions                                                           */
+/* ------------------------------------------------------------------ */
+
+// The effective values of an answer: [] while unanswered, the "Other" text in place of a pick.
+export function answerValues(profile: TwinProfile, path: string): string[] {
+  const v = readAnswer(profile, path);
+  if (typeof v === 'string') return v.trim() ? [v] : [];
+  if (!v || typeof v !== 'object') return [];
+  if (Array.isArray(v.selected)) return multiChoiceValues(v);
+  if (isChoiceAnswer(v)) {
+    const value = choiceValue(v);
+    return value ? [value] : [];
+  }
+  return [];
+}
+
+export function evaluateCondition(condition: Condition, profile: TwinProfile): boolean {
+  if ('all' in condition) return condition.all.every((c) => evaluateCondition(c, profile));
+  if ('any' in condition) return condition.any.some((c) => evaluateCondition(c, profile));
+  if ('not' in condition) return !evaluateCondition(condition.not, profile);
+  const values = answerValues(profile, condition.field);
+  if ('answered' in condition) return (values.length > 0) === condition.answered;
+  return values.some((v) => condition.anyOf.includes(v));
+}
+
+export function isVisible(visibility: Visibility | undefined, profile: TwinProfile): boolean {
+  if (!visibility) return true;
+  if (visibility.showIf && !evaluateCondition(visibility.showIf, profile)) return false;
+  return !(visibility.skipIf && evaluateCondition(visibility.skipIf, profile));
+}
+
+export function visibleQuestions(step: StepDef, profile: TwinProfile): Question[] {
+  return step.questions.filter((q) => isVisible(q, profile));
+}
+
+export function visibleOptions(q: SingleQuestion | MultiQuestion, profile: TwinProfile): string[] {
+  return q.options.filter((o) => isVisible(q.optionVisibility && q.optionVisibility[o], profile));
+}
+
+export function visibleRows(q: MatrixQuestion, profile: TwinProfile): string[] {
+  return q.rows.filter((r) => isVisible(q.rowVisibility && q.rowVisibility[r], profile));
+}
+
+// Clears answers the coach can no longer see (skipped questions, hidden options and rows), in step
+// order so an answer cleared early also hides what depended on it. The twin never acts on them.
+export function pruneHiddenAnswers(questionnaire: Questionnaire, profile: TwinProfile): TwinProfile {
+  return questionnaire.steps.reduce((p, step) => step.questions.reduce((acc, q) => pruneQuestion(q, acc), p), profile);
+}
+
+function pruneQuestion(q: Question, profile: TwinProfile): TwinProfile {
+  const v = readAnswer(profile, q.field);
+  if (v === undefined || v === null) return profile;
+  const hidden = !isVisible(q, profile);
+  switch (q.kind) {
+    case 'single': {
+      if (hidden && !isChoiceAnswer(v)) return writeAnswer(profile, q.field, null);
+      if (hidden) return v.selected === null && !v.otherOpen && !v.otherText ? profile : writeAnswer(profile, q.field, { selected: null, otherOpen: false, otherText: '' });
+      const selected = selectedOption(q, profile);
+      if (selected === null || visibleOptions(q, profile).includes(selected) || !q.options.includes(selected)) return profile;
+      return writeAnswer(profile, q.field, isChoiceAnswer(v) ? { ...v, selected: null } : null);
+    }
+    case 'multi': {
+      if (hidden) return v.selected.length || v.otherOpen || v.otherText ? writeAnswer(profile, q.field, { selected: [], otherOpen: false, otherText: '' }) : profile;
+      const shown = visibleOptions(q, profile);
+      const kept = v.selected.filter((s: string) => shown.includes(s) || !q.options.includes(s));
+      return kept.length === v.selected.length ? profile : writeAnswer(profile, q.field, { ...v, selected: kept });
+    }
+    case 'text':
+    case 'textarea':
+      return hidden && v !== '' ? writeAnswer(profile, q.field, '') : profile;
+    case 'matrix': {
+      const shown = hidden ? [] : visibleRows(q, profile);
+      const stale = Object.keys(v).filter((r) => q.rows.includes(r) && !shown.includes(r));
+      if (!stale.length) return profile;
+      const kept = { ...v };
+      stale.forEach((r) => { delete kept[r]; });
+      return writeAnswer(profile, q.field, kept);
+    }
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/* Validation and progress                                              */
+/* ------------------------------------------------------------------ */
+
+// Share of the question that is answered: 0 or 1, or the answered visible rows of a matrix.
+export function questionProgress(q: Question, profile: TwinProfile): number {
+  const v = readAnswer(profile, q.field);
+  switch (q.kind) {
+    case 'single':
+      return (isChoiceAnswer(v) ? choiceValue(v) : v) ? 1 : 0;
+    case 'multi':
+      return v && multiChoiceValues(v).length > 0 ? 1 : 0;
+    case 'text':
+    case 'textarea':
+      return typeof v === 'string' && v.trim() !== '' ? 1 : 0;
+    case 'matrix': {
+      const rows = visibleRows(q, profile);
+      return rows.length ? rows.filter((r) => v && v[r]).length / rows.length : 1;
+    }
+  }
+}
+
+export function isAnswered(q: Question, profile: TwinProfile) {
+  return questionProgress(q, profile) >= 1;
+}
+
+// Message key and params for an unanswered required question, or null when it may be left.
+// `index` is the question's position among the visible questions of its step.
+export function questionError(q: Question, index: number, profile: TwinProfile): { key: string; params?: MessageParams } | null {
+  if (q.required === false || isAnswered(q, profile)) return null;
+  return q.error ? { key: q.error } : { key: 'common.error.answerQ', params: { n: index + 1 } };
+}
+
+// Progress over the questions the coach can currently see.
+export function stepProgress(step: StepDef, profile: TwinProfile): number {
+  const questions = visibleQuestions(step, profile);
+  if (!questions.length) return 1;
+  return questions.reduce((sum, q) => sum + questionProgress(q, profile), 0) / questions.length;
+}
+
+/* ------------------------------------------------------------------ */
+/* Definition checks                                                    */
+/* ------------------------------------------------------------------ */
+
+export type QuestionnaireProblem = { path: string; reason: string };
+
+// profile field kinds each question kind can be bound to
+export const FIELD_KINDS: Record<Question['kind'], FieldKind[]> = {
+  single: ['language', 'choice'],
+  multi: ['multiChoice'],
+  text: ['text'],
+  textarea: ['text', 'dialogue'],
+  matrix: ['permissions'],
+};
+
+const ID_PATTERN = /^[A-Za-z][A-Za-z0-9_-]{0,39}$/;
+const LOCALES: Locale[] = ['en', 'nl'];
+// the hand-built step that always follows the questionnaire
+const RESERVED_STEP_IDS = ['preview'];
+
+const isObject = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isStringList = (v: unknown): v is string[] => Array.isArray(v) && v.every((s) => typeof s === 'string' && s.trim() !== '');
+
+// Conditions may point at any answer field, or at one row of a permission matrix.
+function isConditionField(path: unknown) {
+  if (typeof path !== 'string') return false;
+  if (profileFieldKind(path)) return true;
+  const parent = path.split('.').slice(0, -1).join('.');
+  return profileFieldKind(parent) === 'permissions';
+}
+
+function checkCondition(c: any, path: string, problems: QuestionnaireProblem[]) {
+  if (!isObject(c)) return problems.push({ path, reason: 'expected a condition object' });
+  if ('all' in c || 'any' in c) {
+    const list = c.all ?? c.any;
+    if (!Array.isArray(list)) return problems.push({ path, reason: 'all/any must be a list of conditions' });
+    list.forEach((item: any, i: number) => checkCondition(item, `${path}.${'all' in c ? 'all' : 'any'}[${i}]`, problems));
+    return;
+  }
+  if ('not' in c) return checkCondition(c.not, `${path}.not`, problems);
+  if (!isConditionField(c.field)) return problems.push({ path, reason: `unknown field "${c.field}"` });
+  if ('anyOf' in c ? !isStringList(c.anyOf) : typeof c.answered !== 'boolean') {
+    problems.push({ path, reason: 'expected anyOf (a list of values) or answered (true/false)' });
+  }
+}
+
+function checkVisibility(v: any, path: string, problems: QuestionnaireProblem[]) {
+  if (v === undefined) return;
+  if (!isObject(v)) return problems.push({ path, reason: 'expected { showIf?, skipIf? }' });
+  if (v.showIf !== undefined) checkCondition(v.showIf, `${path}.showIf`, problems);
+  if (v.skipIf !== undefined) checkCondition(v.skipIf, `${path}.skipIf`, problems);
+}
+
+function checkVisibilityMap(map: any, allowed: string[], path: string, problems: QuestionnaireProblem[]) {
+  if (map === undefined) return;
+  if (!isObject(map)) return problems.push({ path, reason: 'expected an object keyed by option' });
+  Object.keys(map).forEach((key) => {
+    if (!allowed.includes(key)) problems.push({ path: `${path}.${key}`, reason: 'not one of the listed values' });
+    else checkVisibility(map[key], `${path}.${key}`, problems);
+  });
+}
+
+function checkValues(values: unknown, path: string, problems: QuestionnaireProblem[]): string[] {
+  if (!isStringList(values) || values.length === 0) {
+    problems.push({ path, reason: 'expected at least one non-empty value' });
+    return [];
+  }
+  const dupes = values.filter((v, i) => values.indexOf(v) !== i);
+  if (dupes.length) problems.push({ path, reason: `duplicate value "${dupes[0]}"` });
+  return values;
+}
+
+function checkText(key: unknown, path: string, messages: Messages | undefined, problems: QuestionnaireProblem[], optional = false) {
+  if (key === undefined && optional) return;
+  if (typeof key !== 'string' || !key.trim()) problems.push({ path, reason: 'expected a message key' });
+  else if (!hasMessage(key, messages)) problems.push({ path, reason: `no English copy for "${key}"` });
+}
+
+function checkQuestion(q: any, path: string, messages: Messages | undefined, problems: QuestionnaireProblem[]) {
+  const text = (key: unknown, where: string, optional = false) => checkText(key, `${path}.${where}`, messages, problems, optional);
+  if (!isObject(q)) return problems.push({ path, reason: 'expected a question object' });
+  const kinds = FIELD_KINDS[q.kind as Question['kind']];
+  if (!kinds) return problems.push({ path: `${path}.kind`, reason: `unknown kind "${q.kind}"` });
+  const fieldKind = typeof q.field === 'string' ? profileFieldKind(q.field) : null;
+  if (!fieldKind) problems.push({ path: `${path}.field`, reason: `unknown profile field "${q.field}"` });
+  else if (!kinds.includes(fieldKind)) problems.push({ path: `${path}.field`, reason: `a ${q.kind} question can't store its answer in a ${fieldKind} field` });
+  text(q.title, 'title');
+  text(q.hint, 'hint', true);
+  text(q.error, 'error', true);
+  if (q.required !== undefined && typeof q.required !== 'boolean') problems.push({ path: `${path}.required`, reason: 'expected true or false' });
+  checkVisibility({ showIf: q.showIf, skipIf: q.skipIf }, path, problems);
+
+  if (q.kind === 'single' || q.kind === 'multi') {
+    const options = checkValues(q.options, `${path}.options`, problems);
+    checkVisibilityMap(q.optionVisibility, options, `${path}.optionVisibility`, problems);
+    if (q.other !== undefined) {
+      if (fieldKind === 'language') problems.push({ path: `${path}.other`, reason: 'language answers have no "Other"' });
+      if (!isObject(q.other)) problems.push({ path: `${path}.other`, reason: 'expected { placeholder? }' });
+      else text(q.other.placeholder, 'other.placeholder', true);
+    }
+    if (!['inline', 'list', 'grid', undefined].includes(q.layout)) problems.push({ path: `${path}.layout`, reason: 'expected inline, list or grid' });
+    if (q.kind === 'multi' && q.max !== undefined && !(Number.isInteger(q.max) && q.max >= 1)) {
+      problems.push({ path: `${path}.max`, reason: 'expected a whole number of at least 1' });
+    }
+    if (q.kind === 'single' && q.translation !== undefined) {
+      if (!isObject(q.translation) || profileFieldKind(q.translation.field) !== 'text') {
+        problems.push({ path: `${path}.translation`, reason: 'expected { field, label, hint? } with a text field' });
+      } else {
+        text(q.translation.label, 'translation.label');
+        text(q.translation.hint, 'translation.hint', true);
+      }
+    }
+  }
+  if (q.kind === 'text' || q.kind === 'textarea') text(q.placeholder, 'placeholder', true);
+  if (q.kind === 'matrix') {
+    const rows = checkValues(q.rows, `${path}.rows`, problems);
+    // the twin's policy looks its permissions up by these row labels, so a row it doesn't know would never apply
+    const areas = TWIN_ACTION_TYPES.map((action) => TWIN_ACTIONS[action].area);
+    rows.forEach((row, i) => {
+      if (!areas.includes(row)) problems.push({ path: `${path}.rows[${i}]`, reason: `expected one of the twin's action areas: ${areas.join(', ')}` });
+    });
+    checkVisibilityMap(q.rowVisibility, rows, `${path}.rowVisibility`, problems);
+    if (!Array.isArray(q.columns) || !q.columns.length || !q.columns.every((c: any) => isObject(c) && PERMISSIONS.includes(c.value))) {
+      problems.push({ path: `${path}.columns`, reason: `expected columns with a value of ${PERMISSIONS.join(', ')}` });
+    } else {
+      q.columns.forEach((c: any, i: number) => text(c.label, `columns[${i}].label`));
+    }
+  }
+}
+
+// Checks a questionnaire before it is published: well-formed steps and questions, unique ids,
+// at least one question per step, answers bound to real profile fields and copy for every key.
+export function validateQuestionnaire(input: unknown): { ok: true; questionnaire: Questionnaire } | { ok: false; problems: QuestionnaireProblem[] } {
+  const problems: QuestionnaireProblem[] = [];
+  if (!isObject(input)) return { ok: false, problems: [{ path: '', reason: 'expected a questionnaire object' }] };
+
+  const messages = input.messages;
+  const copy: Messages | undefined = isObject(messages) ? messages : undefined;
+  if (messages !== undefined) {
+    if (!isObject(messages)) problems.push({ path: 'messages', reason: 'expected copy keyed by locale' });
+    else {
+      Object.keys(messages).forEach((locale) => {
+        const catalog = messages[locale];
+        if (!LOCALES.includes(locale as Locale)) problems.push({ path: `messages.${locale}`, reason: `unsupported locale, expected ${LOCALES.join(' or ')}` });
+        else if (!isObject(catalog) || !Object.values(catalog).every((m) => typeof m === 'string')) {
+          problems.push({ path: `messages.${locale}`, reason: 'expected key -> text' });
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    problems.push({ path: 'steps', reason: 'expected at least one step' });
+    return { ok: false, problems };
+  }
+
+  const stepIds: string[] = [];
+  const questionIds: string[] = [];
+  const fields: string[] = [];
+  input.steps.forEach((step: any, i: number) => {
+    const path = `steps[${i}]`;
+    if (!isObject(step)) return problems.push({ path, reason: 'expected a step object' });
+    const text = (key: unknown, where: string, optional = false) => checkText(key, `${path}.${where}`, copy, problems, optional);
+    if (typeof step.id !== 'string' || !ID_PATTERN.test(step.id)) problems.push({ path: `${path}.id`, reason: 'expected an id of letters, digits, - or _' });
+    else if (RESERVED_STEP_IDS.includes(step.id)) problems.push({ path: `${path}.id`, reason: `"${step.id}" is reserved` });
+    else if (stepIds.includes(step.id)) problems.push({ path: `${path}.id`, reason: `duplicate step id "${step.id}"` });
+    else stepIds.push(step.id);
+    text(step.label, 'label');
+    if (!isObject(step.intro)) problems.push({ path: `${path}.intro`, reason: 'expected { title, subtitle?, body? }' });
+    else {
+      text(step.intro.title, 'intro.title');
+      text(step.intro.subtitle, 'intro.subtitle', true);
+      text(step.intro.body, 'intro.body', true);
+    }
+    if (!isObject(step.done)) problems.push({ path: `${path}.done`, reason: 'expected { title, body?, icon? }' });
+    else {
+      text(step.done.title, 'done.title');
+      text(step.done.body, 'done.body', true);
+    }
+    if (!Array.isArray(step.questions) || step.questions.length === 0) {
+      return problems.push({ path: `${path}.questions`, reason: 'every step needs at least one question' });
+    }
+    step.questions.forEach((q: any, j: number) => {
+      const qPath = `${path}.questions[${j}]`;
+      if (isObject(q)) {
+        if (typeof q.id !== 'string' || !ID_PATTERN.test(q.id)) problems.push({ path: `${qPath}.id`, reason: 'expected an id of letters, digits, - or _' });
+        else if (questionIds.includes(q.id)) problems.push({ path: `${qPath}.id`, reason: `duplicate question id "${q.id}"` });
+        else questionIds.push(q.id);
+        if (typeof q.field === 'string' && fields.includes(q.field)) problems.push({ path: `${qPath}.field`, reason: `"${q.field}" is already asked by another question` });
+        else if (typeof q.field === 'string') fields.push(q.field);
+      }
+      checkQuestion(q, qPath, copy, problems);
+    });
+  });
+
+  return problems.length ? { ok: false, problems } : { ok: true, questionnaire: input as unknown as Questionnaire };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { claimAccountForProvider, createAccount, markEmailVerified, verifyAccountPassword } from '@/lib/server/accounts';
+
+const PASSWORD = 'correct horse battery staple';
+
+async function account(email: string) {
+  const created = await createAccount({ firstName: 'Sam', lastName: 'Jansen', email, country: 'NL', linkedIn: '', password: PASSWORD });
+  if (!created) throw new Error(`${email} already exists`);
+  return created;
+}
+
+describe('claimAccountForProvider', () => {
+  it('takes an unverified account away from whoever registered it', async () => {
+    // someone signed up with the coach's address and never confirmed it
+    await account('pre-hijacked@example.com');
+    const result = await claimAccountForProvider('Pre-Hijacked@example.com');
+    expect(result && result.claimed).toBe(true);
+    expect(result && result.account).toMatchObject({ passwordHash: null, emailVerifiedAt: expect.any(String) });
+    expect(await verifyAccountPassword('pre-hijacked@example.com', PASSWORD)).toBeNull();
+  });
+
+  it('leaves a verified account and its password alone', async () => {
+    await account('verified@example.com');
+    await markEmailVerified('verified@example.com');
+    const result = await claimAccountForProvider('verified@example.com');
+    expect(result && result.claimed).toBe(false);
+    expect(await verifyAccountPassword('verified@example.com', PASSWORD)).not.toBeNull();
+  });
+
+  it('resolves null for an unknown email', async () => {
+    expect(await claimAccountForProvider('nobody@example.com')).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { AccountInput } from '@/lib/accountValidation';
+import { AuthProvider } from '@/lib/auth';
+import { hashPassword, verifyPassword } from '@/lib/server/password';
+import { getStore } from '@/lib/server/store';
+
+export type Account = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  // ISO 3166-1 alpha-2, or empty; accounts from before codes may hold a country name
+  country: string;
+  linkedIn: string;
+  passwordHash: string | null;
+  // when the coach proved the email is theirs, through a link we sent or a provider that vouches for it
+  emailVerifiedAt: string | null;
+  // the onboarding draft a resume link brings back
+  draftId: string | null;
+  createdAt: string;
+};
+
+export type PublicAccount = Omit<Account, 'passwordHash' | 'emailVerifiedAt' | 'draftId'> & { hasPassword: boolean; emailVerified: boolean; isAdmin: boolean };
+
+// accounts are keyed by normalized email, which makes duplicate detection a single atomic insert
+const accounts = getStore<Account>('accounts');
+
+// A provider sign-in attached to an account, keyed by provider and the provider's subject id.
+export type LinkedIdentity = {
+  provider: AuthProvider;
+  subject: string;
+  // the account's key
+  email: string;
+  linkedAt: string;
+};
+
+const identities = getStore<LinkedIdentity>('identities');
+
+const identityKey = (provider: AuthProvider, subject: string) => `${provider}:${subject}`;
+
+// ADMIN_EMAILS lists (comma-separated) the accounts that may publish questionnaires. The address
+// has to be verified too, or anyone could sign up with an admin's address before they do.
+export function isAdmin(account: Account) {
+  const admins = (process.env.ADMIN_EMAILS || '').split(',').map((email) => email.trim().toLowerCase()).filter(Boolean);
+  return !!account.emailVerifiedAt && admins.indexOf(account.email) >= 0;
+}
+
+export function toPublicAccount(account: Account): PublicAccount {
+  const { passwordHash, emailVerifiedAt, draftId, ...rest } = account;
+  // accounts from before verification existed have no emailVerifiedAt at all
+  return { ...rest, hasPassword: passwordHash !== null, emailVerified: !!emailVerifiedAt, isAdmin: isAdmin(account) };
+}
+
+export async function findAccountByEmail(email: string) {
+  return accounts.get(email.trim().toLowerCase());
+}
+
+// Resolves null when an account with this email already exists.
+export async function createAccount(input: AccountInput, { emailVerified = false } = {}): Promise<Account | null> {
+  const now = new Date().toISOString();
+  const account: Account = {
+    id: randomUUID(),
+    firstName: input.firstName,
+    lastName: input.lastName,
+    email: input.email,
+    country: input.country,
+    linkedIn: input.linkedIn,
+    passwordHash: input.password ? await hashPassword(input.password) : null,
+    emailVerifiedAt: emailVerified ? now : null,
+    draftId: null,
+    createdAt: now,
+  };
+  return (await accounts.create(account.email, account)) ? account : null;
+}
+
+export async function findAccountByIdentity(provider: AuthProvider, subject: string) {
+  const identity = await identities.get(identityKey(provider, subject));
+  return identity ? findAccountByEmail(identity.email) : null;
+}
+
+// Resolves false when this sign-in already belongs to a different account.
+export async function linkIdentity(provider: AuthProvider, subject: string, email: string): Promise<boolean> {
+  const key = identityKey(provider, subject);
+  const identity: LinkedIdentity = { provider, subject, email: email.trim().toLowerCase(), linkedAt: new Date().toISOString() };
+  if (await identities.create(key, identity)) return true;
+  const existing = await identities.get(key);
+  return !!existing && existing.email === identity.email;
+}
+
+// checked against when there is no account, so a wrong email takes as long as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+// The account when the password is right; null for a wrong password, an unknown email or an
+// account without a password (one made through LinkedIn or Google).
+export async function verifyAccountPassword(email: string, password: string): Promise<Account | null> {
+  const account = await findAccountByEmail(email);
+  if (!account || !account.passwordHash) {
+    if (!dummyHash) dummyHash = hashPassword('not a real password');
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  return (await verifyPassword(password, account.passwordHash)) ? account : null;
+}
+
+export async function setAccountPassword(email: string, password: string): Promise<Account | null> {
+  const passwordHash = await hashPassword(password);
+  return accounts.update(email.trim().toLowerCase(), (account) => (account ? { ...account, passwordHash } : null));
+}
+
+// Hands an account to the person a provider vouches for as the owner of its email. An account
+// nobody verified yet may have been registered by someone else with that address, so it loses its
+// password; `claimed` tells the caller to end the sessions whoever made it still has.
+export async function claimAccountForProvider(email: string): Promise<{ account: Account; claimed: boolean } | null> {
+  let claimed = false;
+  const account = await accounts.update(email.trim().toLowerCase(), (current) => {
+    claimed = !!current && !current.emailVerifiedAt;
+    return current && claimed ? { ...current, passwordHash: null, emailVerifiedAt: new Date().toISOString() } : current;
+  });
+  return account ? { account, claimed } : null;
+}
+
+export function markEmailVerified(email: string): Promise<Account | null> {
+  return accounts.update(email.trim().toLowerCase(), (account) => (account && !account.emailVerifiedAt ? { ...account, emailVerifiedAt: new Date().toISOString() } : account));
+}
+
+// Remembers the draft the coach is working on, so a resume link can bring it back on another device.
+// Called on every autosave, so it only writes when the draft changed.
+export function rememberDraft(email: string, draftId: string): Promise<Account | null> {
+  return accounts.update(email.trim().toLowerCase(), (account) => (account && account.draftId !== draftId ? { ...account, draftId } : null));
+}
@@ -0,0 +1,45 @@
+import { DEFAULT_LOCALE, Locale, MessageParams, createTranslator } from '@/lib/i18n';
+import type { Account } from '@/lib/server/accounts';
+import { sendMail } from '@/lib/server/mail';
+import { PASSWORD_RESET_TTL } from '@/lib/server/passwordReset';
+import { signToken } from '@/lib/server/signedTokens';
+
+// The emails the auth routes send, in the coach's language. Each one is a greeting, a line about
+// what the link does, the link itself and how long it works.
+
+// in seconds
+export const VERIFY_EMAIL_TTL = 48 * 60 * 60;
+export const RESUME_LINK_TTL = 30 * 60;
+
+type LinkEmail = { to: Account; locale: Locale | null; kind: 'verify' | 'resume' | 'reset'; link: string; expiry: MessageParams };
+
+function sendLinkEmail({ to, locale, kind, link, expiry }: LinkEmail) {
+  const { t } = createTranslator(locale || DEFAULT_LOCALE);
+  const text = [
+    t('email.greeting', { name: to.firstName }),
+    t(`email.${kind}.body`, { email: to.email }),
+    link,
+    `${t(`email.${kind}.expiry`, expiry)} ${t('email.ignore')}`,
+    t('email.signature'),
+  ].join('\n\n');
+  return sendMail({ to: to.email, subject: t(`email.${kind}.subject`), text });
+}
+
+const withLocale = (url: string, locale: Locale | null) => (locale ? `${url}&lang=${locale}` : url);
+
+export async function sendVerificationEmail(account: Account, origin: string, locale: Locale | null) {
+  const token = signToken('verify-email', account.email, VERIFY_EMAIL_TTL);
+  const link = withLocale(`${origin}/verify-email?token=${token}`, locale);
+  return sendLinkEmail({ to: account, locale, kind: 'verify', link, expiry: { hours: VERIFY_EMAIL_TTL / 3600 } });
+}
+
+export async function sendResumeEmail(account: Account, origin: string, locale: Locale | null) {
+  const token = signToken('resume', account.email, RESUME_LINK_TTL);
+  const link = withLocale(`${origin}/resume?token=${token}`, locale);
+  return sendLinkEmail({ to: account, locale, kind: 'resume', link, expiry: { minutes: RESUME_LINK_TTL / 60 } });
+}
+
+export async function sendPasswordResetEmail(account: Account, token: string, origin: string, locale: Locale | null) {
+  const link = withLocale(`${origin}/reset-password?token=${token}`, locale);
+  return sendLinkEmail({ to: account, locale, kind: 'reset', link, expiry: { minutes: PASSWORD_RESET_TTL / 60 } });
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createCircuitBreaker } from '@/lib/server/circuitBreaker';
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createCircuitBreaker', () => {
+  it('opens after the failure threshold and lets nothing through', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 3, resetAfterMs: 1000 });
+    breaker.failure();
+    breaker.failure();
+    expect(breaker.state()).toBe('closed');
+    breaker.failure();
+    expect(breaker.state()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('only counts failures in a row', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 });
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    expect(breaker.state()).toBe('closed');
+  });
+
+  it('half-opens after the reset period for a single trial', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 1, resetAfterMs: 1000 });
+    breaker.failure();
+    vi.advanceTimersByTime(999);
+    expect(breaker.tryAcquire()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(breaker.state()).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 });
+    breaker.failure();
+    breaker.failure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.success();
+    expect(breaker.state()).toBe('closed');
+    // and needs the full threshold to open again
+    breaker.failure();
+    expect(breaker.state()).toBe('closed');
+  });
+
+  it('re-opens for another period when the trial fails', () => {
+    const breaker = createCircuitBreaker({ failureThreshold: 2, resetAfterMs: 1000 });
+    breaker.failure();
+    breaker.failure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.failure();
+    expect(breaker.state()).toBe('open');
+    vi.advanceTimersByTime(1000);
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+// Stops calling a dependency that keeps failing. After `failureThreshold` failures in a row the
+// breaker opens and callers skip the dependency; once `resetAfterMs` has passed it lets a single
+// trial call through (half-open), which either closes it again or re-opens it for another period.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitBreaker = {
+  state(): CircuitState;
+  // whether a call may go ahead now; in half-open state only the first caller gets true
+  tryAcquire(): boolean;
+  success(): void;
+  failure(): void;
+};
+
+export function createCircuitBreaker({ failureThreshold, resetAfterMs }: { failureThreshold: number; resetAfterMs: number }): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialRunning = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return 'closed';
+    return Date.now() - openedAt >= resetAfterMs ? 'half-open' : 'open';
+  };
+
+  return {
+    state,
+    tryAcquire() {
+      const current = state();
+      if (current === 'closed') return true;
+      if (current === 'open' || trialRunning) return false;
+      trialRunning = true;
+      return true;
+    },
+    success() {
+      failures = 0;
+      openedAt = null;
+      trialRunning = false;
+    },
+    failure() {
+      failures++;
+      // a failed trial re-opens straight away
+      if (trialRunning || failures >= failureThreshold) openedAt = Date.now();
+      trialRunning = false;
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type { IncomingMessage } from 'http';
+import { CidrBlock, IpAddress, LOOPBACK_BLOCKS, PRIVATE_BLOCKS, inCidr, parseCidr, parseIp } from '@/lib/server/ip';
+
+// The address of the browser behind a request. X-Forwarded-For is only believed as far as
+// TRUST_PROXY allows, because anyone can send the header:
+//   (unset) or false — no proxy; the socket's peer is the client
+//   true             — every hop is trusted; the first address in the header is the client
+//   a number N       — N proxies in front of the app; the client is the address N hops back
+//   a list           — comma-separated addresses and CIDR blocks of our proxies, plus the
+//                      shortcuts "loopback" and "private"; the client is the last address
+//                      counting from the socket that isn't one of them
+
+type TrustPolicy = { kind: 'none' } | { kind: 'all' } | { kind: 'hops'; hops: number } | { kind: 'blocks'; blocks: CidrBlock[] };
+
+let policy: TrustPolicy | null = null;
+
+function trustPolicy(): TrustPolicy {
+  if (policy) return policy;
+  const value = (process.env.TRUST_PROXY || '').trim().toLowerCase();
+  if (!value || value === 'false') policy = { kind: 'none' };
+  else if (value === 'true') policy = { kind: 'all' };
+  else if (/^\d+$/.test(value)) policy = { kind: 'hops', hops: Number(value) };
+  else {
+    const blocks: CidrBlock[] = [];
+    value.split(',').forEach((entry) => {
+      const name = entry.trim();
+      if (name === 'loopback') blocks.push(...LOOPBACK_BLOCKS);
+      else if (name === 'private') blocks.push(...PRIVATE_BLOCKS);
+      else {
+        const block = parseCidr(name);
+        if (!block) throw new Error(`TRUST_PROXY: "${name}" is not an address, a CIDR block, loopback or private`);
+        blocks.push(block);
+      }
+    });
+    policy = { kind: 'blocks', blocks };
+  }
+  return policy;
+}
+
+// Whether the socket's peer is one of our proxies, so the X-Forwarded-* headers it sends can be believed.
+export function fromTrustedProxy(req: IncomingMessage) {
+  const trust = trustPolicy();
+  if (trust.kind === 'all') return true;
+  if (trust.kind === 'hops') return trust.hops > 0;
+  if (trust.kind === 'none') return false;
+  const peer = req.socket && req.socket.remoteAddress ? parseIp(req.socket.remoteAddress) : null;
+  return !!peer && trust.blocks.some((block) => inCidr(peer, block));
+}
+
+// The client's address, or null when it can't be told (e.g. a malformed forwarded header).
+export function clientIp(req: IncomingMessage): IpAddress | null {
+  const peer = req.socket && req.socket.remoteAddress ? parseIp(req.socket.remoteAddress) : null;
+  const trust = trustPolicy();
+  if (trust.kind === 'none' || !peer) return peer;
+
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  // nearest hop last: the proxy that talked to us appended the address it saw
+  const chain = forwarded.map(parseIp).concat([peer]);
+
+  if (trust.kind === 'all') return chain[0];
+  if (trust.kind === 'hops') return chain[Math.max(0, chain.length - 1 - trust.hops)];
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const hop = chain[i];
+    // a garbled entry means we can't tell who is behind it
+    if (!hop) return null;
+    if (i === 0 || !trust.blocks.some((block) => inCidr(hop, block))) return hop;
+  }
+  return null;
+}
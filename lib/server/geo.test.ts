@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGeoLocator } from '@/lib/server/geo';
+import { GeoProvider, GeoProviderError } from '@/lib/server/geoProviders';
+import { IpAddress, parseIp } from '@/lib/server/ip';
+
+type StubProvider = GeoProvider & { calls: number; signals: AbortSignal[] };
+
+// a provider that answers with `answer` (a country code, null for "not known", or an error to throw)
+function stub(name: string, answer: () => string | null | Error | Promise<never>, timeoutMs = 1000): StubProvider {
+  const provider: StubProvider = {
+    name,
+    timeoutMs,
+    calls: 0,
+    signals: [],
+    async lookup(ip, signal) {
+      provider.calls++;
+      provider.signals.push(signal);
+      const result = await answer();
+      if (result instanceof Error) throw result;
+      return result === null ? null : { countryCode: result, countryName: result, region: null, timezone: null, confidence: 0.9, source: name };
+    },
+  };
+  return provider;
+}
+
+const never = () => new Promise<never>(() => {});
+const failing = () => new GeoProviderError('service down');
+
+const ip = (text: string) => parseIp(text) as IpAddress;
+const ADDRESS = ip('81.2.69.142');
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createGeoLocator', () => {
+  it('asks the providers in order and stops at the first answer', async () => {
+    const first = stub('first', () => null);
+    const second = stub('second', () => 'NL');
+    const third = stub('third', () => 'DE');
+    const result = await createGeoLocator([first, second, third]).locate(ADDRESS);
+    expect(result).toMatchObject({ status: 'ok', source: 'second', country_code: 'NL' });
+    expect([first.calls, second.calls, third.calls]).toEqual([1, 1, 0]);
+  });
+
+  it('moves on when a provider fails', async () => {
+    const broken = stub('broken', failing);
+    const backup = stub('backup', () => 'BE');
+    expect(await createGeoLocator([broken, backup]).locate(ADDRESS)).toMatchObject({ status: 'ok', source: 'backup', country_code: 'BE' });
+  });
+
+  it('cuts off a provider that takes longer than its timeout, and aborts its request', async () => {
+    const slow = stub('slow', never, 20);
+    const backup = stub('backup', () => 'FR');
+    expect(await createGeoLocator([slow, backup]).locate(ADDRESS)).toMatchObject({ status: 'ok', source: 'backup' });
+    expect(slow.signals[0].aborted).toBe(true);
+  });
+
+  it('answers for missing and private addresses without asking anyone', async () => {
+    const provider = stub('provider', () => 'NL');
+    const locator = createGeoLocator([provider]);
+    expect(await locator.locate(null)).toMatchObject({ status: 'unknown', reason: 'no_ip' });
+    expect(await locator.locate(ip('192.168.1.10'))).toMatchObject({ status: 'unknown', reason: 'private' });
+    expect(provider.calls).toBe(0);
+  });
+
+  it('caches answers and complete "not found" results', async () => {
+    const known = stub('known', () => 'NL');
+    const locator = createGeoLocator([known]);
+    await locator.locate(ADDRESS);
+    await locator.locate(ADDRESS);
+    expect(known.calls).toBe(1);
+
+    const unknown = stub('unknown', () => null);
+    const other = createGeoLocator([unknown]);
+    expect(await other.locate(ADDRESS)).toMatchObject({ status: 'unknown', reason: 'not_found' });
+    await other.locate(ADDRESS);
+    expect(unknown.calls).toBe(1);
+  });
+
+  it('does not cache "not found" when a provider failed', async () => {
+    let fail = true;
+    const flaky = stub('flaky', () => (fail ? failing() : 'NL'));
+    const locator = createGeoLocator([flaky]);
+    expect(await locator.locate(ADDRESS)).toMatchObject({ status: 'unknown', reason: 'not_found' });
+    fail = false;
+    expect(await locator.locate(ADDRESS)).toMatchObject({ status: 'ok', country_code: 'NL' });
+  });
+
+  it('skips a failing provider until its breaker half-opens, then closes it on success', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let fail = true;
+    const flaky = stub('flaky', () => (fail ? failing() : 'NL'));
+    const backup = stub('backup', () => null);
+    const locator = createGeoLocator([flaky, backup], { failureThreshold: 2, resetAfterMs: 1000 });
+
+    await locator.locate(ADDRESS);
+    await locator.locate(ADDRESS);
+    expect(flaky.calls).toBe(2);
+
+    // open: skipped, and the "not found" isn't cached because flaky was never asked
+    expect(await locator.locate(ADDRESS)).toMatchObject({ status: 'unknown', reason: 'not_found' });
+    expect(flaky.calls).toBe(2);
+    expect(backup.calls).toBe(3);
+
+    // half-open: one trial request, which succeeds and closes the breaker
+    fail = false;
+    vi.advanceTimersByTime(1000);
+    expect(await locator.locate(ADDRESS)).toMatchObject({ status: 'ok', source: 'flaky' });
+    expect(flaky.calls).toBe(3);
+
+    fail = true;
+    await locator.locate(ip('81.2.69.143'));
+    expect(flaky.calls).toBe(4);
+  });
+
+  it('re-opens the breaker when the half-open trial fails', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const broken = stub('broken', failing);
+    const locator = createGeoLocator([broken], { failureThreshold: 1, resetAfterMs: 1000 });
+
+    await locator.locate(ADDRESS);
+    vi.advanceTimersByTime(1000);
+    await locator.locate(ADDRESS);
+    expect(broken.calls).toBe(2);
+    await locator.locate(ADDRESS);
+    expect(broken.calls).toBe(2);
+  });
+});
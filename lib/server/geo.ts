@@ -0,0 +1,160 @@
+import type { IncomingMessage } from 'http';
+import { countryFromLanguages, parseAcceptLanguage } from '@/lib/countries';
+import { GeoResponse } from '@/lib/geo';
+import { CircuitBreaker, createCircuitBreaker } from '@/lib/server/circuitBreaker';
+import { clientIp } from '@/lib/server/clientIp';
+import {
+  GeoLocation,
+  GeoProvider,
+  GeoProviderError,
+  createIpapiProvider,
+  createIpinfoProvider,
+  createIpwhoisProvider,
+  createOfflineProvider,
+} from '@/lib/server/geoProviders';
+import { IpAddress, isPrivateIp } from '@/lib/server/ip';
+import { createLruCache } from '@/lib/server/lruCache';
+
+// Country detection for the onboarding form, from the address the request came from. Providers
+// are asked in the order GEO_PROVIDERS lists them (comma-separated, default "offline,ipapi"):
+//   offline  — the IP range database GEOIP_DB points at (lib/server/geoip.ts); nothing leaves the
+//              server. The bundled data/geoip/ip-country.csv only holds a few sample ranges, so
+//              set GEOIP_DB to the full DB-IP "IP to Country Lite" CSV (db-ip.com, monthly) before
+//              relying on offline alone
+//   ipapi    — ipapi.co
+//   ipwhois  — ipwhois.app
+//   ipinfo   — ipinfo.io (GEO_IPINFO_TOKEN)
+// The web services get the client's address, so only list them where that is acceptable;
+// GEO_PROVIDERS=offline with a full GEOIP_DB keeps every address on the server.
+// GEO_TIMEOUT_MS (default 3000) bounds each call; GEO_<NAME>_TIMEOUT_MS overrides it for one
+// provider. After GEO_BREAKER_FAILURES failures in a row (default 3) a provider is skipped for
+// GEO_BREAKER_RESET_MS (default 60000), then tried again with a single request.
+
+export type GeoLocator = {
+  locate(ip: IpAddress | null): Promise<GeoResponse>;
+};
+
+export type GeoLocatorOptions = {
+  failureThreshold: number;
+  resetAfterMs: number;
+  cacheSize: number;
+  cacheTtlMs: number;
+};
+
+const DEFAULT_OPTIONS: GeoLocatorOptions = { failureThreshold: 3, resetAfterMs: 60 * 1000, cacheSize: 5000, cacheTtlMs: 60 * 60 * 1000 };
+
+const unknown = (reason: 'no_ip' | 'private' | 'not_found'): GeoResponse => ({ status: 'unknown', reason, source: 'none', country_code: '', country_name: '', fallback_country_code: '' });
+
+// field by field, so nothing a provider added to its result can slip through
+const toResponse = (location: GeoLocation): GeoResponse => ({
+  status: 'ok',
+  source: location.source,
+  country_code: location.countryCode,
+  country_name: location.countryName,
+  region: location.region,
+  timezone: location.timezone,
+  confidence: location.confidence,
+});
+
+async function lookupWithTimeout(provider: GeoProvider, ip: IpAddress) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // providers that ignore the abort signal are cut off all the same
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new GeoProviderError(`${provider.name} timed out after ${provider.timeoutMs} ms`));
+    }, provider.timeoutMs);
+  });
+  try {
+    return await Promise.race([provider.lookup(ip, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createGeoLocator(providers: GeoProvider[], options: Partial<GeoLocatorOptions> = {}): GeoLocator {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const breakers: Record<string, CircuitBreaker> = {};
+  providers.forEach((provider) => {
+    breakers[provider.name] = createCircuitBreaker({ failureThreshold: opts.failureThreshold, resetAfterMs: opts.resetAfterMs });
+  });
+  const cache = createLruCache<GeoResponse>(opts.cacheSize, opts.cacheTtlMs);
+
+  return {
+    async locate(ip) {
+      if (!ip) return unknown('no_ip');
+      if (isPrivateIp(ip)) return unknown('private');
+      const cached = cache.get(ip.hex);
+      if (cached) return cached;
+
+      // a "not found" only counts when every provider was asked and answered
+      let complete = true;
+      for (const provider of providers) {
+        const breaker = breakers[provider.name];
+        if (!breaker.tryAcquire()) {
+          complete = false;
+          continue;
+        }
+        try {
+          const location = await lookupWithTimeout(provider, ip);
+          breaker.success();
+          if (location) {
+            const result = toResponse(location);
+            cache.set(ip.hex, result);
+            return result;
+          }
+        } catch (err) {
+          breaker.failure();
+          complete = false;
+          // eslint-disable-next-line no-console
+          console.warn('geo provider failed', provider.name, err instanceof Error ? err.message : err);
+        }
+      }
+      const result = unknown('not_found');
+      if (complete) cache.set(ip.hex, result);
+      return result;
+    },
+  };
+}
+
+// the bundled database misses most addresses, so ipapi answers for the rest
+const DEFAULT_PROVIDERS = 'offline,ipapi';
+
+const PROVIDER_FACTORIES: Record<string, (timeoutMs: number) => GeoProvider> = {
+  offline: (timeoutMs) => createOfflineProvider({ timeoutMs }),
+  ipapi: (timeoutMs) => createIpapiProvider({ timeoutMs }),
+  ipwhois: (timeoutMs) => createIpwhoisProvider({ timeoutMs }),
+  ipinfo: (timeoutMs) => createIpinfoProvider({ timeoutMs, token: process.env.GEO_IPINFO_TOKEN }),
+};
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] && value > 0 ? value : fallback;
+};
+
+let locator: GeoLocator | null = null;
+
+export function getGeoLocator(): GeoLocator {
+  if (locator) return locator;
+  const names = (process.env.GEO_PROVIDERS || DEFAULT_PROVIDERS).split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+  const providers = names.map((name) => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) throw new GeoProviderError(`Unknown geo provider "${name}" in GEO_PROVIDERS (expected offline, ipapi, ipwhois or ipinfo)`);
+    return factory(envNumber(`GEO_${name.toUpperCase()}_TIMEOUT_MS`, envNumber('GEO_TIMEOUT_MS', 3000)));
+  });
+  locator = createGeoLocator(providers, {
+    failureThreshold: envNumber('GEO_BREAKER_FAILURES', DEFAULT_OPTIONS.failureThreshold),
+    resetAfterMs: envNumber('GEO_BREAKER_RESET_MS', DEFAULT_OPTIONS.resetAfterMs),
+  });
+  return locator;
+}
+
+export async function lookupRequestCountry(req: IncomingMessage): Promise<GeoResponse> {
+  const result = await getGeoLocator().locate(clientIp(req));
+  if (result.status === 'ok') return result;
+  // when the address says nothing, the browser's languages may still hint at the country
+  const header = req.headers['accept-language'];
+  const fallback = countryFromLanguages(parseAcceptLanguage(typeof header === 'string' ? header : ''));
+  return { ...result, fallback_country_code: fallback || '' };
+}
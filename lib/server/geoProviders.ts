@@ -0,0 +1,122 @@
+import { countryName, isCountryCode } from '@/lib/countries';
+import { lookupOfflineCountry } from '@/lib/server/geoip';
+import { IpAddress } from '@/lib/server/ip';
+
+// Adapters between geo sources and the one shape the rest of the app reads. Each turns its
+// source's answer into a GeoLocation and drops everything else, so nothing a provider sends back
+// reaches the browser unless it is mapped here on purpose.
+
+export type GeoLocation = {
+  // ISO 3166-1 alpha-2
+  countryCode: string;
+  // in English; the form shows the name for the code in the coach's language
+  countryName: string;
+  region: string | null;
+  // IANA zone, e.g. Europe/Amsterdam
+  timezone: string | null;
+  // 0–1: how far we trust this source's country compared to the others
+  confidence: number;
+  source: string;
+};
+
+export interface GeoProvider {
+  name: string;
+  timeoutMs: number;
+  // null when the source doesn't know the address; throws when the source itself failed
+  lookup(ip: IpAddress, signal: AbortSignal): Promise<GeoLocation | null>;
+}
+
+export class GeoProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'GeoProviderError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const timezone = (value: unknown) => {
+  const zone = text(value);
+  return zone && /^[A-Za-z_]+(\/[A-Za-z0-9_+-]+)*$/.test(zone) ? zone : null;
+};
+
+// Builds a GeoLocation from loosely typed fields; null unless there is a usable country code.
+function location(source: string, confidence: number, fields: { country: unknown; region?: unknown; timezone?: unknown }): GeoLocation | null {
+  const code = (text(fields.country) || '').toUpperCase();
+  if (!isCountryCode(code)) return null;
+  return { countryCode: code, countryName: countryName(code, 'en'), region: text(fields.region), timezone: timezone(fields.timezone), confidence, source };
+}
+
+export function createOfflineProvider(opts: { timeoutMs: number }): GeoProvider {
+  return {
+    name: 'offline',
+    timeoutMs: opts.timeoutMs,
+    async lookup(ip) {
+      const code = await lookupOfflineCountry(ip);
+      // the range databases we read carry countries only
+      return code ? location('offline', 0.8, { country: code }) : null;
+    },
+  };
+}
+
+type HttpProviderOptions = {
+  name: string;
+  timeoutMs: number;
+  confidence: number;
+  url: (ip: string) => string;
+  // null when the service says it has nothing for the address
+  parse: (data: unknown, source: string, confidence: number) => GeoLocation | null;
+};
+
+function createHttpProvider(opts: HttpProviderOptions): GeoProvider {
+  return {
+    name: opts.name,
+    timeoutMs: opts.timeoutMs,
+    async lookup(ip, signal) {
+      const res = await fetch(opts.url(ip.text), { signal, headers: { Accept: 'application/json' } });
+      if (!res.ok) throw new GeoProviderError(`${opts.name} returned HTTP ${res.status}`, res.status);
+      const data: unknown = await res.json().catch(() => null);
+      if (!isRecord(data)) throw new GeoProviderError(`${opts.name} returned an unreadable body`);
+      return opts.parse(data, opts.name, opts.confidence);
+    },
+  };
+}
+
+// ipapi.co; answers { error: true } for reserved addresses
+export function createIpapiProvider(opts: { timeoutMs: number }): GeoProvider {
+  return createHttpProvider({
+    name: 'ipapi',
+    timeoutMs: opts.timeoutMs,
+    confidence: 0.9,
+    url: (ip) => `https://ipapi.co/${encodeURIComponent(ip)}/json/`,
+    parse: (data, source, confidence) => (!isRecord(data) || data.error ? null : location(source, confidence, { country: data.country_code, region: data.region, timezone: data.timezone })),
+  });
+}
+
+// ipwhois.app; the time zone is a string or an object, depending on the plan
+export function createIpwhoisProvider(opts: { timeoutMs: number }): GeoProvider {
+  return createHttpProvider({
+    name: 'ipwhois',
+    timeoutMs: opts.timeoutMs,
+    confidence: 0.85,
+    url: (ip) => `https://ipwhois.app/json/${encodeURIComponent(ip)}`,
+    parse: (data, source, confidence) => (!isRecord(data) || data.success === false ? null : location(source, confidence, {
+      country: data.country_code,
+      region: data.region,
+      timezone: isRecord(data.timezone) ? data.timezone.id : data.timezone,
+    })),
+  });
+}
+
+// ipinfo.io; works without a token at a low rate limit
+export function createIpinfoProvider(opts: { timeoutMs: number; token?: string }): GeoProvider {
+  return createHttpProvider({
+    name: 'ipinfo',
+    timeoutMs: opts.timeoutMs,
+    confidence: 0.9,
+    url: (ip) => `https://ipinfo.io/${encodeURIComponent(ip)}/json${opts.token ? `?token=${encodeURIComponent(opts.token)}` : ''}`,
+    parse: (data, source, confidence) => (!isRecord(data) || data.bogon ? null : location(source, confidence, { country: data.country, region: data.region, timezone: data.timezone })),
+  });
+}
@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IpAddress, parseIp } from '@/lib/server/ip';
+
+// Offline IP-to-country lookup. GEOIP_DB names a CSV of `first,last,CC` ranges, such as DB-IP's
+// "IP to Country Lite" download (unzipped); without it the small sample in data/geoip/ip-country.csv
+// is used. The file is read once, on the first lookup, and searched in memory.
+
+type RangeTable = { starts: string[]; ends: string[]; countries: string[] };
+
+type GeoIpDatabase = Record<4 | 6, RangeTable>;
+
+let database: Promise<GeoIpDatabase> | null = null;
+
+const emptyTable = (): RangeTable => ({ starts: [], ends: [], countries: [] });
+
+function parseGeoIpCsv(csv: string): GeoIpDatabase {
+  const rows: Record<4 | 6, { start: string; end: string; country: string }[]> = { 4: [], 6: [] };
+  csv.split(/\r?\n/).forEach((line) => {
+    if (!line.trim() || line.charAt(0) === '#') return;
+    const [first, last, code] = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    const start = parseIp(first || '');
+    const end = parseIp(last || '');
+    const country = (code || '').toUpperCase();
+    // unusable lines (and the "ZZ" some databases use for unassigned space) are skipped
+    if (!start || !end || start.version !== end.version || !/^[A-Z]{2}$/.test(country) || country === 'ZZ') return;
+    rows[start.version].push({ start: start.hex, end: end.hex, country });
+  });
+
+  const table = (version: 4 | 6) => {
+    const sorted = rows[version].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+    const result = emptyTable();
+    sorted.forEach((row) => {
+      result.starts.push(row.start);
+      result.ends.push(row.end);
+      result.countries.push(row.country);
+    });
+    return result;
+  };
+  return { 4: table(4), 6: table(6) };
+}
+
+function loadDatabase() {
+  if (!database) {
+    const file = process.env.GEOIP_DB || path.join(process.cwd(), 'data', 'geoip', 'ip-country.csv');
+    database = fs.readFile(file, 'utf8').then(parseGeoIpCsv, (e) => {
+      // without a database every address is simply not found; the remote providers may still know
+      // eslint-disable-next-line no-console
+      console.error('GeoIP database could not be read', file, e instanceof Error ? e.message : e);
+      return { 4: emptyTable(), 6: emptyTable() };
+    });
+  }
+  return database;
+}
+
+// The country code of the range holding `ip`, or null when no range does.
+export async function lookupOfflineCountry(ip: IpAddress): Promise<string | null> {
+  const { starts, ends, countries } = (await loadDatabase())[ip.version];
+  // the last range starting at or before the address is the only one that can hold it
+  let low = 0;
+  let high = starts.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (starts[mid] <= ip.hex) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found >= 0 && ip.hex <= ends[found] ? countries[found] : null;
+}
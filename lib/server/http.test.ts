@@ -0,0 +1,43 @@
+import type { IncomingMessage } from 'http';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// a request from `peer` that claims to be for evil.example, as a forged header would
+function request(peer: string): IncomingMessage {
+  return {
+    headers: { host: 'app.example', 'x-forwarded-host': 'evil.example', 'x-forwarded-proto': 'https' },
+    socket: { remoteAddress: peer },
+  } as unknown as IncomingMessage;
+}
+
+// clientIp reads TRUST_PROXY once per module instance
+async function originFor(peer: string, env: Record<string, string>) {
+  vi.resetModules();
+  Object.keys(env).forEach((name) => vi.stubEnv(name, env[name]));
+  const { appOrigin } = await import('@/lib/server/http');
+  return appOrigin(request(peer));
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('appOrigin', () => {
+  it('uses AUTH_URL whatever the request says', async () => {
+    expect(await originFor('81.2.69.142', { AUTH_URL: 'https://coachnova.example/', TRUST_PROXY: 'true' })).toBe('https://coachnova.example');
+  });
+
+  it('requires AUTH_URL in production', async () => {
+    await expect(originFor('10.0.0.2', { AUTH_URL: '', NODE_ENV: 'production' })).rejects.toThrow('AUTH_URL');
+  });
+
+  it('ignores forwarded headers without a trusted proxy', async () => {
+    expect(await originFor('81.2.69.142', { AUTH_URL: '', TRUST_PROXY: '' })).toBe('http://app.example');
+    expect(await originFor('81.2.69.142', { AUTH_URL: '', TRUST_PROXY: 'private' })).toBe('http://app.example');
+    expect(await originFor('81.2.69.142', { AUTH_URL: '', TRUST_PROXY: '0' })).toBe('http://app.example');
+  });
+
+  it('believes forwarded headers from a proxy TRUST_PROXY vouches for', async () => {
+    expect(await originFor('10.0.0.2', { AUTH_URL: '', TRUST_PROXY: 'private' })).toBe('https://evil.example');
+    expect(await originFor('81.2.69.142', { AUTH_URL: '', TRUST_PROXY: '1' })).toBe('https://evil.example');
+  });
+});
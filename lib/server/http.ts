@@ -0,0 +1,56 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { fromTrustedProxy } from '@/lib/server/clientIp';
+
+// Request helpers for the auth routes.
+
+const firstHeader = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value || '').split(',')[0].trim();
+
+const configuredOrigin = () => (process.env.AUTH_URL ? process.env.AUTH_URL.replace(/\/+$/, '') : null);
+
+// The origin the browser asked for: the Host header, or X-Forwarded-Host and -Proto when they come
+// from a proxy TRUST_PROXY vouches for (anyone else can put any host in them).
+function requestOrigin(req: IncomingMessage) {
+  const proxied = fromTrustedProxy(req);
+  const proto = (proxied && firstHeader(req.headers['x-forwarded-proto'])) || 'http';
+  const host = (proxied && firstHeader(req.headers['x-forwarded-host'])) || firstHeader(req.headers.host) || 'localhost:3000';
+  return `${proto === 'https' ? 'https' : 'http'}://${host}`;
+}
+
+// The public origin of the app, for links in emails and OIDC redirect URIs. AUTH_URL pins it and is
+// required in production: a reset link built from a forged Host header would hand its token to
+// whoever owns that host. Development falls back to the request's own origin.
+export function appOrigin(req: IncomingMessage) {
+  const configured = configuredOrigin();
+  if (configured) return configured;
+  if (process.env.NODE_ENV === 'production') throw new Error('AUTH_URL must be set in production; emailed links and sign-in redirects are built from it');
+  return requestOrigin(req);
+}
+
+export function readCookie(req: IncomingMessage, name: string): string | null {
+  const header = req.headers.cookie || '';
+  for (const part of header.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0 && part.slice(0, eq).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(eq + 1).trim());
+      } catch (e) {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// HttpOnly and SameSite=Lax, so the cookie still comes along when a provider redirects back.
+// `maxAge` is in seconds; 0 deletes the cookie.
+export function setCookie(req: IncomingMessage, res: ServerResponse, name: string, value: string, maxAge: number) {
+  const parts = [`${name}=${encodeURIComponent(value)}`, 'Path=/', 'HttpOnly', 'SameSite=Lax', `Max-Age=${maxAge}`];
+  if ((configuredOrigin() || requestOrigin(req)).startsWith('https:')) parts.push('Secure');
+  const existing = res.getHeader('Set-Cookie');
+  const cookies = Array.isArray(existing) ? existing : typeof existing === 'string' ? [existing] : [];
+  res.setHeader('Set-Cookie', [...cookies, parts.join('; ')]);
+}
+
+export function clearCookie(req: IncomingMessage, res: ServerResponse, name: string) {
+  setCookie(req, res, name, '', 0);
+}
@@ -0,0 +1,101 @@
+// IP address parsing for the geo lookup and the trusted-proxy check. Addresses become fixed-width
+// hex strings (8 digits for IPv4, 32 for IPv6), so ranges compare as plain strings and CIDR blocks
+// as prefixes.
+
+export type IpAddress = {
+  version: 4 | 6;
+  hex: string;
+  // the canonical text form: dotted quad, or the input lower-cased for IPv6
+  text: string;
+};
+
+export type CidrBlock = { version: 4 | 6; hex: string; bits: number };
+
+const pad = (value: string, length: number) => (value.length >= length ? value : new Array(length - value.length + 1).join('0') + value);
+
+function parseIpv4(value: string): string | null {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(value)) return null;
+  const parts = value.split('.').map(Number);
+  if (parts.some((part) => part > 255)) return null;
+  return parts.map((part) => pad(part.toString(16), 2)).join('');
+}
+
+function parseIpv6(value: string): string | null {
+  let text = value;
+  // an embedded IPv4 address, as in ::ffff:192.0.2.1, becomes the last two groups
+  const lastColon = text.lastIndexOf(':');
+  if (text.indexOf('.', lastColon) > lastColon) {
+    const v4 = parseIpv4(text.slice(lastColon + 1));
+    if (!v4) return null;
+    text = `${text.slice(0, lastColon + 1)}${v4.slice(0, 4)}:${v4.slice(4)}`;
+  }
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  // "::" stands for at least one group of zeros
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const zeros: string[] = [];
+  while (zeros.length < missing) zeros.push('0');
+  const groups = head.concat(zeros, tail);
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => pad(group, 4)).join('');
+}
+
+export function parseIp(value: string): IpAddress | null {
+  let text = value.trim().toLowerCase();
+  // [v6]:port, v4:port and zone ids (fe80::1%eth0) all show up in forwarded headers
+  const bracketed = text.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) text = bracketed[1];
+  else if (/^[\d.]+:\d+$/.test(text)) text = text.split(':')[0];
+  text = text.split('%')[0];
+
+  const v4 = parseIpv4(text);
+  if (v4) return { version: 4, hex: v4, text };
+  const v6 = text.indexOf(':') >= 0 ? parseIpv6(text) : null;
+  if (!v6) return null;
+  // IPv4-mapped IPv6, which is what dual-stack sockets report for IPv4 clients
+  if (v6.slice(0, 24) === '00000000000000000000ffff') {
+    const hex = v6.slice(24);
+    const quad = [0, 2, 4, 6].map((i) => parseInt(hex.slice(i, i + 2), 16)).join('.');
+    return { version: 4, hex, text: quad };
+  }
+  return { version: 6, hex: v6, text };
+}
+
+export function parseCidr(value: string): CidrBlock | null {
+  const [address, bitsText] = value.trim().split('/');
+  const ip = parseIp(address);
+  if (!ip || (bitsText !== undefined && !/^\d{1,3}$/.test(bitsText))) return null;
+  const max = ip.version === 4 ? 32 : 128;
+  // a bare address is a block of one
+  const bits = bitsText === undefined ? max : Number(bitsText);
+  return bits <= max ? { version: ip.version, hex: ip.hex, bits } : null;
+}
+
+export function inCidr(ip: IpAddress, block: CidrBlock) {
+  if (ip.version !== block.version) return false;
+  const nibbles = Math.floor(block.bits / 4);
+  if (ip.hex.slice(0, nibbles) !== block.hex.slice(0, nibbles)) return false;
+  const remainder = block.bits % 4;
+  if (!remainder) return true;
+  const mask = (0xf << (4 - remainder)) & 0xf;
+  return (parseInt(ip.hex[nibbles], 16) & mask) === (parseInt(block.hex[nibbles], 16) & mask);
+}
+
+const blocks = (list: string[]) => list.map((value) => parseCidr(value) as CidrBlock);
+
+export const LOOPBACK_BLOCKS = blocks(['127.0.0.0/8', '::1/128']);
+
+// Addresses that never reach us from the public internet, or mean nothing to a geo database:
+// private networks, carrier-grade NAT, link-local, unspecified and documentation ranges.
+export const PRIVATE_BLOCKS = blocks([
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '169.254.0.0/16', '172.16.0.0/12', '192.0.2.0/24',
+  '192.168.0.0/16', '198.18.0.0/15', '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/3',
+  '::/128', 'fc00::/7', 'fe80::/10', '2001:db8::/32', 'ff00::/8',
+]);
+
+export function isPrivateIp(ip: IpAddress) {
+  return LOOPBACK_BLOCKS.concat(PRIVATE_BLOCKS).some((block) => inCidr(ip, block));
+}
@@ -0,0 +1,211 @@
+// Provider layer for generating twin messages. Every provider streams plain text chunks so the
+// API route can forward them as they arrive. LLM_PROVIDER selects the backend:
+//   openai  — any OpenAI-compatible /chat/completions endpoint (LLM_BASE_URL, LLM_API_KEY, LLM_MODEL)
+//   ollama  — a local Ollama-style /api/chat endpoint (LLM_BASE_URL, LLM_MODEL)
+//   mock    — deterministic canned replies, no network (the default)
+// LLM_TIMEOUT_MS caps a whole reply, from connecting until the last chunk (default 30000).
+
+export type LlmMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type LlmRequest = {
+  system: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+};
+
+export interface LlmProvider {
+  name: string;
+  stream(request: LlmRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const toMessages = (request: LlmRequest): LlmMessage[] => [{ role: 'system', content: request.system }, ...request.messages];
+
+// Yields the body line by line; both streaming formats we speak are line-delimited.
+async function* readLines(res: Response): AsyncIterable<string> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let nl: number;
+      while ((nl = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, nl).trim();
+        buffer = buffer.slice(nl + 1);
+        if (line) yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer.trim();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function post(url: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+  let res: Response;
+  try {
+    res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body), signal });
+  } catch (e) {
+    throw new LlmError(`Could not reach ${url}: ${e instanceof Error ? e.message : e}`);
+  }
+  if (!res.ok) {
+    const detail = await res.text().catch(() => '');
+    throw new LlmError(`${url} responded ${res.status} ${detail.slice(0, 200)}`.trim(), res.status);
+  }
+  return res;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Runs `stream` with a signal that also fires after `timeoutMs`, so a stalled upstream can't hold
+// the request (and the client's connection) open; running out of time surfaces as an LlmError.
+async function* withTimeout(timeoutMs: number, signal: AbortSignal | undefined, stream: (signal: AbortSignal) => AsyncIterable<string>): AsyncIterable<string> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  else signal?.addEventListener('abort', abort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  try {
+    for await (const chunk of stream(controller.signal)) yield chunk;
+  } catch (e) {
+    if (timedOut) throw new LlmError(`No complete reply within ${timeoutMs} ms`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+export function createOpenAIProvider(opts: { baseUrl: string; apiKey?: string; model: string; timeoutMs?: number }): LlmProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name: 'openai',
+    stream: (request, outer) => withTimeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, outer, async function* (signal) {
+      const res = await post(
+        url,
+        { model: opts.model, messages: toMessages(request), stream: true, temperature: request.temperature, max_tokens: request.maxTokens },
+        opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {},
+        signal
+      );
+      // server-sent events: `data: {json}` per chunk, terminated by `data: [DONE]`
+      for await (const line of readLines(res)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+        let parsed: any;
+        try { parsed = JSON.parse(data); } catch (e) { continue; }
+        const text = parsed?.choices?.[0]?.delta?.content;
+        if (typeof text === 'string' && text) yield text;
+      }
+    }),
+  };
+}
+
+export function createOllamaProvider(opts: { baseUrl: string; model: string; timeoutMs?: number }): LlmProvider {
+  const url = `${opts.baseUrl.replace(/\/+$/, '')}/api/chat`;
+  return {
+    name: 'ollama',
+    stream: (request, outer) => withTimeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS, outer, async function* (signal) {
+      const res = await post(
+        url,
+        { model: opts.model, messages: toMessages(request), stream: true, options: { temperature: request.temperature, num_predict: request.maxTokens } },
+        {},
+        signal
+      );
+      // newline-delimited JSON objects, the last one has `done: true`
+      for await (const line of readLines(res)) {
+        let parsed: any;
+        try { parsed = JSON.parse(line); } catch (e) { continue; }
+        if (parsed?.error) throw new LlmError(String(parsed.error));
+        const text = parsed?.message?.content;
+        if (typeof text === 'string' && text) yield text;
+        if (parsed?.done) return;
+      }
+    }),
+  };
+}
+
+const MOCK_REPLIES = [
+  'Thanks for sharing that. What feels most important to look at first?',
+  'I hear that this has been on your mind. What would change if you took one small step this week?',
+  'Let’s slow down for a moment. What is really in the way right now?',
+  'That sounds like a lot to carry. What support would help you move forward?',
+];
+
+// FNV-1a, so the same request always gets the same reply
+function hash(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => { clearTimeout(t); resolve(); }, { once: true });
+  });
+
+// Offline stand-in for CI and local development. It streams word by word like a real model.
+export function createMockProvider(opts: { delayMs?: number; reply?: (request: LlmRequest) => string } = {}): LlmProvider {
+  const delayMs = opts.delayMs ?? 30;
+  const reply = opts.reply ?? ((request: LlmRequest) => MOCK_REPLIES[hash(JSON.stringify(toMessages(request))) % MOCK_REPLIES.length]);
+  return {
+    name: 'mock',
+    async *stream(request, signal) {
+      const words = reply(request).match(/\s*\S+\s*/g) || [];
+      for (const word of words) {
+        if (signal?.aborted) return;
+        await sleep(delayMs, signal);
+        yield word;
+      }
+    },
+  };
+}
+
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+  const kind = (process.env.LLM_PROVIDER || 'mock').toLowerCase();
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || undefined;
+  if (kind === 'openai') {
+    provider = createOpenAIProvider({
+      baseUrl: process.env.LLM_BASE_URL || 'https://api.openai.com/v1',
+      apiKey: process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL || 'gpt-4o-mini',
+      timeoutMs,
+    });
+  } else if (kind === 'ollama') {
+    provider = createOllamaProvider({
+      baseUrl: process.env.LLM_BASE_URL || 'http://127.0.0.1:11434',
+      model: process.env.LLM_MODEL || 'llama3.1',
+      timeoutMs,
+    });
+  } else if (kind === 'mock') {
+    const delay = process.env.MOCK_LLM_DELAY_MS;
+    provider = createMockProvider({ delayMs: delay ? Number(delay) || 0 : undefined });
+  } else {
+    throw new LlmError(`Unknown LLM_PROVIDER "${kind}" (expected openai, ollama or mock)`);
+  }
+  return provider;
+}
@@ -0,0 +1,27 @@
+// Bounded in-memory cache that evicts the least recently used entry once it is full. Entries also
+// expire after `ttlMs`. A Map keeps insertion order, so re-inserting on read keeps the oldest first.
+
+export type LruCache<V> = {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+};
+
+export function createLruCache<V>(maxEntries: number, ttlMs: number): LruCache<V> {
+  const entries = new Map<string, { value: V; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value as string);
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+// Outgoing email for the auth flows. Every transport takes the same plain-text message, so the
+// routes never know where mail ends up. MAIL_TRANSPORT selects the backend:
+//   file  — one .eml file per message in a Maildir under MAIL_DIR (default DATA_DIR/mail), so
+//           links can be read straight off disk offline and in tests (the default)
+//   smtp  — a plain SMTP server such as a local catcher (MAIL_SMTP_HOST, MAIL_SMTP_PORT); no TLS
+//           or auth, so point it at something on your own machine
+// MAIL_FROM sets the sender for both.
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class MailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+const SMTP_TIMEOUT_MS = 10000;
+
+const newMessageId = () => `${Date.now()}.${randomBytes(8).toString('hex')}`;
+
+// Non-ASCII subjects go out as an RFC 2047 encoded word.
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`);
+
+const stripHeaderBreaks = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+// the bare address of "Name <address>"
+const addressOf = (mailbox: string) => (mailbox.match(/<([^>]+)>/) || [null, mailbox])[1];
+
+function formatMessage(from: string, message: MailMessage, id: string) {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${stripHeaderBreaks(from)}`,
+    `To: ${stripHeaderBreaks(message.to)}`,
+    `Subject: ${encodeHeader(stripHeaderBreaks(message.subject))}`,
+    `Date: ${new Date().toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${id}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
+
+export function createFileTransport(opts: { dir: string; from: string }): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const id = newMessageId();
+      const file = `${id}.${os.hostname().replace(/[/:]/g, '_')}.eml`;
+      // Maildir delivery: write into tmp/, then move into new/ so readers never see half a message
+      await Promise.all(['tmp', 'new', 'cur'].map((sub) => fs.mkdir(path.join(opts.dir, sub), { recursive: true })));
+      const tmp = path.join(opts.dir, 'tmp', file);
+      await fs.writeFile(tmp, formatMessage(opts.from, message, id));
+      await fs.rename(tmp, path.join(opts.dir, 'new', file));
+    },
+  };
+}
+
+// Talks just enough SMTP to hand one message to a server that accepts it without TLS or auth.
+export function createSmtpTransport(opts: { host: string; port: number; from: string }): MailTransport {
+  return {
+    name: 'smtp',
+    send(message) {
+      const data = formatMessage(opts.from, message, newMessageId())
+        // dot-stuffing, so a line starting with "." can't end the message early
+        .replace(/^\./gm, '..');
+      const steps: [string | null, number][] = [
+        [null, 220],
+        [`EHLO ${os.hostname() || 'localhost'}`, 250],
+        [`MAIL FROM:<${addressOf(opts.from)}>`, 250],
+        [`RCPT TO:<${stripHeaderBreaks(message.to)}>`, 250],
+        ['DATA', 354],
+        [`${data}.`, 250],
+        ['QUIT', 221],
+      ];
+
+      return new Promise<void>((resolve, reject) => {
+        const socket = net.connect(opts.port, opts.host);
+        let buffer = '';
+        let step = 0;
+        const fail = (reason: string) => {
+          socket.destroy();
+          reject(new MailError(`SMTP delivery to ${opts.host}:${opts.port} failed: ${reason}`));
+        };
+        socket.setEncoding('utf8');
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => fail('timed out'));
+        socket.on('error', (e) => fail(e.message));
+        socket.on('close', () => { if (step < steps.length) fail('connection closed'); });
+        socket.on('data', (chunk: string) => {
+          buffer += chunk;
+          // a reply is complete at a line whose code is followed by a space; "250-" lines continue it
+          const lines = buffer.split('\r\n');
+          buffer = lines.pop() || '';
+          lines.forEach((line) => {
+            if (!/^\d{3} /.test(line) || step >= steps.length) return;
+            const code = Number(line.slice(0, 3));
+            if (code !== steps[step][1]) return fail(line);
+            step++;
+            if (step === steps.length) {
+              socket.end();
+              return resolve();
+            }
+            socket.write(`${steps[step][0]}\r\n`);
+          });
+        });
+      });
+    },
+  };
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+  const kind = (process.env.MAIL_TRANSPORT || 'file').toLowerCase();
+  const from = process.env.MAIL_FROM || 'CoachNova <no-reply@coachnova.local>';
+  if (kind === 'file') {
+    const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+    transport = createFileTransport({ dir: process.env.MAIL_DIR || path.join(dataDir, 'mail'), from });
+  } else if (kind === 'smtp') {
+    transport = createSmtpTransport({
+      host: process.env.MAIL_SMTP_HOST || '127.0.0.1',
+      port: Number(process.env.MAIL_SMTP_PORT) || 1025,
+      from,
+    });
+  } else {
+    throw new MailError(`Unknown MAIL_TRANSPORT "${kind}" (expected file or smtp)`);
+  }
+  return transport;
+}
+
+export function sendMail(message: MailMessage) {
+  return getMailTransport().send(message);
+}
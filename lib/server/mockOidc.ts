@@ -0,0 +1,146 @@
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
+import { isAuthProvider } from '@/lib/auth';
+
+// A stand-in OpenID provider for development and tests, served by pages/api/mock-oidc so sign-in
+// works without Google or LinkedIn credentials. It speaks the same authorization code flow with PKCE
+// (one issuer for the mock-google and mock-linkedin clients) and signs in whoever is typed into its
+// form. lib/server/oidc.ts only uses it where mockEnabled() allows.
+
+export const MOCK_OIDC_PATH = '/api/mock-oidc';
+export const MOCK_CLIENT_SECRET = 'mock-secret';
+
+const KEY_ID = 'mock-1';
+const CODE_TTL = 60 * 1000;
+// lifetime of ID and access tokens, in seconds
+const TOKEN_TTL = 60 * 60;
+
+export type MockUser = {
+  email: string;
+  givenName: string;
+  familyName: string;
+  // the standard `profile` claim; a LinkedIn URL ends up in the form's LinkedIn field
+  profile: string;
+  emailVerified: boolean;
+};
+
+export const DEFAULT_MOCK_USER: MockUser = {
+  email: 'jane.doe@example.com',
+  givenName: 'Jane',
+  familyName: 'Doe',
+  profile: 'https://www.linkedin.com/in/jane-doe',
+  emailVerified: true,
+};
+
+type PendingCode = {
+  clientId: string;
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+  user: MockUser;
+  expiresAt: number;
+};
+
+type Claims = Record<string, unknown>;
+
+type MockState = {
+  privateKey: KeyObject;
+  publicJwk: JsonWebKey;
+  codes: Map<string, PendingCode>;
+  accessTokens: Map<string, { claims: Claims; expiresAt: number }>;
+};
+
+// dev mode reloads modules on every change; the keys and pending codes live on globalThis so a
+// sign-in that is under way survives that
+const holder = globalThis as typeof globalThis & { __mockOidc?: MockState };
+
+function mockState(): MockState {
+  if (!holder.__mockOidc) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    holder.__mockOidc = { privateKey, publicJwk: publicKey.export({ format: 'jwk' }), codes: new Map(), accessTokens: new Map() };
+  }
+  return holder.__mockOidc;
+}
+
+function dropExpired<V extends { expiresAt: number }>(entries: Map<string, V>) {
+  const now = Date.now();
+  entries.forEach((entry, key) => {
+    if (entry.expiresAt < now) entries.delete(key);
+  });
+}
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+export function isMockClient(clientId: unknown): clientId is string {
+  return typeof clientId === 'string' && clientId.startsWith('mock-') && isAuthProvider(clientId.slice('mock-'.length));
+}
+
+export function mockDiscovery(issuer: string) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'profile', 'email'],
+    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+    code_challenge_methods_supported: ['S256'],
+  };
+}
+
+export function mockJwks() {
+  return { keys: [{ ...mockState().publicJwk, kid: KEY_ID, alg: 'RS256', use: 'sig' }] };
+}
+
+export function issueCode(request: Omit<PendingCode, 'expiresAt'>) {
+  const { codes } = mockState();
+  dropExpired(codes);
+  const code = base64url(randomBytes(24));
+  codes.set(code, { ...request, expiresAt: Date.now() + CODE_TTL });
+  return code;
+}
+
+export type TokenRequest = { code: string; clientId: string; clientSecret: string; redirectUri: string; codeVerifier: string };
+
+// the same user always gets the same subject from the same client, like a real provider
+const subjectFor = (clientId: string, email: string) => createHash('sha256').update(`${clientId}:${email}`).digest('hex').slice(0, 24);
+
+// Redeems a code once; the error is an OAuth error code for the token response.
+export function redeemCode(issuer: string, request: TokenRequest): { tokens: Record<string, unknown> } | { error: string } {
+  const state = mockState();
+  if (!isMockClient(request.clientId) || request.clientSecret !== MOCK_CLIENT_SECRET) return { error: 'invalid_client' };
+  const pending = state.codes.get(request.code);
+  state.codes.delete(request.code);
+  const challenge = base64url(createHash('sha256').update(request.codeVerifier).digest());
+  if (!pending || pending.expiresAt < Date.now() || pending.clientId !== request.clientId || pending.redirectUri !== request.redirectUri || pending.codeChallenge !== challenge) {
+    return { error: 'invalid_grant' };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { user } = pending;
+  const claims: Claims = {
+    sub: subjectFor(pending.clientId, user.email.toLowerCase()),
+    email: user.email,
+    email_verified: user.emailVerified,
+    given_name: user.givenName,
+    family_name: user.familyName,
+    name: `${user.givenName} ${user.familyName}`.trim(),
+    profile: user.profile || undefined,
+  };
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify({ ...claims, iss: issuer, aud: pending.clientId, iat: now, exp: now + TOKEN_TTL, nonce: pending.nonce }));
+  const signature = base64url(sign('sha256', Buffer.from(`${header}.${payload}`), state.privateKey));
+
+  dropExpired(state.accessTokens);
+  const accessToken = base64url(randomBytes(24));
+  state.accessTokens.set(accessToken, { claims, expiresAt: Date.now() + TOKEN_TTL * 1000 });
+  return { tokens: { access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL, id_token: `${header}.${payload}.${signature}` } };
+}
+
+export function mockUserInfo(accessToken: string): Claims | null {
+  const entry = mockState().accessTokens.get(accessToken);
+  return entry && entry.expiresAt >= Date.now() ? entry.claims : null;
+}
@@ -0,0 +1,211 @@
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+import type { JsonWebKey } from 'crypto';
+import { normalizeLinkedInUrl } from '@/lib/accountValidation';
+import { AuthProvider, SignInProfile } from '@/lib/auth';
+import { MOCK_CLIENT_SECRET, MOCK_OIDC_PATH } from '@/lib/server/mockOidc';
+
+// OpenID Connect client for "Continue with LinkedIn/Google": the authorization code flow with PKCE
+// and a nonce, with the ID token checked against the provider's published keys. Per provider:
+//   AUTH_<PROVIDER>_CLIENT_ID, AUTH_<PROVIDER>_CLIENT_SECRET — the registered app
+//   AUTH_<PROVIDER>_ISSUER — overrides the issuer (https://accounts.google.com, https://www.linkedin.com/oauth)
+// A provider without a client id signs in against the bundled mock provider (lib/server/mockOidc.ts)
+// in development, or anywhere with AUTH_MOCK=true; a production server without either has it switched off.
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+export type ProviderConfig = {
+  provider: AuthProvider;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+};
+
+// A verified sign-in: the provider's stable id for the coach plus what it shared about them.
+export type OidcIdentity = SignInProfile & { subject: string; emailVerified: boolean };
+
+const ISSUERS: Record<AuthProvider, string> = {
+  google: 'https://accounts.google.com',
+  linkedin: 'https://www.linkedin.com/oauth',
+};
+
+const SCOPE = 'openid profile email';
+const REQUEST_TIMEOUT = 5000;
+const DISCOVERY_TTL = 60 * 60 * 1000;
+// tolerated clock difference when checking token times, in seconds
+const CLOCK_SKEW = 60;
+
+export function mockEnabled() {
+  const flag = process.env.AUTH_MOCK;
+  return flag === 'true' || (flag !== 'false' && process.env.NODE_ENV !== 'production');
+}
+
+// null when the provider can't be used on this server
+export function providerConfig(provider: AuthProvider, origin: string): ProviderConfig | null {
+  const env = `AUTH_${provider.toUpperCase()}_`;
+  const clientId = process.env[`${env}CLIENT_ID`];
+  if (clientId) {
+    return { provider, issuer: process.env[`${env}ISSUER`] || ISSUERS[provider], clientId, clientSecret: process.env[`${env}CLIENT_SECRET`] || '' };
+  }
+  if (!mockEnabled()) return null;
+  return { provider, issuer: `${origin}${MOCK_OIDC_PATH}`, clientId: `mock-${provider}`, clientSecret: MOCK_CLIENT_SECRET };
+}
+
+// where the provider sends the coach back; has to be registered with the provider as is
+export function redirectUriFor(origin: string, provider: AuthProvider) {
+  return `${origin}/api/auth/${provider}/callback`;
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  let res: Response;
+  try {
+    res = await fetch(url, { ...init, signal: controller.signal });
+  } catch (e) {
+    throw new OidcError(`Could not reach ${url}: ${e instanceof Error ? e.message : e}`);
+  } finally {
+    clearTimeout(timer);
+  }
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data) {
+    const detail = data && (data.error_description || data.error);
+    throw new OidcError(`${url} responded ${res.status}${detail ? ` ${String(detail).slice(0, 200)}` : ''}`);
+  }
+  return data;
+}
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+};
+
+const discoveries = new Map<string, { fetchedAt: number; discovery: Discovery }>();
+
+async function discover(issuer: string): Promise<Discovery> {
+  const cached = discoveries.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL) return cached.discovery;
+  const discovery = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  if (discovery.issuer !== issuer || !discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+    throw new OidcError(`Unusable discovery document for ${issuer}`);
+  }
+  discoveries.set(issuer, { fetchedAt: Date.now(), discovery });
+  return discovery;
+}
+
+const jwks = new Map<string, JsonWebKey[]>();
+
+// Providers rotate keys, so an unknown key id triggers one refetch.
+async function signingKey(jwksUri: string, kid: string | undefined) {
+  const find = (keys: JsonWebKey[]) => keys.find((k) => k.kty === 'RSA' && (kid === undefined || k.kid === kid));
+  let key = find(jwks.get(jwksUri) || []);
+  if (!key) {
+    const data = await fetchJson(jwksUri);
+    const keys: JsonWebKey[] = Array.isArray(data.keys) ? data.keys : [];
+    jwks.set(jwksUri, keys);
+    key = find(keys);
+  }
+  if (!key) throw new OidcError(`No signing key ${kid || ''} at ${jwksUri}`.trim());
+  return createPublicKey({ key, format: 'jwk' });
+}
+
+const base64url = (bytes: Buffer) => bytes.toString('base64url');
+
+// The one-time values a sign-in is checked against when the provider sends the coach back.
+export type AuthRequest = { state: string; nonce: string; codeVerifier: string };
+
+export function createAuthRequest(): AuthRequest {
+  return { state: base64url(randomBytes(24)), nonce: base64url(randomBytes(24)), codeVerifier: base64url(randomBytes(48)) };
+}
+
+export async function authorizationUrl(config: ProviderConfig, redirectUri: string, request: AuthRequest) {
+  const { authorization_endpoint } = await discover(config.issuer);
+  const url = new URL(authorization_endpoint);
+  const params: Record<string, string> = {
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: SCOPE,
+    state: request.state,
+    nonce: request.nonce,
+    code_challenge: base64url(createHash('sha256').update(request.codeVerifier).digest()),
+    code_challenge_method: 'S256',
+  };
+  Object.keys(params).forEach((name) => url.searchParams.set(name, params[name]));
+  return url.toString();
+}
+
+function decodeSegment(segment: string) {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch (e) {
+    throw new OidcError('Malformed ID token');
+  }
+}
+
+async function verifyIdToken(config: ProviderConfig, discovery: Discovery, idToken: string, nonce: string) {
+  const [header, payload, signature] = idToken.split('.');
+  if (!header || !payload || !signature) throw new OidcError('Malformed ID token');
+  const { alg, kid } = decodeSegment(header);
+  if (alg !== 'RS256') throw new OidcError(`Unsupported ID token algorithm ${alg}`);
+  const key = await signingKey(discovery.jwks_uri, kid);
+  if (!verify('sha256', Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, 'base64url'))) {
+    throw new OidcError('ID token signature does not verify');
+  }
+
+  const claims = decodeSegment(payload);
+  const now = Math.floor(Date.now() / 1000);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== discovery.issuer) throw new OidcError('ID token from another issuer');
+  if (audience.indexOf(config.clientId) < 0) throw new OidcError('ID token for another client');
+  if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW) throw new OidcError('ID token expired');
+  if (claims.nonce !== nonce) throw new OidcError('ID token nonce does not match');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new OidcError('ID token without subject');
+  return claims;
+}
+
+const claim = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Exchanges the code the provider sent back and returns who signed in.
+export async function completeSignIn(config: ProviderConfig, redirectUri: string, code: string, request: AuthRequest): Promise<OidcIdentity> {
+  const discovery = await discover(config.issuer);
+  const tokens = await fetchJson(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      code_verifier: request.codeVerifier,
+    }).toString(),
+  });
+  if (typeof tokens.id_token !== 'string') throw new OidcError('Token response without an ID token');
+  let claims = await verifyIdToken(config, discovery, tokens.id_token, request.nonce);
+
+  // some providers keep the profile out of the ID token and only hand it out on request
+  if ((!claims.email || !claims.given_name) && discovery.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    const info = await fetchJson(discovery.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+    if (info.sub === claims.sub) claims = { ...info, ...claims };
+  }
+
+  // OIDC's `profile` claim is the coach's profile page, which for LinkedIn is the URL the form asks for
+  const linkedIn = normalizeLinkedInUrl(claim(claims.profile));
+  return {
+    provider: config.provider,
+    subject: claims.sub,
+    firstName: claim(claims.given_name),
+    lastName: claim(claims.family_name),
+    email: claim(claims.email).toLowerCase(),
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    linkedIn: linkedIn || '',
+  };
+}
@@ -0,0 +1,41 @@
+import { createHash, randomBytes } from 'crypto';
+import { getStore } from '@/lib/server/store';
+
+// Single-use password reset tokens. Only the SHA-256 of a token is stored, so the data directory
+// alone can't be used to reset anyone's password.
+
+type PasswordReset = {
+  // the store key
+  id: string;
+  // the account's key
+  email: string;
+  expiresAt: string;
+};
+
+// in seconds
+export const PASSWORD_RESET_TTL = 60 * 60;
+
+const resets = getStore<PasswordReset>('passwordResets');
+
+const tokenKey = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export async function createPasswordReset(email: string) {
+  const now = new Date().toISOString();
+  // a new link replaces the ones sent before; expired links go too
+  const stale = (await resets.list()).filter((reset) => reset.email === email || reset.expiresAt <= now);
+  await Promise.all(stale.map((reset) => resets.delete(reset.id)));
+  const token = randomBytes(32).toString('base64url');
+  await resets.put(tokenKey(token), { id: tokenKey(token), email, expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL * 1000).toISOString() });
+  return token;
+}
+
+// The account email a token resets; null when it is unknown, used or expired.
+export async function findPasswordReset(token: string): Promise<string | null> {
+  const reset = await resets.get(tokenKey(token));
+  return reset && reset.expiresAt > new Date().toISOString() ? reset.email : null;
+}
+
+// Uses the token up; false when another request got there first.
+export function consumePasswordReset(token: string) {
+  return resets.delete(tokenKey(token));
+}
@@ -0,0 +1,58 @@
+import { BUILT_IN_QUESTIONNAIRE_VERSION, ONBOARDING_QUESTIONNAIRE } from '@/lib/onboardingQuestionnaire';
+import { Questionnaire, QuestionnaireProblem, validateQuestionnaire } from '@/lib/questionnaire';
+import { getStore } from '@/lib/server/store';
+
+// Published questionnaire versions. Versions are immutable once published; the one built into the
+// app is always version 1, so drafts started before anything was published keep working.
+
+export type PublishedQuestionnaire = {
+  version: number;
+  // null for the built-in version
+  publishedAt: string | null;
+  // email of the admin who published it
+  publishedBy?: string;
+  note?: string;
+  questionnaire: Questionnaire;
+};
+
+export type QuestionnaireVersionInfo = Omit<PublishedQuestionnaire, 'questionnaire'>;
+
+const BUILT_IN: PublishedQuestionnaire = { version: BUILT_IN_QUESTIONNAIRE_VERSION, publishedAt: null, questionnaire: ONBOARDING_QUESTIONNAIRE };
+
+const questionnaires = getStore<PublishedQuestionnaire>('questionnaires');
+
+// a publish racing another one for the same version number retries with the next number
+const PUBLISH_ATTEMPTS = 3;
+
+async function publishedVersions() {
+  const items = await questionnaires.list();
+  return items.sort((a, b) => a.version - b.version);
+}
+
+export async function listQuestionnaireVersions(): Promise<QuestionnaireVersionInfo[]> {
+  return [BUILT_IN, ...(await publishedVersions())].map(({ questionnaire, ...info }) => info);
+}
+
+export async function getQuestionnaireVersion(version: number): Promise<PublishedQuestionnaire | null> {
+  if (version === BUILT_IN_QUESTIONNAIRE_VERSION) return BUILT_IN;
+  return questionnaires.get(String(version));
+}
+
+export async function getLatestQuestionnaire(): Promise<PublishedQuestionnaire> {
+  const versions = await publishedVersions();
+  return versions.length ? versions[versions.length - 1] : BUILT_IN;
+}
+
+export async function publishQuestionnaire(input: unknown, publishedBy: string, note?: string): Promise<{ ok: true; published: PublishedQuestionnaire } | { ok: false; status: 400 | 409; problems: QuestionnaireProblem[] }> {
+  const checked = validateQuestionnaire(input);
+  if (!checked.ok) return { ok: false, status: 400, problems: checked.problems };
+  // store a clean copy so nothing but the definition ends up in the record
+  const questionnaire: Questionnaire = JSON.parse(JSON.stringify(checked.questionnaire));
+
+  for (let attempt = 0; attempt < PUBLISH_ATTEMPTS; attempt++) {
+    const version = (await getLatestQuestionnaire()).version + 1;
+    const published: PublishedQuestionnaire = { version, publishedAt: new Date().toISOString(), publishedBy, note: note && note.trim() ? note.trim() : undefined, questionnaire };
+    if (await questionnaires.create(String(version), published)) return { ok: true, published };
+  }
+  return { ok: false, status: 409, problems: [{ path: '', reason: 'Another version was published at the same time, please try again' }] };
+}
@@ -0,0 +1,41 @@
+// Fixed-window attempt counter, kept in memory: good enough to slow down password guessing against
+// a single server, and it forgets everything on restart.
+
+export type RateLimiter = {
+  // seconds until `key` may try again; 0 when it may try now
+  retryAfter(key: string): number;
+  hit(key: string): void;
+  reset(key: string): void;
+};
+
+// past this many keys, finished windows are swept so keys that never come back don't pile up
+const SWEEP_AT = 10000;
+
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, { count: number; startedAt: number }>();
+
+  function current(key: string) {
+    const entry = windows.get(key);
+    if (entry && Date.now() - entry.startedAt >= windowMs) {
+      windows.delete(key);
+      return null;
+    }
+    return entry || null;
+  }
+
+  return {
+    retryAfter(key) {
+      const entry = current(key);
+      return entry && entry.count >= limit ? Math.ceil((entry.startedAt + windowMs - Date.now()) / 1000) : 0;
+    },
+    hit(key) {
+      if (windows.size > SWEEP_AT) windows.forEach((_, k) => current(k));
+      const entry = current(key);
+      if (entry) entry.count++;
+      else windows.set(key, { count: 1, startedAt: Date.now() });
+    },
+    reset(key) {
+      windows.delete(key);
+    },
+  };
+}
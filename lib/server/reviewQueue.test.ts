@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createEmptyProfile } from '@/lib/twinProfile';
+import { ReviewItem, decideReviewItem, getReviewItem, listReviewItems, submitTwinAction, transitionReviewItem } from '@/lib/server/reviewQueue';
+import { createTwin } from '@/lib/server/twins';
+
+const COACH = 'coach@example.com';
+const NOW = '2024-05-01T10:00:00.000Z';
+
+// a pending item the way submitTwinAction queues it
+async function queueItem(message = 'Time for your weekly check-in. How did the week go?'): Promise<ReviewItem> {
+  const profile = createEmptyProfile();
+  profile.guardrails.permissions = { 'Check ins': 'review' };
+  const twin = await createTwin(profile, COACH);
+  if (!twin.ok) throw new Error(twin.error);
+  const result = await submitTwinAction({ twinId: twin.twin.id, client: 'Sam', action: 'check-in', message }, COACH);
+  if (!result.ok || result.decision !== 'queue') throw new Error(`expected the message to be queued, got ${JSON.stringify(result)}`);
+  return result.item;
+}
+
+describe('transitionReviewItem', () => {
+  let item: ReviewItem;
+  beforeEach(async () => {
+    item = await queueItem();
+  });
+
+  it('approves a pending item as proposed', () => {
+    const result = transitionReviewItem(item, { decision: 'approve', by: COACH, note: ' fine ' }, NOW);
+    expect(result.ok && result.item).toMatchObject({ status: 'approved', approvedMessage: item.message, updatedAt: NOW });
+    expect(result.ok && result.item.audit.slice(1)).toEqual([{ at: NOW, event: 'approved', by: COACH, note: 'fine' }]);
+  });
+
+  it('records an edit before approving the edited message', () => {
+    const result = transitionReviewItem(item, { decision: 'approve', by: COACH, message: ' How was your week? ' }, NOW);
+    expect(result.ok && result.item).toMatchObject({ status: 'approved', approvedMessage: 'How was your week?', message: item.message });
+    expect(result.ok && result.item.audit.map((a) => a.event)).toEqual(['queued', 'edited', 'approved']);
+    expect(result.ok && result.item.audit[1]).toMatchObject({ by: COACH, message: 'How was your week?' });
+  });
+
+  it('does not record an edit that changes nothing', () => {
+    const result = transitionReviewItem(item, { decision: 'approve', by: COACH, message: item.message }, NOW);
+    expect(result.ok && result.item.audit.map((a) => a.event)).toEqual(['queued', 'approved']);
+  });
+
+  it('rejects a pending item', () => {
+    const result = transitionReviewItem(item, { decision: 'reject', by: COACH, note: 'Too pushy' }, NOW);
+    expect(result.ok && result.item).toMatchObject({ status: 'rejected', approvedMessage: null });
+    expect(result.ok && result.item.audit[1]).toEqual({ at: NOW, event: 'rejected', by: COACH, note: 'Too pushy' });
+  });
+
+  it('refuses to decide an item twice', () => {
+    const approved = transitionReviewItem(item, { decision: 'approve', by: COACH }, NOW);
+    if (!approved.ok) throw new Error(approved.error);
+    expect(transitionReviewItem(approved.item, { decision: 'reject', by: COACH }, NOW)).toEqual({ ok: false, error: 'Item is already approved' });
+  });
+
+  it('refuses an empty edit', () => {
+    expect(transitionReviewItem(item, { decision: 'approve', by: COACH, message: '   ' }, NOW)).toEqual({ ok: false, error: 'The approved message cannot be empty' });
+  });
+});
+
+describe('decideReviewItem', () => {
+  it('stores each step of pending → edited → approved', async () => {
+    const item = await queueItem();
+    const result = await decideReviewItem(item.id, COACH, { decision: 'approve', by: COACH, message: 'How was your week?' });
+    expect(result.ok && result.item.status).toBe('approved');
+    const stored = await getReviewItem(item.id, COACH);
+    expect(stored && stored.audit.map((a) => `${a.event} by ${a.by}`)).toEqual(['queued by twin', `edited by ${COACH}`, `approved by ${COACH}`]);
+  });
+
+  it('stores pending → rejected', async () => {
+    const item = await queueItem();
+    await decideReviewItem(item.id, COACH, { decision: 'reject', by: COACH });
+    expect(await listReviewItems(COACH, 'rejected')).toEqual([expect.objectContaining({ id: item.id })]);
+  });
+
+  it('answers 409 to a second decision and keeps the first', async () => {
+    const item = await queueItem();
+    await decideReviewItem(item.id, COACH, { decision: 'approve', by: COACH });
+    expect(await decideReviewItem(item.id, COACH, { decision: 'reject', by: COACH })).toEqual({ ok: false, status: 409, error: 'Item is already approved' });
+    const stored = await getReviewItem(item.id, COACH);
+    expect(stored && stored.status).toBe('approved');
+  });
+
+  it('answers 400 to an empty edit and leaves the item pending', async () => {
+    const item = await queueItem();
+    expect(await decideReviewItem(item.id, COACH, { decision: 'approve', by: COACH, message: '' })).toMatchObject({ ok: false, status: 400 });
+    const stored = await getReviewItem(item.id, COACH);
+    expect(stored && stored.status).toBe('pending');
+  });
+
+  it('hides another account’s items', async () => {
+    const item = await queueItem();
+    expect(await getReviewItem(item.id, 'someone@example.com')).toBeNull();
+    expect(await decideReviewItem(item.id, 'someone@example.com', { decision: 'approve', by: 'someone@example.com' })).toMatchObject({ ok: false, status: 404 });
+    expect(await listReviewItems('someone@example.com')).toEqual([]);
+  });
+});
@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import { GuardrailViolation, checkMessage, guardrailConfig } from '@/lib/guardrails';
+import { buildPersonaRules } from '@/lib/persona';
+import { PolicyResult, TwinAction, decideTwinAction } from '@/lib/permissions';
+import { getStore } from '@/lib/server/store';
+import { getTwin } from '@/lib/server/twins';
+
+// Messages the twin wants to send that need the coach's approval first. Items move from `pending`
+// to `approved` or `rejected` exactly once; every step is recorded in `audit`. Each item belongs to
+// the account that owns the twin, and only that account sees or decides it.
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export type AuditEntry = {
+  at: string;
+  event: 'queued' | 'approved' | 'edited' | 'rejected';
+  // 'twin' for queued entries, otherwise the email of the account that decided
+  by: string;
+  note?: string;
+  // the message text after this step, for queued and edited entries
+  message?: string;
+};
+
+export type ReviewItem = {
+  id: string;
+  // email of the coach's account, as on the twin
+  owner: string;
+  twinId: string;
+  client: string;
+  action: TwinAction;
+  // what the twin proposed, and what was finally approved (possibly edited by the coach)
+  message: string;
+  approvedMessage: string | null;
+  // why this needs review: the permission policy and any guardrail flags
+  policy: PolicyResult;
+  violations: GuardrailViolation[];
+  status: ReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+  audit: AuditEntry[];
+};
+
+export type ReviewDecision =
+  | { decision: 'approve'; by: string; message?: string; note?: string }
+  | { decision: 'reject'; by: string; note?: string };
+
+export type ReviewTransition = { ok: true; item: ReviewItem } | { ok: false; error: string };
+
+export const REVIEW_MESSAGE_MAX = 4000;
+
+// Pure state transition, kept separate from storage so it can be reasoned about on its own.
+export function transitionReviewItem(item: ReviewItem, d: ReviewDecision, now: string): ReviewTransition {
+  if (item.status !== 'pending') return { ok: false, error: `Item is already ${item.status}` };
+  const note = d.note && d.note.trim() ? d.note.trim() : undefined;
+
+  if (d.decision === 'reject') {
+    return {
+      ok: true,
+      item: { ...item, status: 'rejected', updatedAt: now, audit: [...item.audit, { at: now, event: 'rejected', by: d.by, note }] },
+    };
+  }
+
+  const edited = typeof d.message === 'string' ? d.message.trim() : '';
+  if (typeof d.message === 'string' && !edited) return { ok: false, error: 'The approved message cannot be empty' };
+  if (edited.length > REVIEW_MESSAGE_MAX) return { ok: false, error: `Message must be at most ${REVIEW_MESSAGE_MAX} characters` };
+
+  const audit = [...item.audit];
+  if (edited && edited !== item.message) audit.push({ at: now, event: 'edited', by: d.by, message: edited });
+  audit.push({ at: now, event: 'approved', by: d.by, note });
+  return { ok: true, item: { ...item, status: 'approved', approvedMessage: edited || item.message, updatedAt: now, audit } };
+}
+
+const reviews = getStore<ReviewItem>('reviews');
+
+export type SubmitResult =
+  | { ok: true; decision: 'allow'; message: string; policy: PolicyResult; violations: GuardrailViolation[] }
+  | { ok: true; decision: 'queue'; item: ReviewItem }
+  | { ok: true; decision: 'deny'; policy: PolicyResult; violations: GuardrailViolation[] }
+  | { ok: false; status: 400 | 404; error: string };
+
+// Entry point for anything the twin wants to send to a client: the permission policy decides first,
+// then the guardrails may block the message, rewrite it, or send an otherwise allowed one to review.
+export async function submitTwinAction(input: { twinId: string; client: string; action: TwinAction; message: string }, owner: string): Promise<SubmitResult> {
+  const twin = await getTwin(input.twinId, owner);
+  if (!twin) return { ok: false, status: 404, error: 'Twin not found' };
+  const message = input.message.trim();
+  if (!message) return { ok: false, status: 400, error: 'Message is required' };
+  if (message.length > REVIEW_MESSAGE_MAX) return { ok: false, status: 400, error: `Message must be at most ${REVIEW_MESSAGE_MAX} characters` };
+
+  const policy = decideTwinAction(twin.profile.guardrails.permissions, input.action);
+  if (policy.decision === 'deny') return { ok: true, decision: 'deny', policy, violations: [] };
+
+  const checked = checkMessage(message, guardrailConfig(buildPersonaRules(twin.profile)));
+  if (checked.action === 'block') return { ok: true, decision: 'deny', policy, violations: checked.violations };
+  if (policy.decision === 'allow' && checked.action !== 'flag') {
+    return { ok: true, decision: 'allow', message: checked.text, policy, violations: checked.violations };
+  }
+
+  const now = new Date().toISOString();
+  const item: ReviewItem = {
+    id: randomUUID(),
+    owner,
+    twinId: twin.id,
+    client: input.client,
+    action: input.action,
+    message: checked.text,
+    approvedMessage: null,
+    policy,
+    violations: checked.violations,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    audit: [{ at: now, event: 'queued', by: 'twin', message: checked.text }],
+  };
+  await reviews.put(item.id, item);
+  return { ok: true, decision: 'queue', item };
+}
+
+// Items queued before they had owners belong to nobody, like the twins they came from.
+const ownedBy = (item: ReviewItem | null, owner: string) => (item && item.owner === owner ? item : null);
+
+export async function listReviewItems(owner: string, status?: ReviewStatus) {
+  const items = await reviews.list();
+  return items
+    .filter((i) => i.owner === owner && (!status || i.status === status))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getReviewItem(id: string, owner: string) {
+  return ownedBy(await reviews.get(id), owner);
+}
+
+export async function decideReviewItem(id: string, owner: string, d: ReviewDecision): Promise<{ ok: true; item: ReviewItem } | { ok: false; status: 400 | 404 | 409; error: string }> {
+  let failure: { status: 400 | 404 | 409; error: string } | null = null;
+  const updated = await reviews.update(id, (stored) => {
+    const current = ownedBy(stored, owner);
+    if (!current) {
+      failure = { status: 404, error: 'Review item not found' };
+      return null;
+    }
+    const result = transitionReviewItem(current, d, new Date().toISOString());
+    if (!result.ok) {
+      failure = { status: current.status === 'pending' ? 400 : 409, error: result.error };
+      return null;
+    }
+    return result.item;
+  });
+  if (updated) return { ok: true, item: updated };
+  const f = (failure as { status: 400 | 404 | 409; error: string } | null) ?? { status: 404 as const, error: 'Review item not found' };
+  return { ok: false, ...f };
+}
@@ -0,0 +1,101 @@
+import { createHash, randomBytes } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { AuthProvider } from '@/lib/auth';
+import { Account, findAccountByEmail } from '@/lib/server/accounts';
+import { clearCookie, readCookie, setCookie } from '@/lib/server/http';
+import { AuthRequest, OidcIdentity } from '@/lib/server/oidc';
+import { getStore } from '@/lib/server/store';
+
+// Browser sessions and the provider sign-ins that lead to them. Cookies carry random tokens; the
+// store is keyed by their SHA-256, so a copy of the data directory can't be replayed as a cookie.
+
+export type Session = {
+  // the store key
+  id: string;
+  // key of the signed-in account; null until the coach signs up or a sign-in is linked to one
+  email: string | null;
+  // the latest provider sign-in, for prefilling the form and linking at sign-up
+  identity: OidcIdentity | null;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type PendingSignIn = AuthRequest & { provider: AuthProvider; expiresAt: string };
+
+const SESSION_COOKIE = 'cn_session';
+const SIGN_IN_COOKIE = 'cn_signin';
+// in seconds
+const SESSION_TTL = 30 * 24 * 60 * 60;
+const SIGN_IN_TTL = 10 * 60;
+
+const sessions = getStore<Session>('sessions');
+const pendingSignIns = getStore<PendingSignIn>('signins');
+
+const newToken = () => randomBytes(32).toString('base64url');
+const tokenKey = (token: string) => createHash('sha256').update(token).digest('hex');
+const expiresIn = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+const expired = (record: { expiresAt: string }) => record.expiresAt <= new Date().toISOString();
+
+export async function getSession(req: IncomingMessage): Promise<Session | null> {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) return null;
+  const session = await sessions.get(tokenKey(token));
+  if (!session) return null;
+  if (expired(session)) {
+    await sessions.delete(session.id);
+    return null;
+  }
+  return session;
+}
+
+// The account this browser is signed in as; null for visitors and for sign-ins not linked to one yet.
+export async function getSessionAccount(req: IncomingMessage): Promise<Account | null> {
+  const session = await getSession(req);
+  return session && session.email ? findAccountByEmail(session.email) : null;
+}
+
+// Signing in always starts a fresh session, so a token planted before sign-in is worthless after it.
+export async function startSession(req: IncomingMessage, res: ServerResponse, fields: Pick<Session, 'email' | 'identity'>) {
+  const previous = readCookie(req, SESSION_COOKIE);
+  if (previous) await sessions.delete(tokenKey(previous));
+  const token = newToken();
+  const session: Session = { id: tokenKey(token), ...fields, createdAt: new Date().toISOString(), expiresAt: expiresIn(SESSION_TTL) };
+  await sessions.put(session.id, session);
+  setCookie(req, res, SESSION_COOKIE, token, SESSION_TTL);
+  return session;
+}
+
+export async function endSession(req: IncomingMessage, res: ServerResponse) {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) await sessions.delete(tokenKey(token));
+  clearCookie(req, res, SESSION_COOKIE);
+}
+
+// Signs an account out everywhere, e.g. after its password was reset.
+export async function endAccountSessions(email: string) {
+  const signedIn = (await sessions.list()).filter((session) => session.email === email);
+  await Promise.all(signedIn.map((session) => sessions.delete(session.id)));
+}
+
+// Remembers a sign-in that was sent off to a provider. The state travels through the provider and
+// must come back to the browser that started it, which the cookie proves.
+export async function beginSignIn(req: IncomingMessage, res: ServerResponse, provider: AuthProvider, request: AuthRequest) {
+  // abandoned sign-ins would pile up otherwise
+  const stale = (await pendingSignIns.list()).filter(expired);
+  await Promise.all(stale.map((pending) => pendingSignIns.delete(tokenKey(pending.state))));
+  await pendingSignIns.put(tokenKey(request.state), { ...request, provider, expiresAt: expiresIn(SIGN_IN_TTL) });
+  setCookie(req, res, SIGN_IN_COOKIE, request.state, SIGN_IN_TTL);
+}
+
+// The sign-in a provider callback belongs to, at most once; null when it's unknown, expired, for
+// another provider or was started in another browser.
+export async function takeSignIn(req: IncomingMessage, res: ServerResponse, provider: AuthProvider, state: string): Promise<AuthRequest | null> {
+  const cookie = readCookie(req, SIGN_IN_COOKIE);
+  clearCookie(req, res, SIGN_IN_COOKIE);
+  if (!state || cookie !== state) return null;
+  const key = tokenKey(state);
+  const pending = await pendingSignIns.get(key);
+  if (!pending || !(await pendingSignIns.delete(key))) return null;
+  if (expired(pending) || pending.provider !== provider) return null;
+  return { state: pending.state, nonce: pending.nonce, codeVerifier: pending.codeVerifier };
+}
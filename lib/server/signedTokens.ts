@@ -0,0 +1,68 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getStore } from '@/lib/server/store';
+
+// Links we email out carry their own claims, signed with AUTH_SECRET: `payload.signature`, both
+// base64url. Nothing has to be stored to check one, and changing the email or stretching the
+// expiry breaks the signature. Tokens that may only work once are crossed off by id when used.
+
+export type TokenPurpose = 'verify-email' | 'resume';
+
+type TokenPayload = {
+  purpose: TokenPurpose;
+  // the account's key
+  sub: string;
+  // expiry, in seconds since the epoch
+  exp: number;
+  jti: string;
+};
+
+export type VerifiedToken = { email: string; id: string; expiresAt: number };
+
+// links keep working across restarts in development without any setup
+const DEVELOPMENT_SECRET = 'coachnova-development-secret';
+
+const usedTokens = getStore<{ id: string; expiresAt: number }>('usedTokens');
+
+function secret() {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  if (process.env.NODE_ENV === 'production') throw new Error('AUTH_SECRET must be set to sign email links');
+  return DEVELOPMENT_SECRET;
+}
+
+const sign = (payload: string) => createHmac('sha256', secret()).update(payload).digest();
+
+export function signToken(purpose: TokenPurpose, email: string, ttlSeconds: number) {
+  const payload: TokenPayload = { purpose, sub: email, exp: Math.floor(Date.now() / 1000) + ttlSeconds, jti: randomBytes(12).toString('base64url') };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+// The token's claims when it is genuine, meant for `purpose` and not expired; null otherwise.
+export function verifyToken(purpose: TokenPurpose, token: string): VerifiedToken | null {
+  const [encoded, signature, extra] = token.split('.');
+  if (!encoded || !signature || extra !== undefined) return null;
+  const expected = sign(encoded);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch (e) {
+    return null;
+  }
+  if (!payload || payload.purpose !== purpose || typeof payload.sub !== 'string' || typeof payload.jti !== 'string') return null;
+  if (!(payload.exp * 1000 > Date.now())) return null;
+  return { email: payload.sub, id: payload.jti, expiresAt: payload.exp };
+}
+
+// Like verifyToken, but the token only works once; null when it was used before.
+export async function consumeToken(purpose: TokenPurpose, token: string): Promise<VerifiedToken | null> {
+  const verified = verifyToken(purpose, token);
+  if (!verified) return null;
+  // ids only need remembering until their token would have expired anyway
+  const now = Date.now() / 1000;
+  const stale = (await usedTokens.list()).filter((used) => used.expiresAt <= now);
+  await Promise.all(stale.map((used) => usedTokens.delete(used.id)));
+  return (await usedTokens.create(verified.id, { id: verified.id, expiresAt: verified.expiresAt })) ? verified : null;
+}
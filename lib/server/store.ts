@@ -0,0 +1,121 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Minimal keyed record store used by the API routes. The file driver keeps one JSON
+// document per collection under DATA_DIR so local development survives restarts.
+export interface Store<T> {
+  get(id: string): Promise<T | null>;
+  put(id: string, value: T): Promise<void>;
+  // inserts only when the id is free; resolves false if a record already exists
+  create(id: string, value: T): Promise<boolean>;
+  // atomic read-modify-write; `fn` returns the new value, or null to leave the record untouched
+  update(id: string, fn: (current: T | null) => T | null): Promise<T | null>;
+  // resolves false when there was nothing to delete; `when` makes it an atomic check-and-delete
+  // that leaves the record alone unless it returns true for it
+  delete(id: string, when?: (current: T) => boolean): Promise<boolean>;
+  list(): Promise<T[]>;
+}
+
+export function createMemoryStore<T>(): Store<T> {
+  const records = new Map<string, T>();
+  return {
+    async get(id) { return records.has(id) ? (records.get(id) as T) : null; },
+    async put(id, value) { records.set(id, value); },
+    async create(id, value) {
+      if (records.has(id)) return false;
+      records.set(id, value);
+      return true;
+    },
+    async update(id, fn) {
+      const next = fn(records.has(id) ? (records.get(id) as T) : null);
+      if (next !== null) records.set(id, next);
+      return next;
+    },
+    async delete(id, when) {
+      if (!records.has(id) || (when && !when(records.get(id) as T))) return false;
+      return records.delete(id);
+    },
+    async list() { return Array.from(records.values()); },
+  };
+}
+
+export function createFileStore<T>(collection: string, dir = process.env.DATA_DIR || path.join(process.cwd(), '.data')): Store<T> {
+  const file = path.join(dir, `${collection}.json`);
+  // serialize writes so concurrent requests don't clobber each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function read(): Promise<Record<string, T>> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (e: any) {
+      if (e && e.code === 'ENOENT') return {};
+      throw e;
+    }
+  }
+
+  async function write(records: Record<string, T>) {
+    await fs.mkdir(dir, { recursive: true });
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(records, null, 2));
+    await fs.rename(tmp, file);
+  }
+
+  function mutate<R>(fn: (records: Record<string, T>) => R): Promise<R> {
+    const run = queue.then(async () => {
+      const records = await read();
+      const result = fn(records);
+      await write(records);
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    async get(id) {
+      await queue;
+      const records = await read();
+      return Object.prototype.hasOwnProperty.call(records, id) ? records[id] : null;
+    },
+    put(id, value) {
+      return mutate((records) => { records[id] = value; });
+    },
+    create(id, value) {
+      return mutate((records) => {
+        if (Object.prototype.hasOwnProperty.call(records, id)) return false;
+        records[id] = value;
+        return true;
+      });
+    },
+    update(id, fn) {
+      return mutate((records) => {
+        const next = fn(Object.prototype.hasOwnProperty.call(records, id) ? records[id] : null);
+        if (next !== null) records[id] = next;
+        return next;
+      });
+    },
+    delete(id, when) {
+      return mutate((records) => {
+        if (!Object.prototype.hasOwnProperty.call(records, id) || (when && !when(records[id]))) return false;
+        delete records[id];
+        return true;
+      });
+    },
+    async list() {
+      await queue;
+      return Object.values(await read());
+    },
+  };
+}
+
+const stores = new Map<string, Store<any>>();
+
+// STORAGE_DRIVER=memory is handy for throwaway previews; everything else persists to disk.
+export function getStore<T>(collection: string): Store<T> {
+  let store = stores.get(collection);
+  if (!store) {
+    store = process.env.STORAGE_DRIVER === 'memory' ? createMemoryStore<T>() : createFileStore<T>(collection);
+    stores.set(collection, store);
+  }
+  return store as Store<T>;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyProfile } from '@/lib/twinProfile';
+import { createTwin, deleteTwin, getTwin, patchTwin } from '@/lib/server/twins';
+
+const COACH = 'coach@example.com';
+
+async function twin() {
+  const created = await createTwin(createEmptyProfile(), COACH);
+  if (!created.ok) throw new Error(created.error);
+  return created.twin;
+}
+
+const rename = { identity: { clientQuote: 'You make me think' } };
+
+describe('deleteTwin', () => {
+  it('deletes the version the client saw', async () => {
+    const { id } = await twin();
+    expect(await deleteTwin(id, COACH, [1])).toMatchObject({ ok: true });
+    expect(await getTwin(id, COACH)).toBeNull();
+  });
+
+  it('refuses once an update has moved the twin past that version', async () => {
+    const { id } = await twin();
+    expect(await patchTwin(id, COACH, rename, [1])).toMatchObject({ ok: true });
+    expect(await deleteTwin(id, COACH, [1])).toMatchObject({ ok: false, status: 412 });
+    expect(await getTwin(id, COACH)).toMatchObject({ version: 2 });
+  });
+
+  it('lets only one of a concurrent update and delete of the same version through', async () => {
+    const { id } = await twin();
+    const [deleted, patched] = await Promise.all([deleteTwin(id, COACH, [1]), patchTwin(id, COACH, rename, [1])]);
+    expect([deleted.ok, patched.ok].filter(Boolean)).toHaveLength(1);
+    // either the delete went first and the update found nothing, or the update won and the twin stays
+    const stored = await getTwin(id, COACH);
+    if (deleted.ok) expect(stored).toBeNull();
+    else expect(stored).toMatchObject({ version: 2 });
+  });
+
+  it("reports another account's twin as missing", async () => {
+    const { id } = await twin();
+    expect(await deleteTwin(id, 'someone@example.com', '*')).toMatchObject({ ok: false, status: 404 });
+    expect(await getTwin(id, COACH)).not.toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import { randomUUID } from 'crypto';
+import type { NextApiResponse } from 'next';
+import { RejectedField, TwinProfile, importTwinProfile, validateTwinProfile } from '@/lib/twinProfile';
+import { getStore } from '@/lib/server/store';
+
+// A stored twin. `version` increases on every write and doubles as the ETag for optimistic concurrency.
+export type TwinRecord = {
+  id: string;
+  // email of the account that created it; only that account can see or change it
+  owner: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  profile: TwinProfile;
+};
+
+export type TwinResult =
+  | { ok: true; twin: TwinRecord }
+  | { ok: false; status: 400 | 404 | 412; error: string; rejected?: RejectedField[] };
+
+// value of an If-Match header: '*' matches any existing twin, otherwise the listed versions
+export type VersionPrecondition = '*' | number[];
+
+const twins = getStore<TwinRecord>('twins');
+
+export function etagFor(twin: TwinRecord) {
+  return `"${twin.version}"`;
+}
+
+// res.json() would swap the version ETag for a content hash, so the body is written directly
+export function sendTwin(res: NextApiResponse, status: number, twin: TwinRecord) {
+  res.setHeader('ETag', etagFor(twin));
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.status(status).end(JSON.stringify(twin));
+}
+
+export function parseIfMatch(header: string | string[] | undefined): VersionPrecondition | null {
+  const raw = Array.isArray(header) ? header.join(',') : header;
+  if (!raw || !raw.trim()) return null;
+  if (raw.trim() === '*') return '*';
+  return raw
+    .split(',')
+    .map((tag) => Number(tag.trim().replace(/^W\//, '').replace(/"/g, '')))
+    .filter((v) => Number.isInteger(v));
+}
+
+function matches(pre: VersionPrecondition, twin: TwinRecord) {
+  return pre === '*' || pre.includes(twin.version);
+}
+
+// Twins stored before they had owners belong to nobody, so no one can reach them through the API.
+const ownedBy = (twin: TwinRecord | null, owner: string) => (twin && twin.owner === owner ? twin : null);
+
+export async function listTwins(owner: string) {
+  return (await twins.list()).filter((twin) => twin.owner === owner);
+}
+
+// Another account's twin is reported as missing rather than forbidden, so ids can't be probed.
+export async function getTwin(id: string, owner: string) {
+  return ownedBy(await twins.get(id), owner);
+}
+
+// Accepts a complete (possibly older-schema) profile, e.g. one exported from the wizard.
+export async function createTwin(input: unknown, owner: string): Promise<TwinResult> {
+  const imported = importTwinProfile(input ?? {});
+  if (!imported.ok) return { ok: false, status: 400, error: imported.error };
+  if (imported.rejected.length) return { ok: false, status: 400, error: 'Profile contains invalid fields', rejected: imported.rejected };
+
+  const now = new Date().toISOString();
+  const twin: TwinRecord = { id: randomUUID(), owner, version: 1, createdAt: now, updatedAt: now, profile: imported.profile };
+  await twins.put(twin.id, twin);
+  return { ok: true, twin };
+}
+
+// Merges a partial profile (typically the sections of one onboarding step) into the stored twin.
+export async function patchTwin(id: string, owner: string, patch: unknown, pre: VersionPrecondition): Promise<TwinResult> {
+  let failure: TwinResult | null = null;
+  const updated = await twins.update(id, (stored) => {
+    const current = ownedBy(stored, owner);
+    if (!current) {
+      failure = { ok: false, status: 404, error: 'Twin not found' };
+      return null;
+    }
+    if (!matches(pre, current)) {
+      failure = { ok: false, status: 412, error: `Twin has changed (current version ${current.version})` };
+      return null;
+    }
+    const { profile, rejected } = validateTwinProfile(patch, current.profile);
+    if (rejected.length) {
+      failure = { ok: false, status: 400, error: 'Patch contains invalid fields', rejected };
+      return null;
+    }
+    return { ...current, version: current.version + 1, updatedAt: new Date().toISOString(), profile };
+  });
+  return updated ? { ok: true, twin: updated } : (failure as TwinResult | null) ?? { ok: false, status: 404, error: 'Twin not found' };
+}
+
+// The precondition is checked in the same store operation as the delete, so a write in between
+// can't slip past it.
+export async function deleteTwin(id: string, owner: string, pre: VersionPrecondition): Promise<TwinResult> {
+  let result: TwinResult = { ok: false, status: 404, error: 'Twin not found' };
+  await twins.delete(id, (stored) => {
+    const current = ownedBy(stored, owner);
+    if (!current) return false;
+    if (!matches(pre, current)) {
+      result = { ok: false, status: 412, error: `Twin has changed (current version ${current.version})` };
+      return false;
+    }
+    result = { ok: true, twin: current };
+    return true;
+  });
+  return result;
+}
@@ -0,0 +1,132 @@
+// Languages the twin can speak with clients. Profiles store the English `name` (as the Language step
+// always has); the twin's own wording for each language lives next to the code that produces it
+// (persona, previewEngine, guardrails) and is looked up by `code`.
+
+export type TwinLanguageCode = 'en' | 'nl' | 'de' | 'fr' | 'es';
+
+export type TwinLanguage = {
+  code: TwinLanguageCode;
+  name: string;
+  nativeName: string;
+  flag: string;
+  // client message used by the "Ask your Twin" preview
+  sampleClientMessage: string;
+  // the preset signature and banned phrases as a client would hear them, keyed by the English option
+  phrases: Record<string, string>;
+};
+
+export const TWIN_LANGUAGES: TwinLanguage[] = [
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    flag: '🇬🇧',
+    sampleClientMessage: 'I know what I should do, but I keep putting it off. Can you help me get started?',
+    phrases: {},
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    flag: '🇳🇱',
+    sampleClientMessage: 'Ik weet wat ik zou moeten doen, maar ik blijf het uitstellen. Kun je me helpen om te beginnen?',
+    phrases: {
+      'What if…': 'Wat als…',
+      'Tell me more': 'Vertel eens meer',
+      'How do you know?': 'Hoe weet je dat?',
+      'What’s the cost of not changing?': 'Wat kost het je als er niets verandert?',
+      'What’s true for you right now?': 'Wat is nu waar voor jou?',
+      'Say more about that': 'Zeg daar eens meer over',
+      'You must…': 'Je moet…',
+      'Everything happens for a reason': 'Alles gebeurt met een reden',
+      'Just be positive': 'Blijf gewoon positief',
+      'It’s not that bad': 'Zo erg is het niet',
+      'Follow my advice': 'Volg mijn advies',
+      'Calm down': 'Rustig maar',
+    },
+  },
+  {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    flag: '🇩🇪',
+    sampleClientMessage: 'Ich weiß, was ich tun sollte, aber ich schiebe es immer wieder auf. Kannst du mir helfen, anzufangen?',
+    phrases: {
+      'What if…': 'Was wäre, wenn…',
+      'Tell me more': 'Erzähl mir mehr',
+      'How do you know?': 'Woher weißt du das?',
+      'What’s the cost of not changing?': 'Was kostet es dich, nichts zu verändern?',
+      'What’s true for you right now?': 'Was ist gerade wahr für dich?',
+      'Say more about that': 'Sag mehr dazu',
+      'You must…': 'Du musst…',
+      'Everything happens for a reason': 'Alles passiert aus einem Grund',
+      'Just be positive': 'Sei einfach positiv',
+      'It’s not that bad': 'So schlimm ist es nicht',
+      'Follow my advice': 'Folge meinem Rat',
+      'Calm down': 'Beruhige dich',
+    },
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    flag: '🇫🇷',
+    sampleClientMessage: 'Je sais ce que je devrais faire, mais je remets toujours à plus tard. Vous pouvez m’aider à m’y mettre ?',
+    phrases: {
+      'What if…': 'Et si…',
+      'Tell me more': 'Dites-m’en plus',
+      'How do you know?': 'Comment le savez-vous ?',
+      'What’s the cost of not changing?': 'Que vous coûte le fait de ne rien changer ?',
+      'What’s true for you right now?': 'Qu’est-ce qui est vrai pour vous en ce moment ?',
+      'Say more about that': 'Développez un peu',
+      'You must…': 'Vous devez…',
+      'Everything happens for a reason': 'Tout arrive pour une raison',
+      'Just be positive': 'Soyez positif, c’est tout',
+      'It’s not that bad': 'Ce n’est pas si grave',
+      'Follow my advice': 'Suivez mon conseil',
+      'Calm down': 'Calmez-vous',
+    },
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    flag: '🇪🇸',
+    sampleClientMessage: 'Sé lo que debería hacer, pero lo sigo posponiendo. ¿Me ayudas a empezar?',
+    phrases: {
+      'What if…': 'Y si…',
+      'Tell me more': 'Cuéntame más',
+      'How do you know?': '¿Cómo lo sabes?',
+      'What’s the cost of not changing?': '¿Qué te cuesta no cambiar?',
+      'What’s true for you right now?': '¿Qué es verdad para ti ahora mismo?',
+      'Say more about that': 'Cuéntame más sobre eso',
+      'You must…': 'Tienes que…',
+      'Everything happens for a reason': 'Todo pasa por algo',
+      'Just be positive': 'Solo sé positivo',
+      'It’s not that bad': 'No es para tanto',
+      'Follow my advice': 'Sigue mi consejo',
+      'Calm down': 'Cálmate',
+    },
+  },
+];
+
+const DEFAULT_TWIN_LANGUAGE = TWIN_LANGUAGES[0];
+
+// NEXT_PUBLIC_TWIN_LANGUAGES=en,nl,de limits what the Language step offers; unset offers them all.
+function offeredLanguages(setting: string | undefined) {
+  const codes = (setting || '').split(',').map((c) => c.trim().toLowerCase()).filter(Boolean);
+  const offered = TWIN_LANGUAGES.filter((l) => codes.includes(l.code));
+  return offered.length ? offered : TWIN_LANGUAGES;
+}
+
+export const OFFERED_TWIN_LANGUAGES = offeredLanguages(process.env.NEXT_PUBLIC_TWIN_LANGUAGES);
+
+// Unknown names (e.g. from an imported profile) use the English wording; the persona still names them.
+export function twinLanguageFor(name: string | null | undefined): TwinLanguage {
+  return TWIN_LANGUAGES.find((l) => l.name === name) || DEFAULT_TWIN_LANGUAGE;
+}
+
+// A preset phrase in the twin's language; free-text phrases come back as typed.
+export function localizePhrase(language: TwinLanguage, phrase: string) {
+  return language.phrases[phrase] ?? phrase;
+}
@@ -0,0 +1,42 @@
+import { TwinProfile } from '@/lib/twinProfile';
+
+// Client side of /api/twin/preview: the twin's reply arrives as a plain-text stream. Without a
+// `message` the server sends the sample client message for the twin's language.
+
+export const PREVIEW_MESSAGE_MAX = 1000;
+
+// Calls `onText` with the accumulated reply after every chunk and resolves with the full text.
+export async function streamTwinPreview(
+  profile: TwinProfile,
+  onText: (text: string) => void,
+  opts: { message?: string; signal?: AbortSignal } = {}
+): Promise<string> {
+  const res = await fetch('/api/twin/preview', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ profile, message: opts.message }),
+    signal: opts.signal,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    throw new Error((data && data.error) || `Preview failed (${res.status})`);
+  }
+
+  let text = '';
+  if (!res.body) {
+    text = await res.text();
+    onText(text);
+    return text;
+  }
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+  text += decoder.decode();
+  onText(text);
+  return text;
+}
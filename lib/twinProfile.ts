@@ -0,0 +1,380 @@
+// Typed, versioned model of everything the onboarding wizard collects about a coach's AI Twin.
+// Bump TWIN_PROFILE_SCHEMA_VERSION and add an entry to `migrations` whenever the shape changes.
+export const TWIN_PROFILE_SCHEMA_VERSION = 2;
+
+export type Permission = 'never' | 'review' | 'independent';
+export const PERMISSIONS: Permission[] = ['never', 'review', 'independent'];
+
+export type ChoiceAnswer = { selected: string | null; otherOpen: boolean; otherText: string };
+export type MultiChoiceAnswer = { selected: string[]; otherOpen: boolean; otherText: string };
+
+export type TwinProfile = {
+  schemaVersion: number;
+  language: { onboarding: string | null; twin: string | null };
+  identity: {
+    clientQuote: string;
+    tone: MultiChoiceAnswer;
+    signaturePhrase: ChoiceAnswer;
+    // the signature phrase as the coach would say it in the twin's language, '' to use the translated preset
+    twinSignaturePhrase: string;
+    bannedPhrase: ChoiceAnswer;
+    clientTypes: MultiChoiceAnswer;
+  };
+  method: { approach: ChoiceAnswer; belief: ChoiceAnswer; metaphor: ChoiceAnswer };
+  example: { breakthrough: ChoiceAnswer; intervention: ChoiceAnswer; dialogue: string };
+  guardrails: {
+    neverDo: MultiChoiceAnswer;
+    disclosure: ChoiceAnswer;
+    // support area (e.g. 'Homework') -> permission level, null while unanswered
+    permissions: Record<string, Permission | null>;
+  };
+  preview: {
+    rating: number;
+    directness: number;
+    warmth: number;
+    challenge: number;
+    thumb: 'up' | 'down' | null;
+    feedback: 'accept' | 'tweak' | 'sharpen' | null;
+  };
+};
+
+const emptyChoice = (): ChoiceAnswer => ({ selected: null, otherOpen: false, otherText: '' });
+const emptyMultiChoice = (): MultiChoiceAnswer => ({ selected: [], otherOpen: false, otherText: '' });
+
+export function createEmptyProfile(): TwinProfile {
+  return {
+    schemaVersion: TWIN_PROFILE_SCHEMA_VERSION,
+    language: { onboarding: null, twin: null },
+    identity: {
+      clientQuote: '',
+      tone: emptyMultiChoice(),
+      signaturePhrase: emptyChoice(),
+      twinSignaturePhrase: '',
+      bannedPhrase: emptyChoice(),
+      clientTypes: emptyMultiChoice(),
+    },
+    method: { approach: emptyChoice(), belief: emptyChoice(), metaphor: emptyChoice() },
+    example: { breakthrough: emptyChoice(), intervention: emptyChoice(), dialogue: '' },
+    guardrails: { neverDo: emptyMultiChoice(), disclosure: emptyChoice(), permissions: {} },
+    preview: { rating: 5, directness: 5, warmth: 5, challenge: 5, thumb: null, feedback: null },
+  };
+}
+
+// Effective answer of a choice question: the picked option, else the "Other" text.
+export function choiceValue(c: ChoiceAnswer): string | null {
+  if (c.selected) return c.selected;
+  const other = c.otherText.trim();
+  return c.otherOpen && other ? other : null;
+}
+
+export function multiChoiceValues(c: MultiChoiceAnswer): string[] {
+  const other = c.otherText.trim();
+  return c.otherOpen && other ? [...c.selected, other] : c.selected;
+}
+
+/* ------------------------------------------------------------------ */
+/* Flat field view of schema version 0 (the old hand-coded step panels) */
+/* ------------------------------------------------------------------ */
+
+export type OnboardingAnswers = {
+  onboardingLang: string | null;
+  twinLang: string | null;
+
+  // Identity & Tone
+  q1Text: string;
+  q2Selections: string[];
+  q2OtherOpen: boolean;
+  q2OtherText: string;
+  q3Selection: string | null;
+  q3OtherOpen: boolean;
+  q3OtherText: string;
+  q3TwinText: string;
+  q4Selection: string | null;
+  q4OtherOpen: boolean;
+  q4OtherText: string;
+  q5Selections: string[];
+  q5OtherOpen: boolean;
+  q5OtherText: string;
+
+  // Method & Beliefs
+  mQ1Selection: string | null;
+  mQ1OtherOpen: boolean;
+  mQ1OtherText: string;
+  mQ2Selection: string | null;
+  mQ2OtherOpen: boolean;
+  mQ2OtherText: string;
+  mQ3Selection: string | null;
+  mQ3OtherOpen: boolean;
+  mQ3OtherText: string;
+
+  // Example in Action
+  exQ1Selection: string | null;
+  exQ1OtherOpen: boolean;
+  exQ1OtherText: string;
+  exQ2Selection: string | null;
+  exQ2OtherOpen: boolean;
+  exQ2OtherText: string;
+  exQ3Text: string;
+
+  // Guardrails — gQ3Map is row -> 'never'|'review'|'independent' | null
+  gQ1Selections: string[];
+  gQ1OtherOpen: boolean;
+  gQ1OtherText: string;
+  gQ2Selection: string | null;
+  gQ2OtherOpen: boolean;
+  gQ2OtherText: string;
+  gQ3Map: Record<string, string | null>;
+
+  // Preview
+  previewRating: number;
+  directness: number;
+  warmth: number;
+  challenge: number;
+  feedbackThumb: 'up' | 'down' | null;
+  selectedFeedbackChoice: 'accept' | 'tweak' | 'sharpen' | null;
+};
+
+export function answersFromProfile(p: TwinProfile): OnboardingAnswers {
+  const { identity: id, method: m, example: ex, guardrails: g, preview: pv } = p;
+  return {
+    onboardingLang: p.language.onboarding,
+    twinLang: p.language.twin,
+    q1Text: id.clientQuote,
+    q2Selections: id.tone.selected, q2OtherOpen: id.tone.otherOpen, q2OtherText: id.tone.otherText,
+    q3Selection: id.signaturePhrase.selected, q3OtherOpen: id.signaturePhrase.otherOpen, q3OtherText: id.signaturePhrase.otherText,
+    q3TwinText: id.twinSignaturePhrase,
+    q4Selection: id.bannedPhrase.selected, q4OtherOpen: id.bannedPhrase.otherOpen, q4OtherText: id.bannedPhrase.otherText,
+    q5Selections: id.clientTypes.selected, q5OtherOpen: id.clientTypes.otherOpen, q5OtherText: id.clientTypes.otherText,
+    mQ1Selection: m.approach.selected, mQ1OtherOpen: m.approach.otherOpen, mQ1OtherText: m.approach.otherText,
+    mQ2Selection: m.belief.selected, mQ2OtherOpen: m.belief.otherOpen, mQ2OtherText: m.belief.otherText,
+    mQ3Selection: m.metaphor.selected, mQ3OtherOpen: m.metaphor.otherOpen, mQ3OtherText: m.metaphor.otherText,
+    exQ1Selection: ex.breakthrough.selected, exQ1OtherOpen: ex.breakthrough.otherOpen, exQ1OtherText: ex.breakthrough.otherText,
+    exQ2Selection: ex.intervention.selected, exQ2OtherOpen: ex.intervention.otherOpen, exQ2OtherText: ex.intervention.otherText,
+    exQ3Text: ex.dialogue,
+    gQ1Selections: g.neverDo.selected, gQ1OtherOpen: g.neverDo.otherOpen, gQ1OtherText: g.neverDo.otherText,
+    gQ2Selection: g.disclosure.selected, gQ2OtherOpen: g.disclosure.otherOpen, gQ2OtherText: g.disclosure.otherText,
+    gQ3Map: g.permissions,
+    previewRating: pv.rating,
+    directness: pv.directness,
+    warmth: pv.warmth,
+    challenge: pv.challenge,
+    feedbackThumb: pv.thumb,
+    selectedFeedbackChoice: pv.feedback,
+  };
+}
+
+export function profileFromAnswers(a: OnboardingAnswers): TwinProfile {
+  return {
+    schemaVersion: TWIN_PROFILE_SCHEMA_VERSION,
+    language: { onboarding: a.onboardingLang, twin: a.twinLang },
+    identity: {
+      clientQuote: a.q1Text,
+      tone: { selected: a.q2Selections, otherOpen: a.q2OtherOpen, otherText: a.q2OtherText },
+      signaturePhrase: { selected: a.q3Selection, otherOpen: a.q3OtherOpen, otherText: a.q3OtherText },
+      twinSignaturePhrase: a.q3TwinText,
+      bannedPhrase: { selected: a.q4Selection, otherOpen: a.q4OtherOpen, otherText: a.q4OtherText },
+      clientTypes: { selected: a.q5Selections, otherOpen: a.q5OtherOpen, otherText: a.q5OtherText },
+    },
+    method: {
+      approach: { selected: a.mQ1Selection, otherOpen: a.mQ1OtherOpen, otherText: a.mQ1OtherText },
+      belief: { selected: a.mQ2Selection, otherOpen: a.mQ2OtherOpen, otherText: a.mQ2OtherText },
+      metaphor: { selected: a.mQ3Selection, otherOpen: a.mQ3OtherOpen, otherText: a.mQ3OtherText },
+    },
+    example: {
+      breakthrough: { selected: a.exQ1Selection, otherOpen: a.exQ1OtherOpen, otherText: a.exQ1OtherText },
+      intervention: { selected: a.exQ2Selection, otherOpen: a.exQ2OtherOpen, otherText: a.exQ2OtherText },
+      dialogue: a.exQ3Text,
+    },
+    guardrails: {
+      neverDo: { selected: a.gQ1Selections, otherOpen: a.gQ1OtherOpen, otherText: a.gQ1OtherText },
+      disclosure: { selected: a.gQ2Selection, otherOpen: a.gQ2OtherOpen, otherText: a.gQ2OtherText },
+      permissions: a.gQ3Map as Record<string, Permission | null>,
+    },
+    preview: {
+      rating: a.previewRating,
+      directness: a.directness,
+      warmth: a.warmth,
+      challenge: a.challenge,
+      thumb: a.feedbackThumb,
+      feedback: a.selectedFeedbackChoice,
+    },
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/* Migrations                                                          */
+/* ------------------------------------------------------------------ */
+
+const ANSWER_KEYS = Object.keys(answersFromProfile(createEmptyProfile())) as (keyof OnboardingAnswers)[];
+
+// Only the keys of the flat answer object; validation below checks their values once they're mapped.
+function pickAnswers(doc: Record<string, unknown>): Partial<OnboardingAnswers> {
+  const picked: Record<string, unknown> = {};
+  ANSWER_KEYS.forEach((key) => {
+    if (Object.prototype.hasOwnProperty.call(doc, key)) picked[key] = doc[key];
+  });
+  return picked as Partial<OnboardingAnswers>;
+}
+
+// migrations[n] upgrades a version-n document to version n + 1
+const migrations: Record<number, (doc: any) => any> = {
+  // v0: the flat answer object autosaved by the first onboarding drafts
+  0: (doc) => profileFromAnswers({ ...answersFromProfile(createEmptyProfile()), ...pickAnswers(doc) }),
+  // v1 -> v2: separate signature phrase in the twin's language
+  1: (doc) => (doc.identity && typeof doc.identity === 'object' ? { ...doc, identity: { twinSignaturePhrase: '', ...doc.identity } } : doc),
+};
+
+export function migrateTwinProfile(doc: any): { doc: any; fromVersion: number } | { error: string } {
+  if (!doc || typeof doc !== 'object' || Array.isArray(doc)) return { error: 'Profile must be a JSON object' };
+  const fromVersion = doc.schemaVersion === undefined ? 0 : doc.schemaVersion;
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) return { error: 'schemaVersion must be a non-negative integer' };
+  if (fromVersion > TWIN_PROFILE_SCHEMA_VERSION) {
+    return { error: `Profile uses schema version ${fromVersion}; this app supports up to ${TWIN_PROFILE_SCHEMA_VERSION}` };
+  }
+  let current = doc;
+  for (let v = fromVersion; v < TWIN_PROFILE_SCHEMA_VERSION; v++) {
+    current = { ...migrations[v](current), schemaVersion: v + 1 };
+  }
+  return { doc: current, fromVersion };
+}
+
+/* ------------------------------------------------------------------ */
+/* Validation                                                          */
+/* ------------------------------------------------------------------ */
+
+export type RejectedField = { path: string; reason: string };
+
+const MAX_TEXT = 500;
+const MAX_DIALOGUE = 4000;
+const MAX_SELECTIONS = 20;
+
+export type FieldKind = 'text' | 'dialogue' | 'language' | 'choice' | 'multiChoice' | 'permissions' | 'scale' | 'thumb' | 'feedback';
+type SchemaNode = FieldKind | { [key: string]: SchemaNode };
+
+const SCHEMA: { [section: string]: { [key: string]: SchemaNode } } = {
+  language: { onboarding: 'language', twin: 'language' },
+  identity: { clientQuote: 'text', tone: 'multiChoice', signaturePhrase: 'choice', twinSignaturePhrase: 'text', bannedPhrase: 'choice', clientTypes: 'multiChoice' },
+  method: { approach: 'choice', belief: 'choice', metaphor: 'choice' },
+  example: { breakthrough: 'choice', intervention: 'choice', dialogue: 'dialogue' },
+  guardrails: { neverDo: 'multiChoice', disclosure: 'choice', permissions: 'permissions' },
+  preview: { rating: 'scale', directness: 'scale', warmth: 'scale', challenge: 'scale', thumb: 'thumb', feedback: 'feedback' },
+};
+
+// Kind of the profile field at a dotted path ('identity.tone'), or null when there is no such field.
+export function profileFieldKind(path: string): FieldKind | null {
+  const node = path.split('.').reduce<SchemaNode | undefined>((n, key) => (
+    n && typeof n === 'object' && Object.prototype.hasOwnProperty.call(n, key) ? n[key] : undefined
+  ), SCHEMA as SchemaNode);
+  return typeof node === 'string' ? node : null;
+}
+
+// Every answer field of the profile with its kind, in schema order.
+export function profileFields(): { path: string; kind: FieldKind }[] {
+  const walk = (node: SchemaNode, path: string): { path: string; kind: FieldKind }[] => (
+    typeof node === 'string' ? [{ path, kind: node }] : Object.keys(node).reduce<{ path: string; kind: FieldKind }[]>((all, key) => all.concat(walk(node[key], path ? `${path}.${key}` : key)), [])
+  );
+  return walk(SCHEMA as SchemaNode, '');
+}
+
+const isText = (v: unknown, max: number): v is string => typeof v === 'string' && v.length <= max;
+const isPlainObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Returns the reason a value doesn't fit the field kind, or null when it's valid.
+function checkField(kind: FieldKind, v: any): string | null {
+  switch (kind) {
+    case 'text':
+      return isText(v, MAX_TEXT) ? null : `expected text up to ${MAX_TEXT} characters`;
+    case 'dialogue':
+      return isText(v, MAX_DIALOGUE) ? null : `expected text up to ${MAX_DIALOGUE} characters`;
+    case 'language':
+      return v === null || isText(v, 40) ? null : 'expected a language name or null';
+    case 'choice':
+      if (!isPlainObject(v)) return 'expected { selected, otherOpen, otherText }';
+      if (!(v.selected === null || isText(v.selected, MAX_TEXT))) return 'selected must be text or null';
+      if (typeof v.otherOpen !== 'boolean') return 'otherOpen must be a boolean';
+      return isText(v.otherText, MAX_TEXT) ? null : 'otherText must be text';
+    case 'multiChoice':
+      if (!isPlainObject(v)) return 'expected { selected, otherOpen, otherText }';
+      if (!Array.isArray(v.selected) || v.selected.length > MAX_SELECTIONS || !v.selected.every((s) => isText(s, MAX_TEXT))) {
+        return `selected must be a list of up to ${MAX_SELECTIONS} options`;
+      }
+      if (typeof v.otherOpen !== 'boolean') return 'otherOpen must be a boolean';
+      return isText(v.otherText, MAX_TEXT) ? null : 'otherText must be text';
+    case 'permissions':
+      if (!isPlainObject(v)) return 'expected an object of area -> permission';
+      for (const [area, level] of Object.entries(v)) {
+        if (level !== null && !PERMISSIONS.includes(level as Permission)) return `"${area}" must be one of ${PERMISSIONS.join(', ')} or null`;
+      }
+      return null;
+    case 'scale':
+      return Number.isInteger(v) && v >= 1 && v <= 10 ? null : 'expected a whole number from 1 to 10';
+    case 'thumb':
+      return v === null || v === 'up' || v === 'down' ? null : 'expected "up", "down" or null';
+    case 'feedback':
+      return v === null || v === 'accept' || v === 'tweak' || v === 'sharpen' ? null : 'expected "accept", "tweak", "sharpen" or null';
+  }
+}
+
+// Copies every valid field of `input` over `base`, collecting the ones it had to reject.
+function applyNode(schema: { [key: string]: SchemaNode }, input: any, base: any, path: string, rejected: RejectedField[]) {
+  if (!isPlainObject(input)) {
+    rejected.push({ path, reason: 'expected an object' });
+    return;
+  }
+  for (const [key, value] of Object.entries(input)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const node = schema[key];
+    if (!node) {
+      rejected.push({ path: fieldPath, reason: 'unknown field' });
+      continue;
+    }
+    if (typeof node === 'object') {
+      applyNode(node, value, base[key], fieldPath, rejected);
+      continue;
+    }
+    const reason = checkField(node, value);
+    if (reason) rejected.push({ path: fieldPath, reason });
+    else base[key] = JSON.parse(JSON.stringify(value));
+  }
+}
+
+// Validates a (possibly partial) profile section by section. Invalid fields keep their value from
+// `base` and are reported, so one bad field never throws away the rest of an import.
+export function validateTwinProfile(input: any, base: TwinProfile = createEmptyProfile()): { profile: TwinProfile; rejected: RejectedField[] } {
+  const profile: TwinProfile = JSON.parse(JSON.stringify(base));
+  const rejected: RejectedField[] = [];
+  const { schemaVersion, ...sections } = isPlainObject(input) ? input : ({} as any);
+  if (!isPlainObject(input)) rejected.push({ path: '', reason: 'expected an object' });
+  else applyNode(SCHEMA, sections, profile, '', rejected);
+  profile.schemaVersion = TWIN_PROFILE_SCHEMA_VERSION;
+  return { profile, rejected };
+}
+
+export type TwinProfileImportResult =
+  | { ok: true; profile: TwinProfile; rejected: RejectedField[]; migratedFrom: number | null }
+  | { ok: false; error: string };
+
+// Parses, migrates and validates an exported profile (JSON text or an already-parsed object).
+export function importTwinProfile(input: unknown): TwinProfileImportResult {
+  let doc: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      doc = JSON.parse(input);
+    } catch (e) {
+      return { ok: false, error: 'File is not valid JSON' };
+    }
+  }
+  const migrated = migrateTwinProfile(doc);
+  if ('error' in migrated) return { ok: false, error: migrated.error };
+  const { profile, rejected } = validateTwinProfile(migrated.doc);
+  return {
+    ok: true,
+    profile,
+    rejected,
+    migratedFrom: migrated.fromVersion === TWIN_PROFILE_SCHEMA_VERSION ? null : migrated.fromVersion,
+  };
+}
+
+export function exportTwinProfile(profile: TwinProfile): string {
+  return JSON.stringify({ ...profile, schemaVersion: TWIN_PROFILE_SCHEMA_VERSION }, null, 2);
+}
@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const CONTROLS = 'input, select, textarea, button';
+
+// After a rejected submit, moves focus to the first field marked aria-invalid inside `ref` (or to
+// the first control of a group marked data-invalid, as groups don't take aria-invalid) once the
+// errors have rendered.
+export function useFocusFirstInvalid<T extends HTMLElement>() {
+  const ref = useRef<T>(null);
+  const [request, setRequest] = useState(0);
+
+  useEffect(() => {
+    if (!request || !ref.current) return;
+    const invalid = ref.current.querySelector<HTMLElement>('[aria-invalid="true"], [data-invalid="true"]');
+    if (!invalid) return;
+    const control = invalid.matches(CONTROLS) ? invalid : invalid.querySelector<HTMLElement>(CONTROLS);
+    (control || invalid).focus();
+  }, [request]);
+
+  const focusFirstInvalid = useCallback(() => setRequest((r) => r + 1), []);
+  return { ref, focusFirstInvalid };
+}
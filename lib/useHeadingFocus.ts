@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+
+// Moves focus to the heading of whatever `view` is on screen each time it changes, so keyboard and
+// screen-reader users land on the new content instead of a button that just disappeared. The first
+// view only takes focus with `autoFocus`, i.e. when the coach arrived from another step rather
+// than by loading the page. Headings need tabIndex={-1} to take focus.
+export function useHeadingFocus<T extends HTMLElement = HTMLHeadingElement>(view: string | number, autoFocus: boolean) {
+  const ref = useRef<T>(null);
+  const firstView = useRef(true);
+
+  useEffect(() => {
+    const skip = firstView.current && !autoFocus;
+    firstView.current = false;
+    if (!skip && ref.current) ref.current.focus();
+  }, [view, autoFocus]);
+
+  return ref;
+}
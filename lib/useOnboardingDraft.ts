@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SetStateAction } from 'react';
+import {
+  OnboardingDraft,
+  applyAction,
+  clearLocalDraft,
+  createEmptyDraft,
+  fetchServerDraft,
+  loadLocalDraft,
+  saveLocalDraft,
+  saveServerDraft,
+} from '@/lib/onboardingDraft';
+
+const LOCAL_SAVE_DELAY = 400;
+const SERVER_SAVE_DELAY = 2000;
+
+// Holds the whole onboarding draft (answers + position in the wizard), restores it on mount
+// and autosaves it to localStorage and the server draft endpoint.
+export function useOnboardingDraft() {
+  const [draft, setDraftState] = useState<OnboardingDraft>(() => createEmptyDraft());
+  const [hydrated, setHydrated] = useState(false);
+  const dirty = useRef(false);
+
+  useEffect(() => {
+    let mounted = true;
+    const local = loadLocalDraft();
+    if (local) setDraftState(local);
+    setHydrated(true);
+
+    // a newer server copy wins (e.g. the coach continued on another tab)
+    if (local) {
+      fetchServerDraft(local.id).then((remote) => {
+        if (!mounted || !remote || remote.updatedAt <= local.updatedAt) return;
+        setDraftState((current) => (current.updatedAt > remote.updatedAt ? current : remote));
+      });
+    }
+    return () => { mounted = false };
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated || !dirty.current) return;
+    const localTimer = setTimeout(() => saveLocalDraft(draft), LOCAL_SAVE_DELAY);
+    const serverTimer = setTimeout(() => saveServerDraft(draft), SERVER_SAVE_DELAY);
+    return () => {
+      clearTimeout(localTimer);
+      clearTimeout(serverTimer);
+    };
+  }, [draft, hydrated]);
+
+  const setDraft = useCallback((action: SetStateAction<OnboardingDraft>) => {
+    dirty.current = true;
+    setDraftState((prev) => ({ ...applyAction(prev, action), updatedAt: Date.now() }));
+  }, []);
+
+  const resetDraft = useCallback(() => {
+    dirty.current = false;
+    clearLocalDraft();
+    setDraftState(createEmptyDraft());
+  }, []);
+
+  return { draft, setDraft, resetDraft, hydrated };
+}
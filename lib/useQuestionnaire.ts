@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isStaticDeployment } from '@/lib/deployment';
+import { BUILT_IN_QUESTIONNAIRE_VERSION, ONBOARDING_QUESTIONNAIRE } from '@/lib/onboardingQuestionnaire';
+import { Questionnaire, validateQuestionnaire } from '@/lib/questionnaire';
+
+export type QuestionnaireState =
+  | { status: 'loading' }
+  | { status: 'ready'; version: number; questionnaire: Questionnaire }
+  | { status: 'error' };
+
+const BUILT_IN_STATE: QuestionnaireState = { status: 'ready', version: BUILT_IN_QUESTIONNAIRE_VERSION, questionnaire: ONBOARDING_QUESTIONNAIRE };
+
+// Loads the questionnaire version a draft is pinned to, or the latest published one for a coach who
+// hasn't started yet. The static build has no API and always uses the built-in questionnaire.
+export function useQuestionnaire(version: number | null) {
+  const builtIn = isStaticDeployment || version === BUILT_IN_QUESTIONNAIRE_VERSION;
+  const [state, setState] = useState<QuestionnaireState>(builtIn ? BUILT_IN_STATE : { status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+  // the version on screen; pinning a draft to the latest version just loaded needs no second fetch
+  const loaded = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (builtIn) {
+      setState(BUILT_IN_STATE);
+      return;
+    }
+    if (version !== null && loaded.current === version) return;
+    let mounted = true;
+    setState({ status: 'loading' });
+    fetch(`/api/questionnaires/${version ?? 'latest'}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(`Questionnaire API ${res.status}`))))
+      .then((data) => {
+        const checked = validateQuestionnaire(data && data.questionnaire);
+        if (!checked.ok) throw new Error(`Questionnaire ${data && data.version} is invalid`);
+        if (!mounted) return;
+        loaded.current = data.version;
+        setState({ status: 'ready', version: data.version, questionnaire: checked.questionnaire });
+      })
+      .catch((e) => {
+        // eslint-disable-next-line no-console
+        console.warn('Could not load questionnaire', e);
+        if (mounted) setState({ status: 'error' });
+      });
+    return () => { mounted = false };
+  }, [builtIn, version, attempt]);
+
+  const retry = useCallback(() => setAttempt((a) => a + 1), []);
+
+  return { state, retry };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { SessionResponse } from '@/lib/auth';
+import { isStaticDeployment } from '@/lib/deployment';
+
+const SIGNED_OUT: SessionResponse = { providers: [], session: null };
+
+// Who the browser is signed in as (/api/auth/session). Until the server answers, and always in the
+// static build, which has no server, it is signed out with no providers to sign in with.
+export function useSession() {
+  const [state, setState] = useState<SessionResponse>(SIGNED_OUT);
+  // whether the server has answered (or couldn't be asked), so pages can tell "signed out" from "not known yet"
+  const [loaded, setLoaded] = useState(isStaticDeployment);
+
+  const refresh = useCallback(async () => {
+    if (isStaticDeployment) return;
+    try {
+      const res = await fetch('/api/auth/session');
+      const data: SessionResponse | null = res.ok ? await res.json().catch(() => null) : null;
+      if (data && Array.isArray(data.providers)) setState(data);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('Could not load session', e);
+    }
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // resolves false when the server couldn't be reached, and the session is still there
+  const signOut = useCallback(async () => {
+    const res = await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
+    if (!res || !res.ok) return false;
+    setState((s) => ({ ...s, session: null }));
+    return true;
+  }, []);
+
+  return { providers: state.providers, session: state.session, loaded, refresh, signOut };
+}
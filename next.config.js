@@ -20,6 +20,8 @@ const nextConfig = {
   env: {
     // Make base path available to components
     NEXT_PUBLIC_BASE_PATH: isPages ? `/${repo}` : '',
+    // 'static' builds have no API routes (lib/deployment.ts)
+    NEXT_PUBLIC_DEPLOY_TARGET: isPages ? 'static' : 'server',
   },
   
   images: {
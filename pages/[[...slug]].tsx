@@ -0,0 +1,634 @@
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import type { SetStateAction } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import type { GetStaticPaths, GetStaticProps } from 'next';
+import { applyAction } from '@/lib/onboardingDraft';
+import { TwinProfile } from '@/lib/twinProfile';
+import { useOnboardingDraft } from '@/lib/useOnboardingDraft';
+import { pruneHiddenAnswers } from '@/lib/questionnaire';
+import { useQuestionnaire } from '@/lib/useQuestionnaire';
+import { ONBOARDING_QUESTIONNAIRE } from '@/lib/onboardingQuestionnaire';
+import { PREVIEW_STEP_ID, allOnboardingSlugs, onboardingPath, parseOnboardingSlug, resolveRoute, stepIds } from '@/lib/onboardingRoute';
+import ProfileTransfer from '@/components/ProfileTransfer';
+import QuestionnaireStep from '@/components/QuestionnaireStep';
+import PreviewStep from '@/components/PreviewStep';
+import { AccountField, AccountFieldErrors, VALIDATION_PARAMS, hasErrors, validateAccount } from '@/lib/accountValidation';
+import { isStaticDeployment } from '@/lib/deployment';
+import { AUTH_PROVIDER_NAMES, SIGN_IN_FAILED, SIGN_IN_RESULT_PARAM, signInUrl } from '@/lib/auth';
+import { useSession } from '@/lib/useSession';
+import { useFocusFirstInvalid } from '@/lib/useFocusFirstInvalid';
+import FieldError, { errorIdFor } from '@/components/FieldError';
+import LoginForm from '@/components/LoginForm';
+import PasswordStrength from '@/components/PasswordStrength';
+import CountryCombobox from '@/components/CountryCombobox';
+import WelcomeDialog from '@/components/WelcomeDialog';
+import { findCountryCode } from '@/lib/countries';
+import { GEO_DETECTION_MODE, detectCountry } from '@/lib/geoDetection';
+import { I18nProvider, createTranslator, localeForLanguage, useI18n } from '@/lib/i18n';
+
+// input ids of the account fields, for labels and error messages
+const FIELD_IDS: Record<AccountField, string> = {
+  firstName: 'first-name',
+  lastName: 'last-name',
+  email: 'email',
+  country: 'country',
+  linkedIn: 'linkedin',
+  password: 'password',
+};
+
+const PASSWORD_STRENGTH_ID = 'password-strength';
+// announces the outcome of the Detect button next to the country field
+const COUNTRY_STATUS_ID = 'country-status';
+
+type OnboardingFormProps = {
+  onStart?: () => void;
+};
+
+function OnboardingForm({ onStart }: OnboardingFormProps) {
+  const { t, locale } = useI18n();
+  const router = useRouter();
+  const { providers, session, refresh: refreshSession, signOut } = useSession();
+  const account = session ? session.account : null;
+  const identity = session ? session.identity : null;
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [email, setEmail] = useState('');
+  const [country, setCountry] = useState('');
+  const [linkedIn, setLinkedIn] = useState('');
+  const [usePassword, setUsePassword] = useState(false);
+  // returning coaches sign in with their password instead of filling in the form
+  const [loggingIn, setLoggingIn] = useState(false);
+  const [password, setPassword] = useState('');
+  const [loadingGeo, setLoadingGeo] = useState(false);
+  const [detectFailed, setDetectFailed] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [attempted, setAttempted] = useState(false);
+  const [serverErrors, setServerErrors] = useState<AccountFieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // a new account's address still has to be confirmed through the link we just emailed
+  const [verificationSent, setVerificationSent] = useState(false);
+  const [resendState, setResendState] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  useEffect(() => {
+    if (GEO_DETECTION_MODE === 'off') return;
+    let mounted = true;
+    setLoadingGeo(true);
+    detectCountry().then((detected) => {
+      if (!mounted) return;
+      // detection only fills an empty field; it never replaces what the coach picked
+      if (detected) setCountry((v) => v || detected.countryCode);
+      setLoadingGeo(false);
+    });
+    return () => { mounted = false };
+  }, []);
+
+  async function detectCountryNow() {
+    setDetectFailed(false);
+    setLoadingGeo(true);
+    const detected = await detectCountry();
+    setLoadingGeo(false);
+    if (!detected) {
+      setDetectFailed(true);
+      return;
+    }
+    setCountry(detected.countryCode);
+    clearError('country');
+  }
+
+  // a sign-in fills in what the account or the provider knows, without overwriting what was typed
+  useEffect(() => {
+    const source = account || identity;
+    if (!source) return;
+    setFirstName((v) => v || source.firstName);
+    setLastName((v) => v || source.lastName);
+    setEmail((v) => v || source.email);
+    setLinkedIn((v) => v || source.linkedIn);
+    // accounts from before countries were stored as codes hold a name
+    if (account) setCountry((v) => v || findCountryCode(account.country) || '');
+  }, [account, identity]);
+
+  // the sign-in callback comes back with ?signin=failed when it didn't work
+  const signInResult = router.query[SIGN_IN_RESULT_PARAM];
+  useEffect(() => {
+    if (signInResult !== SIGN_IN_FAILED) return;
+    setFormError(t('form.signIn.failed'));
+    // drop the flag so a reload doesn't show the message again
+    router.replace(router.asPath.split('?')[0], undefined, { shallow: true });
+  }, [signInResult, router, t]);
+
+  const handleSignOut = async () => {
+    setFormError(null);
+    if (!(await signOut())) setFormError(t('form.error.network'));
+  };
+
+  const handleResendVerification = async () => {
+    setResendState('sending');
+    const res = await fetch('/api/auth/verify-email/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ locale }),
+    }).catch(() => null);
+    setResendState(res && res.ok ? 'sent' : 'failed');
+  };
+
+  const { ref: formRef, focusFirstInvalid } = useFocusFirstInvalid<HTMLFormElement>();
+  const payload = { firstName, lastName, email, country, linkedIn, password: usePassword ? password : undefined };
+  const clientErrors = validateAccount(payload).errors;
+  // errors show from the first submit on and then follow the input; the server's last until the field is edited
+  const errors: AccountFieldErrors = attempted ? { ...serverErrors, ...clientErrors } : {};
+
+  const clearError = (field: AccountField) => {
+    if (serverErrors[field]) setServerErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const fieldError = (field: AccountField) => (
+    <FieldError id={errorIdFor(FIELD_IDS[field])} message={errors[field] && t(errors[field] as string, VALIDATION_PARAMS)} />
+  );
+
+  const describedBy = (field: AccountField) => (errors[field] ? errorIdFor(FIELD_IDS[field]) : undefined);
+
+  const inputBorder = (field: AccountField) => (errors[field] ? 'border-red-500' : 'border-gray-300');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    setAttempted(true);
+    if (hasErrors(clientErrors)) {
+      focusFirstInvalid();
+      return;
+    }
+
+    // the static GitHub Pages build has no backend to create the account with, and a coach who
+    // signed in to an existing account has nothing left to create
+    if (isStaticDeployment || account) {
+      setShowModal(true);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/onboarding', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, locale }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setServerErrors(data?.errors || {});
+        setFormError(t('form.error.submitFailed'));
+        focusFirstInvalid();
+        return;
+      }
+      setVerificationSent(!(data && data.account && data.account.emailVerified));
+      setShowModal(true);
+    } catch (err) {
+      setFormError(t('form.error.network'));
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <>
+    {loggingIn ? (
+      <LoginForm onSignedIn={() => { setLoggingIn(false); refreshSession(); }} onCancel={() => setLoggingIn(false)} />
+    ) : (
+    <form ref={formRef} noValidate className="w-full mt-6 space-y-4" onSubmit={handleSubmit}>
+      {(account || identity) && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg">
+          <span>{account ? t('form.signedIn', { email: account.email }) : identity && t('form.signedInWith', { provider: AUTH_PROVIDER_NAMES[identity.provider], email: identity.email })}</span>
+          <button type="button" onClick={handleSignOut} className="font-medium text-primary hover:underline">{t('form.signOut')}</button>
+        </div>
+      )}
+      {account && !account.emailVerified && (
+        <p className="text-sm text-gray-600" aria-live="polite">
+          {t('form.unverified')}{' '}
+          {resendState === 'sent' ? t('form.verificationSent') : (
+            <button type="button" onClick={handleResendVerification} disabled={resendState === 'sending'} className="font-medium text-primary hover:underline disabled:opacity-60">{t('form.resendVerification')}</button>
+          )}
+          {resendState === 'failed' && <span className="block text-red-600">{t('login.error.failed')}</span>}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={FIELD_IDS.firstName} className="block mb-1 text-sm font-medium text-gray-700">{t('form.firstName')}</label>
+          <input id={FIELD_IDS.firstName} type="text" required value={firstName} onChange={(e) => { setFirstName(e.target.value); clearError('firstName'); }} aria-invalid={!!errors.firstName} aria-describedby={describedBy('firstName')} className={`bg-white border ${inputBorder('firstName')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 block w-full p-2.5`} placeholder={t('form.firstName.placeholder')} />
+          {fieldError('firstName')}
+        </div>
+        <div>
+          <label htmlFor={FIELD_IDS.lastName} className="block mb-1 text-sm font-medium text-gray-700">{t('form.lastName')}</label>
+          <input id={FIELD_IDS.lastName} type="text" required value={lastName} onChange={(e) => { setLastName(e.target.value); clearError('lastName'); }} aria-invalid={!!errors.lastName} aria-describedby={describedBy('lastName')} className={`bg-white border ${inputBorder('lastName')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 block w-full p-2.5`} placeholder={t('form.lastName.placeholder')} />
+          {fieldError('lastName')}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor={FIELD_IDS.email} className="block mb-1 text-sm font-medium text-gray-700">{t('form.email')}</label>
+        <input id={FIELD_IDS.email} type="email" required value={email} onChange={(e) => { setEmail(e.target.value); clearError('email'); }} aria-invalid={!!errors.email} aria-describedby={describedBy('email')} className={`bg-white border ${inputBorder('email')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 block w-full p-2.5`} placeholder={t('form.email.placeholder')} />
+        {fieldError('email')}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={FIELD_IDS.country} className="block mb-1 text-sm font-medium text-gray-700">{t('form.country')}</label>
+          <div className="flex gap-2">
+            <CountryCombobox
+              id={FIELD_IDS.country}
+              value={country}
+              onChange={(code) => { setCountry(code); setDetectFailed(false); clearError('country'); }}
+              placeholder={loadingGeo ? t('form.country.detecting') : t('form.country.select')}
+              invalid={!!errors.country}
+              describedBy={[describedBy('country'), detectFailed ? COUNTRY_STATUS_ID : ''].filter(Boolean).join(' ') || undefined}
+              className={`bg-white border ${inputBorder('country')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 block w-full p-2.5`}
+            />
+            {GEO_DETECTION_MODE !== 'off' && (
+              <button type="button" onClick={detectCountryNow} className="px-3 py-2 rounded-md bg-white border border-gray-300 text-gray-700">{t('form.country.detect')}</button>
+            )}
+          </div>
+          {fieldError('country')}
+          <p id={COUNTRY_STATUS_ID} role="status" className={detectFailed ? 'mt-1 text-sm text-gray-600' : 'sr-only'}>{detectFailed ? t('form.country.detectFailed') : ''}</p>
+        </div>
+        <div>
+          <label htmlFor={FIELD_IDS.linkedIn} className="block mb-1 text-sm font-medium text-gray-700">{t('form.linkedIn')} <span className="text-gray-500">{t('form.optional')}</span></label>
+          <input id={FIELD_IDS.linkedIn} type="url" value={linkedIn} onChange={(e) => { setLinkedIn(e.target.value); clearError('linkedIn'); }} aria-invalid={!!errors.linkedIn} aria-describedby={describedBy('linkedIn')} className={`bg-white border ${inputBorder('linkedIn')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-indigo-500 block w-full p-2.5`} placeholder={t('form.linkedIn.placeholder')} />
+          {fieldError('linkedIn')}
+        </div>
+      </div>
+
+      {!account && (
+      <div className="mt-3">
+        <label className="inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="sr-only peer"
+            checked={usePassword}
+            onChange={() => setUsePassword(!usePassword)}
+            aria-label={t('form.setPassword')}
+          />
+          <div className="relative w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary">
+          </div>
+          <span className="ms-3 ml-3 text-sm font-medium text-gray-900">{t('form.setPasswordOptional')}</span>
+        </label>
+      </div>
+      )}
+
+      {usePassword && !account && (
+        <div>
+          <label htmlFor={FIELD_IDS.password} className="block mb-1 text-sm font-medium text-gray-700">{t('form.password')}</label>
+          <input id={FIELD_IDS.password} type="password" value={password} onChange={(e) => { setPassword(e.target.value); clearError('password'); }} aria-invalid={!!errors.password} aria-describedby={[PASSWORD_STRENGTH_ID, describedBy('password')].filter(Boolean).join(' ')} autoComplete="new-password" className={`bg-white border ${inputBorder('password')} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-primary block w-full p-2.5`} placeholder={t('form.password.placeholder')} />
+          {fieldError('password')}
+          <PasswordStrength id={PASSWORD_STRENGTH_ID} password={password} personal={[firstName, lastName, email]} />
+        </div>
+      )}
+
+      {formError && <p role="alert" className="text-center text-sm text-red-600">{formError}</p>}
+
+      <div className="flex justify-center mt-4">
+        <button type="submit" disabled={submitting} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg disabled:opacity-60">{submitting ? t('form.submitting') : account ? t('form.continue') : t('form.submit')}</button>
+      </div>
+
+      {providers.length > 0 && <div className="text-center text-sm text-gray-500 mt-3">{t('form.orUse')}</div>}
+
+      <div className="flex justify-center gap-2 mt-3">
+        {providers.indexOf('linkedin') >= 0 && (
+          <a href={signInUrl('linkedin')} className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-700 hover:bg-blue-800 rounded-lg">
+            <svg className="w-5 h-5 mr-2" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" preserveAspectRatio="xMidYMid meet"><path d="M20.447 20.452h-3.554v-5.569c0-1.328-.028-3.037-1.849-3.037-1.85 0-2.132 1.445-2.132 2.939v5.667H9.357V9h3.414v1.561h.049c.476-.9 1.637-1.849 3.369-1.849 3.605 0 4.271 2.373 4.271 5.459v6.281zM5.337 7.433c-1.144 0-2.067-.926-2.067-2.067 0-1.143.923-2.067 2.067-2.067 1.143 0 2.067.924 2.067 2.067 0 1.141-.924 2.067-2.067 2.067zM6.953 20.452H3.72V9h3.233v11.452z"/></svg>
+            {t('form.linkedInConnect')}
+          </a>
+        )}
+        {providers.indexOf('google') >= 0 && (
+          <a href={signInUrl('google')} className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg">
+            <svg className="w-5 h-5 mr-2" viewBox="0 0 533.5 544.3" xmlns="http://www.w3.org/2000/svg" aria-hidden="true" focusable="false" preserveAspectRatio="xMidYMid meet">
+  <path fill="#4285F4" d="M533.5 278.4c0-18.9-1.6-37.6-4.7-55.9H272.1v105.9h147.1c-6.4 34.6-25.4 63.9-54.3 83.4v69.3h87.6c51.2-47.2 81-116.5 81-202.7z"/>
+  <path fill="#34A853" d="M272.1 544.3c73.8 0 135.8-24.5 181-66.6l-87.6-69.3c-24.4 16.4-55.5 26-93.4 26-71.7 0-132.6-48.3-154.4-113.2H27.6v71.1C72.2 483.2 165 544.3 272.1 544.3z"/>
+  <path fill="#FBBC05" d="M117.7 326.2c-10.7-32.1-10.7-66.8 0-98.9V156.3H27.6c-38.4 76.8-38.4 167.3 0 244.1l90.1-74.2z"/>
+  <path fill="#EA4335" d="M272.1 107.7c39.9-.6 78.3 14.4 107.4 41.6l80.6-80.6C406 19.3 344 0 272.1 0 165 0 72.2 61.2 27.6 152.7l90.1 71.1c21.9-64.9 82.8-113.2 154.4-116.1z"/>
+</svg>
+            {t('form.googleConnect')}
+          </a>
+        )}
+      </div>
+
+      {!isStaticDeployment && !account && (
+        <p className="text-center text-sm text-gray-600">
+          {t('form.haveAccount')}{' '}
+          <button type="button" onClick={() => setLoggingIn(true)} className="font-medium text-primary hover:underline">{t('form.logIn')}</button>
+        </p>
+      )}
+    </form>
+    )}
+
+    <WelcomeDialog
+      open={showModal}
+      onClose={() => setShowModal(false)}
+      onStart={() => { if (onStart) onStart(); setShowModal(false); }}
+      firstName={firstName}
+      verifyEmail={verificationSent ? email.trim() : undefined}
+    />
+
+    </>
+  );
+}
+
+function Stepper({ steps, current, stepProgress, onJump }: { steps: { id: string; label: string; }[]; current: number; stepProgress?: Record<string, number>; onJump?: (index: number) => void }) {
+  const { t } = useI18n();
+  const navRef = useRef<HTMLOListElement | null>(null);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const nav = navRef.current;
+    if (!nav) return;
+    const active = nav.querySelector('.stepper-item.active') as HTMLElement | null;
+    if (active) {
+      // center the active item within the scroll container when possible
+      const navRect = nav.getBoundingClientRect();
+      const activeRect = active.getBoundingClientRect();
+      const navCenter = (navRect.left + navRect.right) / 2;
+      const activeCenter = (activeRect.left + activeRect.right) / 2;
+      const offset = activeCenter - navCenter;
+      nav.scrollBy({ left: offset, behavior: 'smooth' });
+    }
+  }, [current]);
+  return (
+    <nav aria-label={t('a11y.steps')} className="w-full py-4">
+      <ol ref={navRef} className="stepper-nav flex items-center gap-4">
+        {steps.map((s, i) => {
+          const active = i === current;
+          const completed = (stepProgress && (stepProgress[s.id] || 0) >= 1) || i < current;
+          const clickable = completed && typeof onJump === 'function';
+          const content = (
+            <>
+              <span className="icon">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" aria-hidden>
+                  <circle cx="12" cy="12" r="10" strokeWidth="1.5" />
+                  <text x="12" y="16" textAnchor="middle">{i + 1}</text>
+                </svg>
+              </span>
+              <span className="text-sm font-medium">{s.label}</span>
+              {completed && !active && <span className="sr-only">{t('a11y.stepCompleted')}</span>}
+            </>
+          );
+          return (
+            <li
+              key={s.id}
+              aria-current={active ? 'step' : undefined}
+              className={`stepper-item ${active ? 'active' : ''} ${completed ? 'completed' : ''} inline-flex px-3 rounded-md transition-colors ${clickable ? 'cursor-pointer hover:bg-gray-100' : ''}`}
+            >
+              {clickable ? (
+                <button type="button" onClick={() => onJump!(i)} className="inline-flex items-center gap-2 w-full h-full justify-center">{content}</button>
+              ) : (
+                <span className="inline-flex items-center gap-2">{content}</span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
+
+// The sign-up form lives at / and every onboarding sub-step at /onboarding/<step>/<n>, all on this
+// one page so moving between them is a shallow route change that keeps the draft in memory.
+export default function Home() {
+  const router = useRouter();
+  const { draft, setDraft, hydrated } = useOnboardingDraft();
+  const [stepProgress, setStepProgress] = useState<Record<string, number>>({});
+  const { showStepper, subIndex, profile } = draft;
+  const { state: questionnaireState, retry: retryQuestionnaire } = useQuestionnaire(draft.questionnaireVersion);
+  const questionnaire = questionnaireState.status === 'ready' ? questionnaireState.questionnaire : null;
+  const messages = questionnaire ? questionnaire.messages : undefined;
+
+  // the UI switches language as soon as the coach answers the Language step's first question
+  const locale = localeForLanguage(profile.language.onboarding);
+  const { t } = useMemo(() => createTranslator(locale, messages), [locale, messages]);
+
+  // the questionnaire steps, then the hand-built Preview step
+  const steps = useMemo(() => [
+    ...(questionnaire ? questionnaire.steps.map((s) => ({ id: s.id, label: t(s.label) })) : []),
+    { id: PREVIEW_STEP_ID, label: t('step.preview') },
+  ], [questionnaire, t]);
+  const currentStep = Math.min(draft.currentStep, steps.length - 1);
+  // focus follows the coach from step to step, but a page load leaves it where the browser put it
+  const [moved, setMoved] = useState(false);
+
+  // moving to another step always starts at its first sub-step
+  const setCurrentStep = useCallback((action: SetStateAction<number>) => {
+    setMoved(true);
+    setDraft((d) => {
+      const next = Math.max(0, Math.min(steps.length - 1, applyAction(d.currentStep, action)));
+      return next === d.currentStep ? d : { ...d, currentStep: next, subIndex: 0 };
+    });
+  }, [setDraft, steps.length]);
+
+  const setSubIndex = useCallback((action: SetStateAction<number>) => {
+    setDraft((d) => ({ ...d, subIndex: applyAction(d.subIndex, action) }));
+  }, [setDraft]);
+
+  // answers hidden by the questionnaire's conditions are dropped as soon as they become hidden
+  const updateProfile = useCallback((update: (p: TwinProfile) => TwinProfile) => {
+    setDraft((d) => ({ ...d, profile: questionnaire ? pruneHiddenAnswers(questionnaire, update(d.profile)) : update(d.profile) }));
+  }, [setDraft, questionnaire]);
+
+  // a coach who starts onboarding stays on that questionnaire version, even if a newer one is published
+  const loadedVersion = questionnaireState.status === 'ready' ? questionnaireState.version : null;
+  useEffect(() => {
+    if (!showStepper || loadedVersion === null) return;
+    setDraft((d) => (d.questionnaireVersion === null ? { ...d, questionnaireVersion: loadedVersion } : d));
+  }, [showStepper, loadedVersion, setDraft]);
+
+  // The URL and the wizard position follow each other. A URL is adopted when it changes (a link, a
+  // reload, Back/Forward), limited to what the answers so far allow; otherwise it follows the state.
+  const slug = router.query.slug;
+  const segments = useMemo(() => (Array.isArray(slug) ? slug : slug ? [slug] : []), [slug]);
+  const urlPath = `/${segments.map(encodeURIComponent).join('/')}`;
+  const adoptedPath = useRef<string | null>(null);
+  // a URL the wizard redirected away from is replaced rather than left in the history
+  const redirect = useRef(false);
+  const pendingPath = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady || !hydrated || adoptedPath.current === urlPath) return;
+    const route = parseOnboardingSlug(segments);
+    // the position can only be checked against the answers once the questionnaire is in
+    if (route && showStepper && !questionnaire) return;
+    const initial = adoptedPath.current === null;
+    adoptedPath.current = urlPath;
+    pendingPath.current = null;
+    if (!route || !showStepper || !questionnaire) {
+      // the form before onboarding starts, the wizard after
+      redirect.current = !!route || showStepper;
+      return;
+    }
+    const target = resolveRoute(route, questionnaire, profile, { step: draft.currentStep, subIndex: draft.subIndex });
+    redirect.current = onboardingPath(stepIds(questionnaire)[target.step], target.subIndex) !== urlPath;
+    if (target.step === draft.currentStep && target.subIndex === draft.subIndex) return;
+    if (!initial) setMoved(true);
+    setDraft((d) => ({ ...d, currentStep: target.step, subIndex: target.subIndex }));
+  }, [router.isReady, hydrated, urlPath, segments, showStepper, questionnaire, profile, draft.currentStep, draft.subIndex, setDraft]);
+
+  useEffect(() => {
+    if (adoptedPath.current !== urlPath) return;
+    const path = !showStepper ? '/' : questionnaire ? onboardingPath(steps[currentStep].id, subIndex) : null;
+    if (path === null || path === urlPath || path === pendingPath.current) return;
+    pendingPath.current = path;
+    const navigate = redirect.current ? router.replace : router.push;
+    redirect.current = false;
+    navigate(path, undefined, { shallow: true, scroll: false });
+  }, [urlPath, showStepper, questionnaire, steps, currentStep, subIndex, router]);
+
+  function handleStart() {
+    setMoved(true);
+    setDraft((d) => ({ ...d, showStepper: true, currentStep: 0, subIndex: 0 }));
+    // scroll to jumbotron area if needed
+    const el = document.querySelector('.jumbotron');
+    if (el) el.scrollIntoView({ behavior: 'smooth' });
+  }
+
+  const handleStepProgress = useCallback((id: string, p: number) => {
+    setStepProgress((prev) => ({ ...prev, [id]: Math.max(0, Math.min(1, p)) }));
+  }, [setStepProgress]);
+
+  const reportProgress = useCallback((p: number) => {
+    const id = steps[currentStep]?.id;
+    if (!id) return;
+    handleStepProgress(id, p);
+  }, [handleStepProgress, steps, currentStep]);
+
+  return (
+    <I18nProvider locale={locale} messages={messages}>
+      <Head>
+        <title>{t('meta.title')}</title>
+        <meta name="description" content={t('meta.description')} />
+        <meta name="viewport" content="width=device-width, initial-scale=1, shrink-to-fit=no" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <main className={`onboarding-container ${showStepper ? 'stepper-active' : ''}`}>
+        <div className="container">
+          <div className="logo-container">
+            <img
+              src={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/logo.svg`}
+              alt="CoachNova"
+              className="logo"
+            />
+          </div>
+
+          {showStepper && questionnaire && <Stepper steps={steps} current={currentStep} stepProgress={stepProgress} onJump={(i) => setCurrentStep(i)} />}
+
+          <div className="jumbotron">
+            <div className="title-section flex flex-col gap-8">
+            {!showStepper && (
+              <>
+                <h1 className="w-full text-center text-[#111928] font-inter font-extrabold text-4xl leading-tight tracking-tight relative">{t('form.title')}</h1>
+                <p className="supporting-text">
+                  {t('form.subtitle')}
+                </p>
+              </>
+            )}
+
+            {/* When the stepper is active, show a thin segmented progress bar at the top of the jumbotron */}
+            {showStepper && questionnaire && (
+              <div className="w-full mb-4">
+                <h1 className="sr-only">{t('form.title')}</h1>
+                <p role="status" className="sr-only">{t('a11y.stepStatus', { n: currentStep + 1, total: steps.length, label: steps[currentStep].label })}</p>
+                <div className="progress-steps">
+                  <div
+                    role="progressbar"
+                    aria-label={t('a11y.stepProgress', { label: steps[currentStep].label })}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round((stepProgress[steps[currentStep].id] || 0) * 100)}
+                    className={`progress-segment ${(stepProgress[steps[currentStep].id] || 0) >= 1 ? 'active' : ''}`}
+                  >
+                    <div className="progress-inner" style={{ width: `${(stepProgress[steps[currentStep].id] || 0) * 100}%` }} />
+                  </div>
+                </div>
+                <div className="mt-3">
+                  <ProfileTransfer profile={profile} onImport={(p) => updateProfile(() => p)} />
+                </div>
+              </div>
+            )}
+
+              {/* Onboarding form (Flowbite) or stepper content */}
+              {!showStepper ? (
+                <OnboardingForm onStart={handleStart} />
+              ) : !questionnaire ? (
+                <div className="w-full min-h-[180px] flex flex-col items-center justify-center text-center p-8">
+                  {questionnaireState.status === 'error' ? (
+                    <>
+                      <p role="alert" className="text-sm text-red-600">{t('questionnaire.loadFailed')}</p>
+                      <button type="button" onClick={retryQuestionnaire} className="mt-4 px-4 py-2 rounded-md bg-primary text-white">{t('questionnaire.retry')}</button>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-500">{t('questionnaire.loading')}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="w-full">
+                  {currentStep < questionnaire.steps.length ? (
+                    <QuestionnaireStep
+                      key={steps[currentStep].id}
+                      step={questionnaire.steps[currentStep]}
+                      stepIndex={currentStep}
+                      profile={profile}
+                      onProfileChange={updateProfile}
+                      subIndex={subIndex}
+                      onSubIndexChange={setSubIndex}
+                      onNext={() => setCurrentStep((s) => s + 1)}
+                      onProgressChange={reportProgress}
+                      autoFocus={moved}
+                    />
+                  ) : (
+                    <PreviewStep
+                      key={steps[currentStep].id}
+                      stepIndex={currentStep}
+                      profile={profile}
+                      onProfileChange={updateProfile}
+                      subIndex={subIndex}
+                      onSubIndexChange={setSubIndex}
+                      onNext={() => setCurrentStep((s) => s + 1)}
+                      onProgressChange={reportProgress}
+                      autoFocus={moved}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+        
+        <div className="decorative-graphic">
+          <svg 
+            width="616" 
+            height="1005" 
+            viewBox="0 0 616 1005" 
+            fill="none" 
+            xmlns="http://www.w3.org/2000/svg"
+          >
+            <path 
+              d="M1 1004C131 957 46.816 832.901 170.593 831.5C202.643 832.901 248.407 841.809 280.793 855.379C313.18 868.949 352.684 873.313 381.804 853.675C404.74 838.205 416.675 811.185 426.06 785.152C439.492 747.927 450.244 708.607 446.62 669.189C442.996 629.771 422.588 590.005 387.218 572.267C358.282 557.763 324.214 559.63 291.925 561.834C283.419 562.42 274.555 563.104 267.264 567.523C259.973 571.941 254.939 581.331 258.28 589.169C261.655 597.073 271.343 599.808 279.86 600.981C323.509 606.962 367.884 596.975 409.471 582.417C444.092 570.302 479.115 553.801 500.955 524.316C534.22 479.394 519.389 417.96 463.144 403.891C411.033 390.853 342.539 398.81 295.679 424.843C257.456 446.066 205.659 484.171 194.777 529.223C188.582 554.886 201.558 580.702 209.554 605.866C221.522 643.482 222.487 684.517 212.31 722.665C211.507 725.694 210.618 728.853 211.29 731.925C212.701 738.33 220.263 741.424 226.827 741.283C233.391 741.142 239.803 738.873 246.346 739.166C266.797 740.1 277.484 763.82 281.119 783.99C284.754 804.161 287.987 827.838 305.835 837.89C318.388 844.957 333.968 842.45 348.029 839.291C367.135 834.992 386.046 829.857 404.708 823.908C443.767 811.445 484.605 792.849 503.961 756.699C522.568 721.959 518.217 676.158 544.419 646.728C548.271 642.396 552.719 638.532 555.909 633.69C563.167 622.671 565.066 605.822 577.728 602.121C589.467 598.69 600.935 611.837 599.948 624.039C598.961 636.23 589.652 646.131 579.659 653.187C571.826 658.713 562.864 663.598 558.394 672.076C553.924 680.555 557.3..."
+              stroke="white" 
+              strokeWidth="1.2" 
+              strokeMiterlimit="10"
+            />
+          </svg>
+        </div>
+      </main>
+    </I18nProvider>
+  );
+}
+
+// The static export needs every URL up front; it only ever runs the built-in questionnaire. A
+// server build renders the steps of newer published versions on first request.
+export const getStaticPaths: GetStaticPaths = async () => ({
+  paths: allOnboardingSlugs(ONBOARDING_QUESTIONNAIRE).map((slug) => ({ params: { slug } })).concat({ params: { slug: [] } }),
+  fallback: isStaticDeployment ? false : 'blocking',
+});
+
+export const getStaticProps: GetStaticProps = async ({ params }) => {
+  const slug = params && params.slug;
+  const segments = Array.isArray(slug) ? slug : [];
+  return segments.length && !parseOnboardingSlug(segments) ? { notFound: true } : { props: {} };
+};
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SIGN_IN_FAILED, SIGN_IN_RESULT_PARAM, isAuthProvider } from '@/lib/auth';
+import { claimAccountForProvider, findAccountByEmail, findAccountByIdentity, linkIdentity } from '@/lib/server/accounts';
+import { appOrigin } from '@/lib/server/http';
+import { completeSignIn, providerConfig, redirectUriFor } from '@/lib/server/oidc';
+import { endAccountSessions, getSession, startSession, takeSignIn } from '@/lib/server/sessions';
+
+// The provider sends the coach back here. The sign-in is checked, linked to an account where one
+// can be found, and becomes the session; the form then prefills itself from /api/auth/session.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  const { provider, code, state, error } = req.query;
+  if (!isAuthProvider(provider)) return res.status(404).json({ error: 'Unknown sign-in provider' });
+
+  try {
+    const origin = appOrigin(req);
+    const config = providerConfig(provider, origin);
+    const request = await takeSignIn(req, res, provider, typeof state === 'string' ? state : '');
+    // a coach who cancels at the provider is simply back at the form
+    if (error === 'access_denied') return res.redirect(302, '/');
+    if (!config || !request || typeof code !== 'string' || error) {
+      return res.redirect(302, `/?${SIGN_IN_RESULT_PARAM}=${SIGN_IN_FAILED}`);
+    }
+
+    const identity = await completeSignIn(config, redirectUriFor(origin, provider), code, request);
+    let account = await findAccountByIdentity(provider, identity.subject);
+    if (!account) {
+      // a new sign-in joins the account this browser is signed in to, or else the account with
+      // the same email, but only when the provider vouches for that address
+      const current = await getSession(req);
+      if (current && current.email) {
+        const existing = await findAccountByEmail(current.email);
+        if (existing && (await linkIdentity(provider, identity.subject, existing.email))) account = existing;
+      } else if (identity.emailVerified && identity.email) {
+        const existing = await findAccountByEmail(identity.email);
+        if (existing && (await linkIdentity(provider, identity.subject, existing.email))) {
+          // whoever registered an unverified account with this address loses their way back in
+          const result = await claimAccountForProvider(existing.email);
+          if (result && result.claimed) await endAccountSessions(result.account.email);
+          account = result ? result.account : existing;
+        }
+      }
+    }
+    await startSession(req, res, { email: account ? account.email : null, identity });
+    return res.redirect(302, '/');
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Sign-in failed', provider, e instanceof Error ? e.message : e);
+    return res.redirect(302, `/?${SIGN_IN_RESULT_PARAM}=${SIGN_IN_FAILED}`);
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { SIGN_IN_FAILED, SIGN_IN_RESULT_PARAM, isAuthProvider } from '@/lib/auth';
+import { appOrigin } from '@/lib/server/http';
+import { authorizationUrl, createAuthRequest, providerConfig, redirectUriFor } from '@/lib/server/oidc';
+import { beginSignIn } from '@/lib/server/sessions';
+
+// "Continue with LinkedIn/Google" links here; sends the browser on to the provider.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  const { provider } = req.query;
+  if (!isAuthProvider(provider)) return res.status(404).json({ error: 'Unknown sign-in provider' });
+
+  try {
+    const origin = appOrigin(req);
+    const config = providerConfig(provider, origin);
+    if (!config) return res.redirect(302, `/?${SIGN_IN_RESULT_PARAM}=${SIGN_IN_FAILED}`);
+    const request = createAuthRequest();
+    const url = await authorizationUrl(config, redirectUriFor(origin, provider), request);
+    await beginSignIn(req, res, provider, request);
+    return res.redirect(302, url);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Sign-in start failed', provider, e instanceof Error ? e.message : e);
+    return res.redirect(302, `/?${SIGN_IN_RESULT_PARAM}=${SIGN_IN_FAILED}`);
+  }
+}
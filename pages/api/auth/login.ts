@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { toPublicAccount, verifyAccountPassword } from '@/lib/server/accounts';
+import { createRateLimiter } from '@/lib/server/rateLimit';
+import { startSession } from '@/lib/server/sessions';
+
+// five wrong passwords for an email lock it out of password sign-in for a quarter of an hour
+const failures = createRateLimiter(5, 15 * 60 * 1000);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  const password = typeof req.body?.password === 'string' ? req.body.password : '';
+  if (!email || !password) return res.status(400).json({ error: 'Please enter your email and password' });
+
+  const wait = failures.retryAfter(email);
+  if (wait) {
+    res.setHeader('Retry-After', String(wait));
+    return res.status(429).json({ error: 'Too many attempts, please try again later' });
+  }
+
+  try {
+    const account = await verifyAccountPassword(email, password);
+    if (!account) {
+      failures.hit(email);
+      // the same answer for an unknown email, so the form can't be used to find accounts
+      return res.status(401).json({ error: 'Email or password is incorrect' });
+    }
+    failures.reset(email);
+    await startSession(req, res, { email: account.email, identity: null });
+    return res.status(200).json({ account: toPublicAccount(account) });
+  } catch (e) {
+    // never log the request body here — it contains the password
+    // eslint-disable-next-line no-console
+    console.error('Login failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not sign you in. Please try again.' });
+  }
+}
@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { endSession } from '@/lib/server/sessions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    await endSession(req, res);
+    return res.status(204).end();
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Logout failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'Could not access session storage' });
+  }
+}
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { passwordError } from '@/lib/passwordPolicy';
+import { findAccountByEmail, setAccountPassword, toPublicAccount } from '@/lib/server/accounts';
+import { consumePasswordReset, findPasswordReset } from '@/lib/server/passwordReset';
+import { endAccountSessions, startSession } from '@/lib/server/sessions';
+
+const INVALID_LINK = { error: 'This reset link is invalid or has expired', code: 'invalid_token' };
+
+// Sets a new password with a reset token. Every other session of the account ends; this browser
+// is signed in.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = typeof req.body?.token === 'string' ? req.body.token : '';
+  const password = typeof req.body?.password === 'string' ? req.body.password : '';
+
+  try {
+    const email = token ? await findPasswordReset(token) : null;
+    const account = email ? await findAccountByEmail(email) : null;
+    if (!account) return res.status(400).json(INVALID_LINK);
+
+    // a password the policy rejects leaves the link usable for another try
+    const problem = passwordError(password, [account.firstName, account.lastName, account.email]);
+    if (problem) return res.status(400).json({ error: 'Please choose a different password', errors: { password: problem } });
+    if (!(await consumePasswordReset(token))) return res.status(400).json(INVALID_LINK);
+
+    const updated = await setAccountPassword(account.email, password);
+    if (!updated) return res.status(400).json(INVALID_LINK);
+    await endAccountSessions(updated.email);
+    await startSession(req, res, { email: updated.email, identity: null });
+    return res.status(200).json({ account: toPublicAccount(updated) });
+  } catch (e) {
+    // never log the request body here — it contains the password
+    // eslint-disable-next-line no-console
+    console.error('Password reset failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not reset your password. Please try again.' });
+  }
+}
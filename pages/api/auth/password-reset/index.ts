@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validateEmail } from '@/lib/accountValidation';
+import { isLocale } from '@/lib/i18n';
+import { findAccountByEmail } from '@/lib/server/accounts';
+import { sendPasswordResetEmail } from '@/lib/server/authEmails';
+import { appOrigin } from '@/lib/server/http';
+import { createPasswordReset } from '@/lib/server/passwordReset';
+import { createRateLimiter } from '@/lib/server/rateLimit';
+
+// at most three reset links per email an hour
+const requests = createRateLimiter(3, 60 * 60 * 1000);
+
+// Starts a password reset. The answer is the same whether or not the email has an account.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : '';
+  if (!validateEmail(email)) return res.status(400).json({ error: 'Please enter a valid email address', errors: { email: 'validation.email.invalid' } });
+  const locale = isLocale(req.body?.locale) ? req.body.locale : null;
+
+  try {
+    const account = await findAccountByEmail(email);
+    if (account && !requests.retryAfter(email)) {
+      requests.hit(email);
+      const token = await createPasswordReset(account.email);
+      await sendPasswordResetEmail(account, token, appOrigin(req), locale);
+    }
+    return res.status(202).json({ ok: true });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Password reset request failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not start the password reset. Please try again.' });
+  }
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { markEmailVerified, toPublicAccount } from '@/lib/server/accounts';
+import { startSession } from '@/lib/server/sessions';
+import { consumeToken } from '@/lib/server/signedTokens';
+
+// Signs in with a resume link. The link works once; following it also proves the coach owns the
+// email. The answer names the draft to restore, if the account has one.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = typeof req.body?.token === 'string' ? req.body.token : '';
+
+  try {
+    const used = token ? await consumeToken('resume', token) : null;
+    const account = used ? await markEmailVerified(used.email) : null;
+    if (!account) return res.status(400).json({ error: 'This link is invalid, has expired or was already used', code: 'invalid_token' });
+    await startSession(req, res, { email: account.email, identity: null });
+    return res.status(200).json({ account: toPublicAccount(account), draftId: account.draftId || null });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Resume sign-in failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not sign you in. Please try again.' });
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AUTH_PROVIDERS, SessionInfo, SessionResponse } from '@/lib/auth';
+import { findAccountByEmail, toPublicAccount } from '@/lib/server/accounts';
+import { appOrigin } from '@/lib/server/http';
+import { providerConfig } from '@/lib/server/oidc';
+import { getSession } from '@/lib/server/sessions';
+
+// Who this browser is signed in as, and which providers it can sign in with.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const origin = appOrigin(req);
+    const current = await getSession(req);
+    let session: SessionInfo | null = null;
+    if (current) {
+      const { email, identity } = current;
+      const account = email ? await findAccountByEmail(email) : null;
+      session = {
+        account: account ? toPublicAccount(account) : null,
+        identity: identity && { provider: identity.provider, firstName: identity.firstName, lastName: identity.lastName, email: identity.email, linkedIn: identity.linkedIn },
+      };
+    }
+    const body: SessionResponse = { providers: AUTH_PROVIDERS.filter((p) => providerConfig(p, origin) !== null), session };
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(body);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Session handler error', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'Could not access session storage' });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { markEmailVerified, toPublicAccount } from '@/lib/server/accounts';
+import { verifyToken } from '@/lib/server/signedTokens';
+
+// Confirms an account's email with the token from a verification email. Opening the link twice
+// is harmless, so it keeps working until it expires; it doesn't sign anyone in.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = typeof req.body?.token === 'string' ? req.body.token : '';
+
+  try {
+    const verified = token ? verifyToken('verify-email', token) : null;
+    const account = verified ? await markEmailVerified(verified.email) : null;
+    if (!account) return res.status(400).json({ error: 'This confirmation link is invalid or has expired', code: 'invalid_token' });
+    return res.status(200).json({ account: toPublicAccount(account) });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Email verification failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not confirm your email address. Please try again.' });
+  }
+}
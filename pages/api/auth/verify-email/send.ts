@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isLocale } from '@/lib/i18n';
+import { findAccountByEmail } from '@/lib/server/accounts';
+import { sendVerificationEmail } from '@/lib/server/authEmails';
+import { appOrigin } from '@/lib/server/http';
+import { createRateLimiter } from '@/lib/server/rateLimit';
+import { getSession } from '@/lib/server/sessions';
+
+// at most three verification emails per account an hour
+const requests = createRateLimiter(3, 60 * 60 * 1000);
+
+// Sends the signed-in account another verification email.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const locale = isLocale(req.body?.locale) ? req.body.locale : null;
+
+  try {
+    const session = await getSession(req);
+    const account = session && session.email ? await findAccountByEmail(session.email) : null;
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+    if (account.emailVerifiedAt) return res.status(200).json({ ok: true });
+
+    const wait = requests.retryAfter(account.email);
+    if (wait) {
+      res.setHeader('Retry-After', String(wait));
+      return res.status(429).json({ error: 'Too many emails, please try again later' });
+    }
+    requests.hit(account.email);
+    await sendVerificationEmail(account, appOrigin(req), locale);
+    return res.status(202).json({ ok: true });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Verification email failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not send the email. Please try again.' });
+  }
+}
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OnboardingDraft, isDraftId, normalizeDraft } from '@/lib/onboardingDraft';
+import { rememberDraft } from '@/lib/server/accounts';
+import { getSession } from '@/lib/server/sessions';
+import { getStore } from '@/lib/server/store';
+
+const drafts = getStore<OnboardingDraft>('drafts');
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  if (!isDraftId(id)) return res.status(400).json({ error: 'Invalid draft id' });
+
+  try {
+    if (req.method === 'GET') {
+      const draft = await drafts.get(id);
+      if (!draft) return res.status(404).json({ error: 'Draft not found' });
+      return res.status(200).json(draft);
+    }
+
+    if (req.method === 'PUT') {
+      const body: unknown = req.body;
+      const draft = normalizeDraft(body && typeof body === 'object' ? { ...body, id } : null);
+      if (!draft) return res.status(400).json({ error: 'Invalid draft' });
+      // the client's clock decides the order of its own saves, but a timestamp from the future
+      // would make every later save look stale
+      draft.updatedAt = Math.min(draft.updatedAt, Date.now());
+      // ignore stale writes from a tab that fell behind
+      const existing = await drafts.get(id);
+      if (existing && existing.updatedAt > draft.updatedAt) return res.status(200).json(existing);
+      await drafts.put(id, draft);
+      // a signed-in coach's draft is the one their resume links bring back
+      const session = await getSession(req);
+      if (session && session.email) await rememberDraft(session.email, id);
+      return res.status(200).json(draft);
+    }
+
+    if (req.method === 'DELETE') {
+      await drafts.delete(id);
+      return res.status(204).end();
+    }
+
+    res.setHeader('Allow', 'GET, PUT, DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Draft handler error', e);
+    return res.status(500).json({ error: 'Could not access draft storage' });
+  }
+}
@@ -0,0 +1,112 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { appOrigin } from '@/lib/server/http';
+import { DEFAULT_MOCK_USER, MOCK_OIDC_PATH, MockUser, isMockClient, issueCode, mockDiscovery, mockJwks, mockUserInfo, redeemCode } from '@/lib/server/mockOidc';
+import { mockEnabled } from '@/lib/server/oidc';
+
+// The bundled mock OpenID provider (lib/server/mockOidc.ts). Not served where mocks are off.
+
+const param = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// the OAuth parameters the sign-in form carries through to the approve step
+const AUTHORIZE_PARAMS = ['response_type', 'client_id', 'redirect_uri', 'scope', 'state', 'nonce', 'code_challenge', 'code_challenge_method'];
+
+function signInPage(query: NextApiRequest['query'], user: MockUser) {
+  const provider = param(query.client_id).slice('mock-'.length);
+  const hidden = AUTHORIZE_PARAMS.map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(param(query[name]))}">`).join('');
+  const field = (name: string, label: string, value: string) =>
+    `<p><label>${label}<br><input name="${name}" value="${escapeHtml(value)}" style="width:100%;padding:6px"></label></p>`;
+  return `<!doctype html>
+<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Mock ${escapeHtml(provider)} sign-in</title></head>
+<body style="font-family:sans-serif;max-width:420px;margin:40px auto;padding:0 16px">
+<h1>Mock ${escapeHtml(provider)} sign-in</h1>
+<p>This development provider signs in whoever you enter below.</p>
+<form method="get" action="${MOCK_OIDC_PATH}/authorize">${hidden}
+${field('given_name', 'First name', user.givenName)}
+${field('family_name', 'Last name', user.familyName)}
+${field('email', 'Email', user.email)}
+${field('profile', 'Profile URL', user.profile)}
+<p><label><input type="checkbox" name="email_verified" value="true"${user.emailVerified ? ' checked' : ''}> Email verified</label></p>
+<p><button name="approve" value="1">Sign in</button> <button name="deny" value="1">Cancel</button></p>
+</form></body></html>`;
+}
+
+function authorize(req: NextApiRequest, res: NextApiResponse) {
+  const { query } = req;
+  const clientId = param(query.client_id);
+  const redirectUri = param(query.redirect_uri);
+  // like a real provider, only send codes back to this app
+  if (!isMockClient(clientId) || !redirectUri.startsWith(`${appOrigin(req)}/`)) return res.status(400).send('Unknown client or redirect URI');
+  if (param(query.response_type) !== 'code' || param(query.code_challenge_method) !== 'S256' || !param(query.code_challenge)) {
+    return res.status(400).send('Only the authorization code flow with S256 PKCE is supported');
+  }
+
+  const back = new URL(redirectUri);
+  if (query.state !== undefined) back.searchParams.set('state', param(query.state));
+  if (query.deny) {
+    back.searchParams.set('error', 'access_denied');
+    return res.redirect(302, back.toString());
+  }
+
+  const user: MockUser = query.approve
+    ? { email: param(query.email), givenName: param(query.given_name), familyName: param(query.family_name), profile: param(query.profile), emailVerified: query.email_verified === 'true' }
+    : DEFAULT_MOCK_USER;
+  if (!query.approve || !user.email) {
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(200).send(signInPage(query, user));
+  }
+
+  const code = issueCode({ clientId, redirectUri, nonce: param(query.nonce), codeChallenge: param(query.code_challenge), user });
+  back.searchParams.set('code', code);
+  return res.redirect(302, back.toString());
+}
+
+function token(req: NextApiRequest, res: NextApiResponse, issuer: string) {
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  // client_secret_basic, or the credentials in the body (client_secret_post)
+  const basic = /^Basic (.+)$/.exec(req.headers.authorization || '');
+  const [basicId, basicSecret] = basic ? Buffer.from(basic[1], 'base64').toString('utf8').split(':') : [];
+  if (param(body.grant_type) !== 'authorization_code') return res.status(400).json({ error: 'unsupported_grant_type' });
+
+  const result = redeemCode(issuer, {
+    code: param(body.code),
+    clientId: basicId || param(body.client_id),
+    clientSecret: basicSecret || param(body.client_secret),
+    redirectUri: param(body.redirect_uri),
+    codeVerifier: param(body.code_verifier),
+  });
+  res.setHeader('Cache-Control', 'no-store');
+  if ('error' in result) return res.status(result.error === 'invalid_client' ? 401 : 400).json({ error: result.error });
+  return res.status(200).json(result.tokens);
+}
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!mockEnabled()) return res.status(404).json({ error: 'Not found' });
+  const issuer = `${appOrigin(req)}${MOCK_OIDC_PATH}`;
+  const route = Array.isArray(req.query.route) ? req.query.route.join('/') : '';
+  const method = route === 'token' ? 'POST' : 'GET';
+  if (req.method !== method) {
+    res.setHeader('Allow', method);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  switch (route) {
+    case '.well-known/openid-configuration':
+      return res.status(200).json(mockDiscovery(issuer));
+    case 'jwks':
+      return res.status(200).json(mockJwks());
+    case 'authorize':
+      return authorize(req, res);
+    case 'token':
+      return token(req, res, issuer);
+    case 'userinfo': {
+      const bearer = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+      const claims = bearer && mockUserInfo(bearer[1]);
+      if (!claims) return res.status(401).json({ error: 'invalid_token' });
+      return res.status(200).json(claims);
+    }
+    default:
+      return res.status(404).json({ error: 'Not found' });
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { hasErrors, validateAccount } from '@/lib/accountValidation';
+import { isLocale } from '@/lib/i18n';
+import { createAccount, linkIdentity, toPublicAccount } from '@/lib/server/accounts';
+import { sendVerificationEmail } from '@/lib/server/authEmails';
+import { appOrigin } from '@/lib/server/http';
+import { getSession, startSession } from '@/lib/server/sessions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { value, errors } = validateAccount(req.body);
+  if (hasErrors(errors)) return res.status(400).json({ error: 'Please correct the highlighted fields', errors });
+
+  const locale = isLocale(req.body?.locale) ? req.body.locale : null;
+
+  try {
+    // the coach is signed in to the new account right away, and one who came in through LinkedIn
+    // or Google keeps that sign-in for it
+    const current = await getSession(req);
+    let identity = current && !current.email ? current.identity : null;
+    // no need to confirm an address the provider has already verified
+    const emailVerified = !!identity && identity.emailVerified && identity.email.trim().toLowerCase() === value.email;
+    const account = await createAccount(value, { emailVerified });
+    if (!account) {
+      return res.status(409).json({ error: 'Account already exists', errors: { email: 'validation.email.taken' } });
+    }
+    if (identity && !(await linkIdentity(identity.provider, identity.subject, account.email))) identity = null;
+    await startSession(req, res, { email: account.email, identity });
+    if (!emailVerified) {
+      // the account is there either way; the coach can ask for another link if this one doesn't arrive
+      await sendVerificationEmail(account, appOrigin(req), locale).catch((e) => {
+        // eslint-disable-next-line no-console
+        console.error('Verification email failed', e instanceof Error ? e.message : e);
+      });
+    }
+    return res.status(201).json({ account: toPublicAccount(account) });
+  } catch (e) {
+    // never log the request body here — it may contain a password
+    // eslint-disable-next-line no-console
+    console.error('Onboarding submission failed', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'We could not create your account. Please try again.' });
+  }
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLatestQuestionnaire, getQuestionnaireVersion } from '@/lib/server/questionnaires';
+
+// GET /api/questionnaires/3, or /api/questionnaires/latest for the version new coaches start with
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { version } = req.query;
+  if (version !== 'latest' && !(typeof version === 'string' && /^[1-9]\d{0,8}$/.test(version))) {
+    return res.status(400).json({ error: 'Invalid questionnaire version' });
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const published = version === 'latest' ? await getLatestQuestionnaire() : await getQuestionnaireVersion(Number(version));
+    if (!published) return res.status(404).json({ error: 'Questionnaire version not found' });
+    return res.status(200).json(published);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Questionnaire version handler error', e);
+    return res.status(500).json({ error: 'Could not access questionnaire storage' });
+  }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isAdmin } from '@/lib/server/accounts';
+import { listQuestionnaireVersions, publishQuestionnaire } from '@/lib/server/questionnaires';
+import { getSessionAccount } from '@/lib/server/sessions';
+
+// Every coach who starts onboarding gets the latest version, so only admins may publish one.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ versions: await listQuestionnaireVersions() });
+    }
+
+    const account = await getSessionAccount(req);
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+    if (!isAdmin(account)) return res.status(403).json({ error: 'Only admins can publish questionnaires' });
+
+    // body: { questionnaire, note? }
+    const { questionnaire, note } = req.body || {};
+    const result = await publishQuestionnaire(questionnaire, account.email, typeof note === 'string' ? note : undefined);
+    if (!result.ok) return res.status(result.status).json({ error: 'Questionnaire was not published', problems: result.problems });
+    res.setHeader('Location', `/api/questionnaires/${result.published.version}`);
+    return res.status(201).json(result.published);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Questionnaires handler error', e);
+    return res.status(500).json({ error: 'Could not access questionnaire storage' });
+  }
+}
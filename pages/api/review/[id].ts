@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ReviewDecision, decideReviewItem, getReviewItem } from '@/lib/server/reviewQueue';
+import { getSessionAccount } from '@/lib/server/sessions';
+
+// Decisions are recorded in the audit trail under the signed-in account's email.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+  if (typeof id !== 'string') return res.status(400).json({ error: 'Invalid review item id' });
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+
+    if (req.method === 'GET') {
+      const item = await getReviewItem(id, account.email);
+      if (!item) return res.status(404).json({ error: 'Review item not found' });
+      return res.status(200).json(item);
+    }
+
+    // body: { decision: 'approve', message?, note? } or { decision: 'reject', note? }
+    const { decision, message, note } = req.body || {};
+    let d: ReviewDecision;
+    if (decision === 'approve') {
+      if (message !== undefined && typeof message !== 'string') return res.status(400).json({ error: 'message must be a string' });
+      d = { decision, by: account.email, message, note: typeof note === 'string' ? note : undefined };
+    } else if (decision === 'reject') {
+      d = { decision, by: account.email, note: typeof note === 'string' ? note : undefined };
+    } else {
+      return res.status(400).json({ error: 'decision must be approve or reject' });
+    }
+
+    const result = await decideReviewItem(id, account.email, d);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(200).json(result.item);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Review item handler error', e);
+    return res.status(500).json({ error: 'Could not access the review queue' });
+  }
+}
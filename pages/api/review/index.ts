@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isTwinAction } from '@/lib/permissions';
+import { ReviewStatus, listReviewItems, submitTwinAction } from '@/lib/server/reviewQueue';
+import { getSessionAccount } from '@/lib/server/sessions';
+
+const STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+// The signed-in coach's queue; items hold client names and messages, so nothing is public.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+
+    if (req.method === 'GET') {
+      const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+      if (status && !STATUSES.includes(status as ReviewStatus)) {
+        return res.status(400).json({ error: `status must be one of ${STATUSES.join(', ')}` });
+      }
+      return res.status(200).json({ items: await listReviewItems(account.email, status as ReviewStatus | undefined) });
+    }
+
+    // twin features submit outgoing messages here; only those that need approval end up in the queue
+    const { twinId, client, action, message } = req.body || {};
+    if (typeof twinId !== 'string' || typeof client !== 'string' || !client.trim() || typeof message !== 'string') {
+      return res.status(400).json({ error: 'twinId, client and message are required' });
+    }
+    if (!isTwinAction(action)) return res.status(400).json({ error: 'Unknown action type' });
+
+    const result = await submitTwinAction({ twinId, client: client.trim(), action, message }, account.email);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    if (result.decision === 'queue') {
+      res.setHeader('Location', `/api/review/${result.item.id}`);
+      return res.status(202).json(result);
+    }
+    return res.status(200).json(result);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Review queue handler error', e);
+    return res.status(500).json({ error: 'Could not access the review queue' });
+  }
+}
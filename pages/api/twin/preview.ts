@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { compilePersona } from '@/lib/persona';
+import { twinLanguageFor } from '@/lib/twinLanguages';
+import { importTwinProfile } from '@/lib/twinProfile';
+import { PREVIEW_MESSAGE_MAX } from '@/lib/twinPreview';
+import { clientIp } from '@/lib/server/clientIp';
+import { LlmError, getLlmProvider } from '@/lib/server/llm';
+import { createRateLimiter } from '@/lib/server/rateLimit';
+import { getSession } from '@/lib/server/sessions';
+
+// every preview may cost a paid model call: 20 per signed-in coach (or per address) in 10 minutes
+const previews = createRateLimiter(20, 10 * 60 * 1000);
+
+// Streams a sample twin reply as plain text. The profile comes from the wizard (it may not be saved yet),
+// so it is validated here and compiled into the same system prompt the twin would run with.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const session = await getSession(req).catch(() => null);
+  const ip = clientIp(req);
+  const key = session && session.email ? `account:${session.email}` : `ip:${ip ? ip.text : 'unknown'}`;
+  const wait = previews.retryAfter(key);
+  if (wait) {
+    res.setHeader('Retry-After', String(wait));
+    return res.status(429).json({ error: 'Too many previews, please try again in a few minutes' });
+  }
+
+  const imported = importTwinProfile(req.body?.profile ?? {});
+  if (!imported.ok) return res.status(400).json({ error: imported.error });
+
+  const custom = typeof req.body?.message === 'string' ? req.body.message.trim() : '';
+  const message = custom || twinLanguageFor(imported.profile.language.twin).sampleClientMessage;
+  if (message.length > PREVIEW_MESSAGE_MAX) return res.status(400).json({ error: `Message must be at most ${PREVIEW_MESSAGE_MAX} characters` });
+
+  let provider;
+  try {
+    provider = getLlmProvider();
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('LLM provider misconfigured', e instanceof Error ? e.message : e);
+    return res.status(500).json({ error: 'The preview model is not configured' });
+  }
+
+  previews.hit(key);
+  const { systemPrompt } = compilePersona(imported.profile);
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  let started = false;
+  try {
+    for await (const chunk of provider.stream({ system: systemPrompt, messages: [{ role: 'user', content: message }], maxTokens: 300 }, controller.signal)) {
+      if (!started) {
+        res.writeHead(200, {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          'X-Accel-Buffering': 'no',
+          'X-Twin-Provider': provider.name,
+        });
+        started = true;
+      }
+      res.write(chunk);
+    }
+    if (!started) return res.status(502).json({ error: 'The model returned an empty reply' });
+    res.end();
+  } catch (e) {
+    if (controller.signal.aborted) return;
+    // eslint-disable-next-line no-console
+    console.error('Twin preview failed', provider.name, e instanceof Error ? e.message : e);
+    if (!started) {
+      const status = e instanceof LlmError ? 502 : 500;
+      return res.status(status).json({ error: 'The preview model is unavailable right now. Please try again.' });
+    }
+    res.end();
+  }
+}
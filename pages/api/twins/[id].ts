@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionAccount } from '@/lib/server/sessions';
+import { deleteTwin, etagFor, getTwin, parseIfMatch, patchTwin, sendTwin } from '@/lib/server/twins';
+
+// GET returns the twin with an ETag; PATCH and DELETE take that ETag back in If-Match so two
+// clients editing the same twin can't silently overwrite each other. Only the signed-in coach who
+// created a twin can reach it.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const id = typeof req.query.id === 'string' ? req.query.id : '';
+  if (!id) return res.status(400).json({ error: 'Invalid twin id' });
+
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, PATCH, DELETE');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+
+    if (req.method === 'GET') {
+      const twin = await getTwin(id, account.email);
+      if (!twin) return res.status(404).json({ error: 'Twin not found' });
+      if (req.headers['if-none-match'] === etagFor(twin)) {
+        res.setHeader('ETag', etagFor(twin));
+        return res.status(304).end();
+      }
+      return sendTwin(res, 200, twin);
+    }
+
+    if (req.method === 'PATCH') {
+      const pre = parseIfMatch(req.headers['if-match']);
+      if (!pre) return res.status(428).json({ error: 'PATCH requires an If-Match header with the twin ETag' });
+      const result = await patchTwin(id, account.email, req.body, pre);
+      if (!result.ok) return res.status(result.status).json({ error: result.error, rejected: result.rejected });
+      return sendTwin(res, 200, result.twin);
+    }
+
+    const pre = parseIfMatch(req.headers['if-match']);
+    if (!pre) return res.status(428).json({ error: 'DELETE requires an If-Match header with the twin ETag' });
+    const result = await deleteTwin(id, account.email, pre);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+    return res.status(204).end();
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Twin handler error', e);
+    return res.status(500).json({ error: 'Could not access twin storage' });
+  }
+}
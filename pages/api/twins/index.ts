@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionAccount } from '@/lib/server/sessions';
+import { createTwin, listTwins, sendTwin } from '@/lib/server/twins';
+
+// The signed-in coach's twins; other accounts' twins are invisible here.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const account = await getSessionAccount(req);
+    if (!account) return res.status(401).json({ error: 'Please sign in first' });
+
+    if (req.method === 'GET') {
+      const twins = await listTwins(account.email);
+      return res.status(200).json({ twins: twins.map(({ id, version, createdAt, updatedAt }) => ({ id, version, createdAt, updatedAt })) });
+    }
+
+    const result = await createTwin(req.body, account.email);
+    if (!result.ok) return res.status(result.status).json({ error: result.error, rejected: result.rejected });
+    res.setHeader('Location', `/api/twins/${result.twin.id}`);
+    return sendTwin(res, 201, result.twin);
+  } catch (e) {
+    // eslint-disable-next-line no-console
+    console.error('Twins handler error', e);
+    return res.status(500).json({ error: 'Could not access twin storage' });
+  }
+}
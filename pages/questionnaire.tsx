@@ -0,0 +1,578 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Head from 'next/head';
+import QuestionnaireStep from '@/components/QuestionnaireStep';
+import { isStaticDeployment } from '@/lib/deployment';
+import { I18nProvider, Locale, ownMessage } from '@/lib/i18n';
+import { FIELD_KINDS, Question, Questionnaire, StepDef, validateQuestionnaire } from '@/lib/questionnaire';
+import { PERMISSIONS, TwinProfile, createEmptyProfile, profileFieldKind, profileFields } from '@/lib/twinProfile';
+import { useSession } from '@/lib/useSession';
+import type { PublishedQuestionnaire, QuestionnaireVersionInfo } from '@/lib/server/questionnaires';
+
+const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'nl', label: 'Dutch' },
+];
+
+const KINDS: { id: Question['kind']; label: string }[] = [
+  { id: 'single', label: 'Single choice' },
+  { id: 'multi', label: 'Multiple choice' },
+  { id: 'text', label: 'Short text' },
+  { id: 'textarea', label: 'Long text' },
+  { id: 'matrix', label: 'Permission matrix' },
+];
+
+const FIELDS = profileFields();
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+const inputClass = 'mt-1 w-full rounded-md border border-gray-300 p-2 text-sm';
+const smallButtonClass = 'px-2 py-1 text-xs rounded-md border border-gray-300 bg-white text-gray-700 disabled:opacity-40';
+
+function move<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length) return list;
+  const next = list.slice();
+  next.splice(to, 0, next.splice(from, 1)[0]);
+  return next;
+}
+
+// first id with this prefix that isn't taken yet (step1, step2, ...)
+function freeId(prefix: string, taken: string[]) {
+  let n = 1;
+  while (taken.includes(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+// Copy keys of new steps and questions are derived from their ids; their text lives in the
+// questionnaire's own messages until someone adds it to the catalogs.
+function newStep(id: string): StepDef {
+  return { id, label: `${id}.label`, intro: { title: `${id}.intro.title` }, questions: [], done: { title: `${id}.done.title`, icon: 'check' } };
+}
+
+function newQuestion(step: StepDef, id: string): Question {
+  return { id, kind: 'single', field: '', title: `${step.id}.${id}.title`, options: [] };
+}
+
+// Switching kind keeps what the kinds have in common and resets the rest.
+function withKind(q: Question, kind: Question['kind']): Question {
+  const { id, field, title, hint, required, error, showIf, skipIf } = q;
+  const fieldKind = profileFieldKind(field);
+  const base = { id, field: fieldKind && FIELD_KINDS[kind].includes(fieldKind) ? field : '', title, hint, required, error, showIf, skipIf };
+  const options = 'options' in q ? q.options : [];
+  if (kind === 'single' || kind === 'multi') return { ...base, kind, options };
+  if (kind === 'matrix') {
+    return { ...base, kind, rows: 'rows' in q ? q.rows : [], columns: PERMISSIONS.map((value) => ({ value, label: `guardrails.q3.${value}` })) };
+  }
+  return { ...base, kind };
+}
+
+// Renames an option or matrix row along with its emoji and visibility entries.
+function renameValue(q: Question, from: string, to: string): Question {
+  const rekey = <V,>(map: Record<string, V> | undefined) => {
+    if (!map || !(from in map)) return map;
+    const { [from]: value, ...rest } = map;
+    return { ...rest, [to]: value };
+  };
+  if (q.kind === 'matrix') return { ...q, rows: q.rows.map((r) => (r === from ? to : r)), rowVisibility: rekey(q.rowVisibility) };
+  if (q.kind === 'single' || q.kind === 'multi') {
+    return { ...q, options: q.options.map((o) => (o === from ? to : o)), optionEmoji: rekey(q.optionEmoji), optionVisibility: rekey(q.optionVisibility) };
+  }
+  return q;
+}
+
+type Editing = {
+  questionnaire: Questionnaire;
+  // sets the text of a copy key for one locale
+  onCopy: (locale: Locale, key: string, text: string) => void;
+};
+
+type CopyFieldProps = Editing & {
+  label: string;
+  // the key the definition points at, if any
+  messageKey: string | undefined;
+  // used when an optional text gets its first copy
+  defaultKey: string;
+  onKey: (key: string) => void;
+  multiline?: boolean;
+};
+
+// One piece of copy, edited side by side in every locale.
+function CopyField({ label, questionnaire, messageKey, defaultKey, onKey, onCopy, multiline }: CopyFieldProps) {
+  const edit = (locale: Locale, text: string) => {
+    const key = messageKey || defaultKey;
+    if (key !== messageKey) onKey(key);
+    onCopy(locale, key, text);
+  };
+
+  return (
+    <fieldset className="mt-3">
+      <legend className="text-sm font-medium text-gray-700">
+        {label}
+        {messageKey && <span className="ml-2 font-mono text-xs text-gray-400">{messageKey}</span>}
+      </legend>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {LOCALES.map((l) => {
+          const props = {
+            value: (messageKey && ownMessage(l.id, messageKey, questionnaire.messages)) || '',
+            onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => edit(l.id, e.target.value),
+            placeholder: l.label,
+            'aria-label': `${label} (${l.label})`,
+            className: inputClass,
+          };
+          return multiline ? <textarea key={l.id} rows={2} {...props} /> : <input key={l.id} type="text" {...props} />;
+        })}
+      </div>
+    </fieldset>
+  );
+}
+
+type ValueListProps = Editing & {
+  label: string;
+  values: string[];
+  emoji?: Record<string, string>;
+  onChange: (values: string[]) => void;
+  onRename: (from: string, to: string) => void;
+  onEmoji?: (value: string, emoji: string) => void;
+};
+
+// Option values (or matrix rows) are stored in the profile as typed in English; Dutch labels are
+// `option.<value>` copy.
+function ValueList({ label, values, emoji, onChange, onRename, onEmoji, questionnaire, onCopy }: ValueListProps) {
+  return (
+    <fieldset className="mt-3">
+      <legend className="text-sm font-medium text-gray-700">{label}</legend>
+      <ul className="space-y-2">
+        {values.map((v, i) => (
+          <li key={i} className="flex items-center gap-2">
+            {onEmoji && (
+              <input type="text" value={(emoji && emoji[v]) || ''} onChange={(e) => onEmoji(v, e.target.value)} aria-label={`Emoji for ${v}`} className="w-12 rounded-md border border-gray-300 p-2 text-sm" />
+            )}
+            <input type="text" value={v} onChange={(e) => onRename(v, e.target.value)} aria-label={`Value ${i + 1}`} placeholder="Value (English)" className="flex-1 rounded-md border border-gray-300 p-2 text-sm" />
+            <input type="text" value={ownMessage('nl', `option.${v}`, questionnaire.messages) || ''} onChange={(e) => onCopy('nl', `option.${v}`, e.target.value)} aria-label={`Dutch label for ${v}`} placeholder="Dutch" className="flex-1 rounded-md border border-gray-300 p-2 text-sm" />
+            <button type="button" onClick={() => onChange(move(values, i, i - 1))} disabled={i === 0} className={smallButtonClass} aria-label="Move up">↑</button>
+            <button type="button" onClick={() => onChange(move(values, i, i + 1))} disabled={i === values.length - 1} className={smallButtonClass} aria-label="Move down">↓</button>
+            <button type="button" onClick={() => onChange(values.filter((_, j) => j !== i))} className={smallButtonClass} aria-label={`Remove ${v}`}>✕</button>
+          </li>
+        ))}
+      </ul>
+      <button type="button" onClick={() => onChange([...values, ''])} className={`mt-2 ${smallButtonClass}`}>Add</button>
+    </fieldset>
+  );
+}
+
+// Properties without a form control (conditions, layout, translation, ...) are edited as JSON.
+function AdvancedJson({ question, onApply }: { question: Question; onApply: (q: Question) => void }) {
+  const [text, setText] = useState(() => JSON.stringify(question, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(JSON.stringify(question, null, 2));
+    setError(null);
+  }, [question]);
+
+  const apply = () => {
+    try {
+      const parsed = JSON.parse(text);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('Expected a question object');
+      onApply(parsed);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <details className="mt-4 text-sm">
+      <summary className="cursor-pointer text-gray-700">Advanced (JSON)</summary>
+      <textarea value={text} onChange={(e) => setText(e.target.value)} rows={12} spellCheck={false} aria-label="Question JSON" className={`${inputClass} font-mono text-xs`} />
+      {error && <p role="alert" className="mt-1 text-sm text-red-600">{error}</p>}
+      <button type="button" onClick={apply} className={`mt-2 ${smallButtonClass}`}>Apply JSON</button>
+    </details>
+  );
+}
+
+type QuestionEditorProps = Editing & {
+  step: StepDef;
+  question: Question;
+  onChange: (update: (q: Question) => Question) => void;
+};
+
+function QuestionEditor({ step, question: q, onChange, questionnaire, onCopy }: QuestionEditorProps) {
+  const copy = { questionnaire, onCopy };
+  const keyPrefix = `${step.id}.${q.id}`;
+  const fields = FIELDS.filter((f) => FIELD_KINDS[q.kind].includes(f.kind));
+
+  return (
+    <div>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-sm font-medium text-gray-700">
+          Id
+          <input type="text" value={q.id} onChange={(e) => { const id = e.target.value; onChange((x) => ({ ...x, id })); }} className={inputClass} />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Kind
+          <select value={q.kind} onChange={(e) => { const kind = e.target.value as Question['kind']; onChange((x) => withKind(x, kind)); }} className={inputClass}>
+            {KINDS.map((k) => <option key={k.id} value={k.id}>{k.label}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Profile field
+          <select value={q.field} onChange={(e) => { const field = e.target.value; onChange((x) => ({ ...x, field })); }} className={inputClass}>
+            <option value="">Choose…</option>
+            {fields.map((f) => <option key={f.path} value={f.path}>{f.path}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <CopyField {...copy} label="Question" messageKey={q.title} defaultKey={`${keyPrefix}.title`} onKey={(title) => onChange((x) => ({ ...x, title }))} />
+      <CopyField {...copy} label="Hint" messageKey={q.hint} defaultKey={`${keyPrefix}.hint`} onKey={(hint) => onChange((x) => ({ ...x, hint }))} />
+      {(q.kind === 'text' || q.kind === 'textarea') && (
+        <CopyField {...copy} label="Placeholder" messageKey={q.placeholder} defaultKey={`${keyPrefix}.placeholder`} onKey={(placeholder) => onChange((x) => ({ ...x, placeholder }))} multiline={q.kind === 'textarea'} />
+      )}
+
+      {(q.kind === 'single' || q.kind === 'multi') && (
+        <>
+          <ValueList
+            {...copy}
+            label="Options"
+            values={q.options}
+            emoji={q.optionEmoji}
+            onChange={(options) => onChange((x) => ({ ...x, options }))}
+            onRename={(from, to) => onChange((x) => renameValue(x, from, to))}
+            onEmoji={(value, emoji) => onChange((x) => ('options' in x ? { ...x, optionEmoji: { ...x.optionEmoji, [value]: emoji } } : x))}
+          />
+          <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Emoji
+              <input type="text" value={q.emoji || ''} onChange={(e) => { const emoji = e.target.value || undefined; onChange((x) => ({ ...x, emoji })); }} className="w-12 rounded-md border border-gray-300 p-1" />
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={!!q.other} onChange={(e) => { const other = e.target.checked ? {} : undefined; onChange((x) => ({ ...x, other })); }} />
+              Offer “Other”
+            </label>
+            {q.kind === 'multi' && (
+              <label className="flex items-center gap-2">
+                At most
+                <input type="number" min={1} value={q.max ?? ''} onChange={(e) => { const max = e.target.value ? Number(e.target.value) : undefined; onChange((x) => ({ ...x, max })); }} className="w-16 rounded-md border border-gray-300 p-1" />
+              </label>
+            )}
+          </div>
+        </>
+      )}
+
+      {q.kind === 'matrix' && (
+        <ValueList
+          {...copy}
+          label="Rows"
+          values={q.rows}
+          onChange={(rows) => onChange((x) => ({ ...x, rows }))}
+          onRename={(from, to) => onChange((x) => renameValue(x, from, to))}
+        />
+      )}
+
+      <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={q.required !== false} onChange={(e) => { const required = e.target.checked ? undefined : false; onChange((x) => ({ ...x, required })); }} />
+        Required
+      </label>
+
+      <AdvancedJson question={q} onApply={(next) => onChange(() => next)} />
+    </div>
+  );
+}
+
+type StepEditorProps = Editing & {
+  step: StepDef;
+  onChange: (update: (s: StepDef) => StepDef) => void;
+  allQuestionIds: string[];
+  questionIndex: number;
+  onQuestionIndexChange: (i: number) => void;
+};
+
+function StepEditor({ step, onChange, allQuestionIds, questionIndex, onQuestionIndexChange, questionnaire, onCopy }: StepEditorProps) {
+  const copy = { questionnaire, onCopy };
+  const question = step.questions[questionIndex];
+  const setQuestions = (update: (qs: Question[]) => Question[]) => onChange((s) => ({ ...s, questions: update(s.questions) }));
+
+  const addQuestion = () => {
+    setQuestions((qs) => [...qs, newQuestion(step, freeId('q', allQuestionIds))]);
+    onQuestionIndexChange(step.questions.length);
+  };
+  const moveQuestion = (to: number) => {
+    setQuestions((qs) => move(qs, questionIndex, to));
+    if (to >= 0 && to < step.questions.length) onQuestionIndexChange(to);
+  };
+  const removeQuestion = () => {
+    setQuestions((qs) => qs.filter((_, i) => i !== questionIndex));
+    onQuestionIndexChange(Math.max(0, questionIndex - 1));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">
+        Step id
+        <input type="text" value={step.id} onChange={(e) => { const id = e.target.value; onChange((s) => ({ ...s, id })); }} className={inputClass} />
+      </label>
+      <CopyField {...copy} label="Stepper label" messageKey={step.label} defaultKey={`${step.id}.label`} onKey={(label) => onChange((s) => ({ ...s, label }))} />
+      <CopyField {...copy} label="Intro title" messageKey={step.intro.title} defaultKey={`${step.id}.intro.title`} onKey={(title) => onChange((s) => ({ ...s, intro: { ...s.intro, title } }))} />
+      <CopyField {...copy} label="Intro subtitle" messageKey={step.intro.subtitle} defaultKey={`${step.id}.intro.subtitle`} onKey={(subtitle) => onChange((s) => ({ ...s, intro: { ...s.intro, subtitle } }))} />
+      <CopyField {...copy} label="Intro text" messageKey={step.intro.body} defaultKey={`${step.id}.intro.body`} onKey={(body) => onChange((s) => ({ ...s, intro: { ...s.intro, body } }))} multiline />
+      <CopyField {...copy} label="Closing title" messageKey={step.done.title} defaultKey={`${step.id}.done.title`} onKey={(title) => onChange((s) => ({ ...s, done: { ...s.done, title } }))} />
+      <CopyField {...copy} label="Closing text" messageKey={step.done.body} defaultKey={`${step.id}.done.body`} onKey={(body) => onChange((s) => ({ ...s, done: { ...s.done, body } }))} multiline />
+
+      <h3 className="mt-6 text-sm font-semibold text-gray-900">Questions</h3>
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        {step.questions.map((q, i) => (
+          <button key={i} type="button" onClick={() => onQuestionIndexChange(i)} className={`px-3 py-1.5 text-sm rounded-md border ${i === questionIndex ? 'bg-primary text-white border-transparent' : 'bg-white text-gray-700 border-gray-300'}`}>
+            {q.id || `#${i + 1}`}
+          </button>
+        ))}
+        <button type="button" onClick={addQuestion} className={smallButtonClass}>Add question</button>
+      </div>
+
+      {question && (
+        <div className="mt-4 rounded-md border border-gray-200 p-4">
+          <div className="mb-3 flex justify-end gap-2">
+            <button type="button" onClick={() => moveQuestion(questionIndex - 1)} disabled={questionIndex === 0} className={smallButtonClass}>Move up</button>
+            <button type="button" onClick={() => moveQuestion(questionIndex + 1)} disabled={questionIndex === step.questions.length - 1} className={smallButtonClass}>Move down</button>
+            <button type="button" onClick={removeQuestion} className={smallButtonClass}>Remove question</button>
+          </div>
+          <QuestionEditor
+            {...copy}
+            step={step}
+            question={question}
+            onChange={(update) => setQuestions((qs) => qs.map((x, i) => (i === questionIndex ? update(x) : x)))}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Renders one step the way coaches will see it, against a scratch profile.
+function StepPreview({ step, stepIndex, messages }: { step: StepDef; stepIndex: number; messages: Questionnaire['messages'] }) {
+  const [locale, setLocale] = useState<Locale>('en');
+  const [profile, setProfile] = useState<TwinProfile>(createEmptyProfile);
+  const [subIndex, setSubIndex] = useState(0);
+  const [run, setRun] = useState(0);
+
+  const restart = () => {
+    setProfile(createEmptyProfile());
+    setSubIndex(0);
+    setRun((r) => r + 1);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {LOCALES.map((l) => (
+            <button key={l.id} type="button" onClick={() => setLocale(l.id)} className={`px-3 py-1.5 text-sm rounded-md border ${locale === l.id ? 'bg-primary text-white border-transparent' : 'bg-white text-gray-700 border-gray-300'}`}>
+              {l.label}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={restart} className={smallButtonClass}>Restart preview</button>
+      </div>
+      <div className="mt-3 rounded-lg border border-gray-200 bg-white p-4">
+        {step.questions.length ? (
+          <I18nProvider locale={locale} messages={messages}>
+            <QuestionnaireStep
+              key={`${step.id}-${run}`}
+              step={step}
+              stepIndex={stepIndex}
+              profile={profile}
+              onProfileChange={setProfile}
+              subIndex={subIndex}
+              onSubIndexChange={setSubIndex}
+              onNext={restart}
+            />
+          </I18nProvider>
+        ) : (
+          <p className="text-sm text-gray-600">Add a question to preview this step.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Content editor for the onboarding questionnaire. Every publish creates a new version; coaches
+// who already started onboarding keep the version they started with.
+export default function QuestionnaireEditor() {
+  const { session, loaded } = useSession();
+  const isAdmin = !!(session && session.account && session.account.isAdmin);
+  const [versions, setVersions] = useState<QuestionnaireVersionInfo[] | null>(null);
+  const [draft, setDraft] = useState<Questionnaire | null>(null);
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [published, setPublished] = useState<number | null>(null);
+
+  const load = useCallback(async (version: number | 'latest') => {
+    setError(null);
+    try {
+      const [versionsRes, questionnaireRes] = await Promise.all([fetch('/api/questionnaires'), fetch(`/api/questionnaires/${version}`)]);
+      const versionsData = await versionsRes.json().catch(() => null);
+      const data = await questionnaireRes.json().catch(() => null);
+      if (!versionsRes.ok) throw new Error((versionsData && versionsData.error) || `Request failed (${versionsRes.status})`);
+      if (!questionnaireRes.ok) throw new Error((data && data.error) || `Request failed (${questionnaireRes.status})`);
+      setVersions(versionsData.versions);
+      setDraft((data as PublishedQuestionnaire).questionnaire);
+      setBaseVersion(data.version);
+      setStepIndex(0);
+      setQuestionIndex(0);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the questionnaire');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isStaticDeployment || !isAdmin) return;
+    load('latest');
+  }, [load, isAdmin]);
+
+  const check = useMemo(() => (draft ? validateQuestionnaire(draft) : null), [draft]);
+
+  const setCopy = useCallback((locale: Locale, key: string, text: string) => {
+    setDraft((q) => q && { ...q, messages: { ...q.messages, [locale]: { ...(q.messages && q.messages[locale]), [key]: text } } });
+  }, []);
+
+  const setSteps = (update: (steps: StepDef[]) => StepDef[]) => setDraft((q) => q && { ...q, steps: update(q.steps) });
+  const selectStep = (i: number) => {
+    setStepIndex(i);
+    setQuestionIndex(0);
+  };
+
+  async function publish() {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    setPublished(null);
+    try {
+      const res = await fetch('/api/questionnaires', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ questionnaire: draft, note }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        const problems: { path: string; reason: string }[] = (data && data.problems) || [];
+        throw new Error([(data && data.error) || `Request failed (${res.status})`, ...problems.map((p) => `${p.path}: ${p.reason}`)].join('\n'));
+      }
+      setPublished(data.version);
+      setNote('');
+      await load(data.version);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const step = draft && draft.steps[stepIndex];
+  const copy = draft && { questionnaire: draft, onCopy: setCopy };
+
+  return (
+    <>
+      <Head>
+        <title>CoachNova - Questionnaire editor</title>
+      </Head>
+      <main className="mx-auto max-w-6xl p-6">
+        <h1 className="text-2xl font-bold text-[#111928]">Questionnaire editor</h1>
+        <p className="mt-1 text-sm text-gray-600">Edit the onboarding steps, questions and copy, then publish them as a new version.</p>
+
+        {isStaticDeployment ? (
+          <p className="mt-6 text-sm text-gray-600">The questionnaire editor needs the CoachNova server and is not available in this preview.</p>
+        ) : !loaded ? null : !isAdmin ? (
+          <p className="mt-6 text-sm text-gray-600">
+            {session && session.account
+              ? 'Only admins can edit the questionnaire. Ask one to add your account to ADMIN_EMAILS.'
+              : <><a href="/" className="text-primary underline">Sign in</a> with an admin account to edit the questionnaire.</>}
+          </p>
+        ) : (
+          <>
+            {versions && (
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                <label htmlFor="version" className="text-gray-700">Start from</label>
+                <select id="version" value={baseVersion ?? ''} onChange={(e) => load(Number(e.target.value))} className="rounded-md border border-gray-300 p-1.5 text-sm">
+                  {versions.map((v) => (
+                    <option key={v.version} value={v.version}>
+                      Version {v.version}{v.publishedAt ? ` · ${formatTime(v.publishedAt)}` : ' · built in'}{v.note ? ` · ${v.note}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {error && <p role="alert" className="mt-4 whitespace-pre-wrap text-sm text-red-600">{error}</p>}
+            {published !== null && <p role="status" className="mt-4 text-sm text-green-700">Published version {published}. Coaches who start onboarding from now on get this version.</p>}
+
+            {draft && copy && (
+              <div className="mt-6 grid gap-6 lg:grid-cols-2">
+                <section className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {draft.steps.map((s, i) => (
+                      <button key={i} type="button" onClick={() => selectStep(i)} className={`px-3 py-1.5 text-sm rounded-md border ${i === stepIndex ? 'bg-primary text-white border-transparent' : 'bg-white text-gray-700 border-gray-300'}`}>
+                        {s.id || `#${i + 1}`}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSteps((steps) => [...steps, newStep(freeId('step', steps.map((s) => s.id)))]);
+                        selectStep(draft.steps.length);
+                      }}
+                      className={smallButtonClass}
+                    >
+                      Add step
+                    </button>
+                  </div>
+
+                  {step && (
+                    <div className="mt-4">
+                      <div className="mb-3 flex justify-end gap-2">
+                        <button type="button" onClick={() => { setSteps((steps) => move(steps, stepIndex, stepIndex - 1)); setStepIndex(stepIndex - 1); }} disabled={stepIndex === 0} className={smallButtonClass}>Move earlier</button>
+                        <button type="button" onClick={() => { setSteps((steps) => move(steps, stepIndex, stepIndex + 1)); setStepIndex(stepIndex + 1); }} disabled={stepIndex === draft.steps.length - 1} className={smallButtonClass}>Move later</button>
+                        <button type="button" onClick={() => { setSteps((steps) => steps.filter((_, i) => i !== stepIndex)); selectStep(Math.max(0, stepIndex - 1)); }} disabled={draft.steps.length === 1} className={smallButtonClass}>Remove step</button>
+                      </div>
+                      <StepEditor
+                        {...copy}
+                        step={step}
+                        onChange={(update) => setSteps((steps) => steps.map((s, i) => (i === stepIndex ? update(s) : s)))}
+                        allQuestionIds={draft.steps.reduce<string[]>((ids, s) => ids.concat(s.questions.map((q) => q.id)), [])}
+                        questionIndex={questionIndex}
+                        onQuestionIndexChange={setQuestionIndex}
+                      />
+                    </div>
+                  )}
+                </section>
+
+                <section className="space-y-6">
+                  {step && <StepPreview step={step} stepIndex={stepIndex} messages={draft.messages} />}
+
+                  <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                    <h2 className="text-sm font-semibold text-gray-900">Publish</h2>
+                    {check && !check.ok ? (
+                      <ul className="mt-2 list-disc pl-4 text-sm text-amber-800">
+                        {check.problems.map((p, i) => <li key={i}><span className="font-mono text-xs">{p.path || 'questionnaire'}</span>: {p.reason}</li>)}
+                      </ul>
+                    ) : (
+                      <p className="mt-2 text-sm text-gray-600">No problems found.</p>
+                    )}
+                    <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="What changed? (optional)" className={`mt-3 ${inputClass}`} />
+                    <div className="mt-3 flex justify-end">
+                      <button type="button" disabled={busy || !check || !check.ok} onClick={publish} className="px-4 py-2 rounded-md bg-primary text-white disabled:opacity-60">
+                        Publish version {versions ? versions[versions.length - 1].version + 1 : ''}
+                      </button>
+                    </div>
+                  </div>
+                </section>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import EmailLinkPage from '@/components/EmailLinkPage';
+import FieldError, { errorIdFor } from '@/components/FieldError';
+import PasswordStrength from '@/components/PasswordStrength';
+import { VALIDATION_PARAMS } from '@/lib/accountValidation';
+import { useI18n } from '@/lib/i18n';
+import { passwordError } from '@/lib/passwordPolicy';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+
+const PASSWORD_ID = 'new-password';
+const PASSWORD_STRENGTH_ID = 'new-password-strength';
+
+// The page a password reset link opens: /reset-password?token=...&lang=nl
+function ResetPasswordForm({ token }: { token: string }) {
+  const { t } = useI18n();
+  const [password, setPassword] = useState('');
+  const [fieldError, setFieldError] = useState<string | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [done, setDone] = useState(false);
+  const headingRef = useHeadingFocus(done ? 'done' : 'form', false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+    const problem = passwordError(password);
+    setFieldError(problem);
+    if (problem) return;
+    if (!token) return setFormError(t('reset.error.invalid'));
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await res.json().catch(() => null);
+      if (res.ok) return setDone(true);
+      if (data && data.errors && data.errors.password) setFieldError(data.errors.password);
+      else setFormError(t(data && data.code === 'invalid_token' ? 'reset.error.invalid' : 'login.error.failed'));
+    } catch (err) {
+      setFormError(t('form.error.network'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="w-full space-y-4 text-center">
+        <h1 ref={headingRef} tabIndex={-1} className="text-3xl font-extrabold text-[#111928] focus:outline-none">{t('reset.done.title')}</h1>
+        <p className="supporting-text">{t('reset.done.body')}</p>
+        <a href={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/`} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg">{t('reset.done.continue')}</a>
+      </div>
+    );
+  }
+
+  return (
+    <form noValidate className="w-full space-y-4" onSubmit={handleSubmit}>
+      <h1 ref={headingRef} tabIndex={-1} className="text-3xl font-extrabold text-center text-[#111928] focus:outline-none">{t('reset.title')}</h1>
+      <p className="supporting-text">{t('reset.intro')}</p>
+      <div>
+        <label htmlFor={PASSWORD_ID} className="block mb-1 text-sm font-medium text-gray-700">{t('reset.password')}</label>
+        <input
+          id={PASSWORD_ID}
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => { setPassword(e.target.value); setFieldError(null); }}
+          aria-invalid={!!fieldError}
+          aria-describedby={[PASSWORD_STRENGTH_ID, fieldError ? errorIdFor(PASSWORD_ID) : ''].filter(Boolean).join(' ')}
+          className={`bg-white border ${fieldError ? 'border-red-500' : 'border-gray-300'} text-gray-900 text-sm rounded-lg focus:ring-2 focus:ring-primary block w-full p-2.5`}
+        />
+        <FieldError id={errorIdFor(PASSWORD_ID)} message={fieldError && t(fieldError, VALIDATION_PARAMS)} />
+        <PasswordStrength id={PASSWORD_STRENGTH_ID} password={password} personal={[]} />
+      </div>
+
+      {formError && <p role="alert" className="text-center text-sm text-red-600">{formError}</p>}
+
+      <div className="flex justify-center">
+        <button type="submit" disabled={saving} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg disabled:opacity-60">{saving ? t('reset.saving') : t('reset.submit')}</button>
+      </div>
+    </form>
+  );
+}
+
+export default function ResetPassword() {
+  return <EmailLinkPage title="reset.meta.title">{(token) => <ResetPasswordForm token={token} />}</EmailLinkPage>;
+}
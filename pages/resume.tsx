@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import EmailLinkPage from '@/components/EmailLinkPage';
+import { useI18n } from '@/lib/i18n';
+import { fetchServerDraft, loadLocalDraft, saveLocalDraft } from '@/lib/onboardingDraft';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+
+type Status = 'checking' | 'invalid' | 'failed';
+
+// Puts the account's saved draft in this browser, unless the copy here is the same draft and newer.
+async function restoreDraft(draftId: string) {
+  const remote = await fetchServerDraft(draftId);
+  if (!remote) return;
+  const local = loadLocalDraft();
+  if (local && local.id === remote.id && local.updatedAt >= remote.updatedAt) return;
+  saveLocalDraft(remote);
+}
+
+// The page a resume email links to: /resume?token=...&lang=nl. It signs in with the one-time token,
+// brings the saved draft onto this device and hands over to the onboarding, which picks up at the
+// draft's step. Like /verify-email, the token only leaves from script.
+function Resume({ token }: { token: string }) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<Status>(token ? 'checking' : 'invalid');
+  const headingRef = useHeadingFocus(status, false);
+
+  useEffect(() => {
+    if (!token) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const res = await fetch('/api/auth/resume/confirm', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok) {
+          if (mounted) setStatus(res.status === 400 ? 'invalid' : 'failed');
+          return;
+        }
+        if (data && typeof data.draftId === 'string') await restoreDraft(data.draftId);
+        window.location.replace(`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/`);
+      } catch (e) {
+        if (mounted) setStatus('failed');
+      }
+    })();
+    return () => { mounted = false };
+  }, [token]);
+
+  return (
+    <div className="w-full space-y-4 text-center" aria-live="polite">
+      <h1 ref={headingRef} tabIndex={-1} className="text-3xl font-extrabold text-[#111928] focus:outline-none">{t('resume.title')}</h1>
+      {status === 'checking' && <p className="supporting-text">{t('resume.checking')}</p>}
+      {status === 'invalid' && <p role="alert" className="text-sm text-red-600">{t('resume.error.invalid')}</p>}
+      {status === 'failed' && <p role="alert" className="text-sm text-red-600">{t('form.error.network')}</p>}
+      {status !== 'checking' && (
+        <a href={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/`} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg">{t('resume.backToStart')}</a>
+      )}
+    </div>
+  );
+}
+
+export default function ResumePage() {
+  return <EmailLinkPage title="resume.meta.title">{(token) => <Resume token={token} />}</EmailLinkPage>;
+}
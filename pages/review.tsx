@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Head from 'next/head';
+import { TWIN_ACTIONS } from '@/lib/permissions';
+import { isStaticDeployment } from '@/lib/deployment';
+import type { ReviewItem, ReviewStatus } from '@/lib/server/reviewQueue';
+
+const FILTERS: { id: ReviewStatus | 'all'; label: string }[] = [
+  { id: 'pending', label: 'Pending' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'all', label: 'All' },
+];
+
+const EVENT_LABELS: Record<ReviewItem['audit'][number]['event'], string> = {
+  queued: 'Queued for review',
+  edited: 'Edited',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+type ReviewCardProps = {
+  item: ReviewItem;
+  onDecided: (item: ReviewItem) => void;
+};
+
+function ReviewCard({ item, onDecided }: ReviewCardProps) {
+  const [message, setMessage] = useState(item.message);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pending = item.status === 'pending';
+  const edited = message.trim() !== item.message;
+
+  async function decide(decision: 'approve' | 'reject') {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/review/${item.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(decision === 'approve' ? { decision, message: edited ? message : undefined, note } : { decision, note }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error((data && data.error) || `Request failed (${res.status})`);
+      onDecided(data as ReviewItem);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <li className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div>
+          <span className="font-semibold text-gray-900">{item.client}</span>
+          <span className="ml-2 text-gray-500">{TWIN_ACTIONS[item.action]?.area ?? item.action}</span>
+        </div>
+        <span className="text-xs text-gray-500">{formatTime(item.createdAt)} · {item.status}</span>
+      </div>
+
+      <div className="mt-2 rounded-md bg-gray-50 p-2 text-xs text-gray-600">
+        <p>{item.policy.explanation}</p>
+        {item.violations.length > 0 && (
+          <ul className="mt-1 list-disc pl-4 text-amber-800">
+            {item.violations.map((v, i) => <li key={i}>{v.reason} (“{v.match}”)</li>)}
+          </ul>
+        )}
+      </div>
+
+      {pending ? (
+        <>
+          <label className="mt-3 block text-sm font-medium text-gray-700" htmlFor={`msg-${item.id}`}>Proposed message</label>
+          <textarea id={`msg-${item.id}`} value={message} onChange={(e) => setMessage(e.target.value)} rows={4} className="mt-1 w-full rounded-md border border-gray-300 p-2 text-sm" />
+          <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note for the audit trail (optional)" className="mt-2 w-full rounded-md border border-gray-300 p-2 text-sm" />
+          {error && <p role="alert" className="mt-2 text-sm text-red-600">{error}</p>}
+          <div className="mt-3 flex justify-end gap-2">
+            <button type="button" disabled={busy} onClick={() => decide('reject')} className="px-4 py-2 rounded-md border bg-white text-gray-700 border-gray-300 disabled:opacity-60">Reject</button>
+            <button type="button" disabled={busy || !message.trim()} onClick={() => decide('approve')} className="px-4 py-2 rounded-md bg-primary text-white disabled:opacity-60">
+              {edited ? 'Save edits & approve' : 'Approve'}
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="mt-3 whitespace-pre-wrap text-sm text-gray-800">{item.approvedMessage ?? item.message}</p>
+      )}
+
+      <details className="mt-3 text-xs text-gray-600">
+        <summary className="cursor-pointer">Audit trail ({item.audit.length})</summary>
+        <ol className="mt-2 space-y-1">
+          {item.audit.map((a, i) => (
+            <li key={i}>
+              {formatTime(a.at)} — {EVENT_LABELS[a.event]} by {a.by}
+              {a.note ? `: ${a.note}` : ''}
+              {a.event === 'edited' && a.message ? <span className="block pl-4 text-gray-500">“{a.message}”</span> : null}
+            </li>
+          ))}
+        </ol>
+      </details>
+    </li>
+  );
+}
+
+// Messages the twin prepared for actions the coach set to "With my review".
+export default function ReviewQueue() {
+  const [filter, setFilter] = useState<ReviewStatus | 'all'>('pending');
+  const [items, setItems] = useState<ReviewItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch(filter === 'all' ? '/api/review' : `/api/review?status=${filter}`);
+      if (res.status === 401) return setSignedOut(true);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error((data && data.error) || `Request failed (${res.status})`);
+      setItems(data.items);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load the review queue');
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    if (isStaticDeployment) return;
+    load();
+  }, [load]);
+
+  const handleDecided = (updated: ReviewItem) => {
+    setItems((prev) => (prev || [])
+      .map((i) => (i.id === updated.id ? updated : i))
+      .filter((i) => filter === 'all' || i.status === filter));
+  };
+
+  return (
+    <>
+      <Head>
+        <title>CoachNova - Review queue</title>
+      </Head>
+      <main className="mx-auto max-w-3xl p-6">
+        <h1 className="text-2xl font-bold text-[#111928]">Review queue</h1>
+        <p className="mt-1 text-sm text-gray-600">Your Twin waits for your approval before these messages reach a client.</p>
+
+        {isStaticDeployment ? (
+          <p className="mt-6 text-sm text-gray-600">The review queue needs the CoachNova server and is not available in this preview.</p>
+        ) : signedOut ? (
+          <p className="mt-6 text-sm text-gray-600">
+            <a href="/" className="text-primary underline">Sign in</a> to see the messages waiting for your review.
+          </p>
+        ) : (
+          <>
+            <div className="mt-4 flex gap-2">
+              {FILTERS.map((f) => (
+                <button key={f.id} type="button" onClick={() => setFilter(f.id)} className={`px-3 py-1.5 text-sm rounded-md border ${filter === f.id ? 'bg-primary text-white border-transparent' : 'bg-white text-gray-700 border-gray-300'}`}>
+                  {f.label}
+                </button>
+              ))}
+            </div>
+
+            {error && <p role="alert" className="mt-4 text-sm text-red-600">{error}</p>}
+            {items && items.length === 0 && <p className="mt-6 text-sm text-gray-600">Nothing here right now.</p>}
+            {items && items.length > 0 && (
+              <ul className="mt-4 space-y-4">
+                {items.map((item) => <ReviewCard key={item.id} item={item} onDecided={handleDecided} />)}
+              </ul>
+            )}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
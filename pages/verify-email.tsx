@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import EmailLinkPage from '@/components/EmailLinkPage';
+import { useI18n } from '@/lib/i18n';
+import { useHeadingFocus } from '@/lib/useHeadingFocus';
+
+type Status = 'checking' | 'done' | 'invalid' | 'failed';
+
+// The page a verification email links to: /verify-email?token=...&lang=nl. The token is only sent
+// from script, so link scanners that fetch the page don't confirm anything.
+function VerifyEmail({ token }: { token: string }) {
+  const { t } = useI18n();
+  const [status, setStatus] = useState<Status>(token ? 'checking' : 'invalid');
+  const headingRef = useHeadingFocus(status, false);
+
+  useEffect(() => {
+    if (!token) return;
+    let mounted = true;
+    fetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token }),
+    })
+      .then((res) => (res.ok ? 'done' : res.status === 400 ? 'invalid' : 'failed'))
+      .catch((): Status => 'failed')
+      .then((next) => { if (mounted) setStatus(next); });
+    return () => { mounted = false };
+  }, [token]);
+
+  return (
+    <div className="w-full space-y-4 text-center" aria-live="polite">
+      <h1 ref={headingRef} tabIndex={-1} className="text-3xl font-extrabold text-[#111928] focus:outline-none">{t(status === 'done' ? 'verify.done.title' : 'verify.title')}</h1>
+      {status === 'checking' && <p className="supporting-text">{t('verify.checking')}</p>}
+      {status === 'done' && <p className="supporting-text">{t('verify.done.body')}</p>}
+      {status === 'invalid' && <p role="alert" className="text-sm text-red-600">{t('verify.error.invalid')}</p>}
+      {status === 'failed' && <p role="alert" className="text-sm text-red-600">{t('form.error.network')}</p>}
+      {status !== 'checking' && (
+        <a href={`${process.env.NEXT_PUBLIC_BASE_PATH || ''}/`} className="inline-flex items-center px-8 py-3 text-lg font-semibold text-white bg-primary hover:bg-primary-dark rounded-lg">{t('verify.continue')}</a>
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return <EmailLinkPage title="verify.meta.title">{(token) => <VerifyEmail token={token} />}</EmailLinkPage>;
+}
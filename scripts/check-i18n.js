@@ -0,0 +1,73 @@
+// Lists untranslated UI strings: keys missing from a locale, keys still identical to English,
+// and t('…') keys used in the code that the English catalog does not define.
+// Usage: node scripts/check-i18n.js   (exits 1 when something is missing)
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const localeDir = path.join(root, 'locales');
+const SOURCE_DIRS = ['pages', 'components', 'lib'];
+const BASE = 'en';
+
+function load(locale) {
+  const file = path.join(localeDir, `${locale}.json`);
+  const text = fs.readFileSync(file, 'utf8');
+  // JSON.parse silently keeps the last duplicate, so look for repeated keys first
+  const seen = new Set();
+  const duplicates = [];
+  for (const m of text.matchAll(/^\s*"((?:[^"\\]|\\.)*)"\s*:/gm)) {
+    if (seen.has(m[1])) duplicates.push(m[1]);
+    seen.add(m[1]);
+  }
+  return { messages: JSON.parse(text), duplicates };
+}
+
+function sourceFiles(dir) {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return sourceFiles(full);
+    return /\.(ts|tsx|js|jsx)$/.test(entry.name) ? [full] : [];
+  });
+}
+
+const locales = fs.readdirSync(localeDir).filter((f) => f.endsWith('.json')).map((f) => f.replace(/\.json$/, ''));
+const base = load(BASE);
+let failed = false;
+
+function report(title, items) {
+  if (!items.length) return;
+  console.log(`\n${title} (${items.length})`);
+  items.forEach((item) => console.log(`  ${item}`));
+}
+
+if (base.duplicates.length) {
+  failed = true;
+  report(`${BASE}: duplicate keys`, base.duplicates);
+}
+
+for (const locale of locales.filter((l) => l !== BASE)) {
+  const { messages, duplicates } = load(locale);
+  const missing = Object.keys(base.messages).filter((key) => !(key in messages));
+  const unused = Object.keys(messages).filter((key) => !(key in base.messages));
+  const same = Object.keys(base.messages).filter((key) => key in messages && messages[key] === base.messages[key]);
+  if (missing.length || duplicates.length) failed = true;
+  report(`${locale}: duplicate keys`, duplicates);
+  report(`${locale}: missing (falls back to English)`, missing);
+  report(`${locale}: identical to English (check these are intentional)`, same);
+  report(`${locale}: not in ${BASE}.json (unused)`, unused);
+}
+
+const used = new Set();
+for (const dir of SOURCE_DIRS) {
+  for (const file of sourceFiles(path.join(root, dir))) {
+    const text = fs.readFileSync(file, 'utf8');
+    for (const m of text.matchAll(/\bt\(\s*'([^'\n]+)'/g)) used.add(m[1]);
+  }
+}
+const undefinedKeys = [...used].filter((key) => !(key in base.messages)).sort();
+if (undefinedKeys.length) failed = true;
+report(`keys used in code but missing from ${BASE}.json`, undefinedKeys);
+
+console.log(failed ? '\ni18n check failed' : `\ni18n check passed (${Object.keys(base.messages).length} keys, locales: ${locales.join(', ')})`);
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests live next to the code they cover as *.test.ts(x). Component tests opt into a DOM with
+// a `@vitest-environment jsdom` comment; everything else runs in plain Node.
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  // tsconfig leaves JSX to Next; the tests need it compiled
+  esbuild: { jsx: 'automatic' },
+  test: {
+    include: ['{lib,components,pages}/**/*.test.{ts,tsx}'],
+    // server modules keep their records in memory instead of under .data
+    env: { STORAGE_DRIVER: 'memory' },
+  },
+});